@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { EmbedBuilder, EmbedLimits } from './EmbedBuilder';
+import { resolveMessageOptions } from './MessagePayload';
+import { Embed } from '../structures/Embed';
+
+describe('EmbedBuilder', () => {
+  it('builds the raw wire shape', () => {
+    const embed = new EmbedBuilder()
+      .setTitle('Status')
+      .setDescription('All systems go')
+      .setURL('https://status.example')
+      .setColor('#57F287')
+      .setTimestamp(new Date('2025-01-01T00:00:00Z'))
+      .setAuthor({ name: 'Monitor', iconUrl: 'https://cdn.example/a.png' })
+      .setFooter({ text: 'updated' })
+      .setImage('https://cdn.example/chart.png')
+      .addFields({ name: 'API', value: 'up', inline: true });
+
+    expect(embed.toJSON()).toEqual({
+      title: 'Status',
+      description: 'All systems go',
+      url: 'https://status.example',
+      color: 0x57f287,
+      timestamp: '2025-01-01T00:00:00.000Z',
+      author: { name: 'Monitor', url: undefined, icon_url: 'https://cdn.example/a.png' },
+      footer: { text: 'updated', icon_url: undefined },
+      image: { url: 'https://cdn.example/chart.png' },
+      fields: [{ name: 'API', value: 'up', inline: true }],
+    });
+  });
+
+  it('resolves colours from numbers, hex strings and RGB tuples', () => {
+    expect(new EmbedBuilder().setColor(0xff0000).toJSON().color).toBe(0xff0000);
+    expect(new EmbedBuilder().setColor([0, 128, 255]).toJSON().color).toBe(0x0080ff);
+    expect(() => new EmbedBuilder().setColor('#fff')).toThrow(RangeError);
+    expect(() => new EmbedBuilder().setColor([256, 0, 0])).toThrow(RangeError);
+  });
+
+  it('rejects values over the per-field limits as they are set', () => {
+    expect(() => new EmbedBuilder().setTitle('x'.repeat(EmbedLimits.TITLE + 1))).toThrow('Embed title is 257');
+    expect(() => new EmbedBuilder().addFields({ name: 'n', value: 'v'.repeat(1025) })).toThrow(RangeError);
+
+    const tooMany = Array.from({ length: EmbedLimits.FIELDS + 1 }, (_, i) => ({ name: `f${i}`, value: 'v' }));
+    expect(() => new EmbedBuilder().addFields(...tooMany)).toThrow('at most 25 fields');
+  });
+
+  it('rejects embeds over the combined length limit', () => {
+    const embed = new EmbedBuilder().setDescription('x'.repeat(4000));
+    embed.addFields(...Array.from({ length: 3 }, (_, i) => ({ name: `f${i}`, value: 'y'.repeat(1000) })));
+    expect(embed.length).toBe(7006);
+    expect(() => embed.toJSON()).toThrow('limit is 6000');
+  });
+
+  it('validates raw data that never went through the setters', () => {
+    expect(() => new EmbedBuilder({ title: 'x'.repeat(300) }).toJSON()).toThrow(RangeError);
+  });
+
+  it('copies a received Embed without sharing state', () => {
+    const received = new Embed({ title: 'Old', fields: [{ name: 'a', value: 'b' }] });
+    const edited = EmbedBuilder.from(received).setTitle('New').addFields({ name: 'c', value: 'd' });
+
+    expect(edited.toJSON().fields).toHaveLength(2);
+    expect(received.toJSON().fields).toHaveLength(1);
+    expect(received.title).toBe('Old');
+  });
+
+  it('hands out copies from Embed.toJSON()', () => {
+    const received = new Embed({ title: 'Old', author: { name: 'bot' }, fields: [{ name: 'a', value: 'b' }] });
+    const json = received.toJSON();
+    json.title = 'New';
+    json.author!.name = 'someone';
+    json.fields!.push({ name: 'c', value: 'd' });
+
+    expect(received.toJSON()).toEqual({ title: 'Old', author: { name: 'bot' }, fields: [{ name: 'a', value: 'b' }] });
+  });
+});
+
+describe('resolveMessageOptions()', () => {
+  it('wraps a string as content', () => {
+    expect(resolveMessageOptions('hi')).toEqual({ content: 'hi' });
+  });
+
+  it('serializes builders, structures and raw embeds alike', () => {
+    const data = resolveMessageOptions({
+      content: 'report',
+      embeds: [new EmbedBuilder().setTitle('a'), new Embed({ title: 'b' }), { title: 'c' }],
+    });
+    expect(data).toEqual({ content: 'report', embeds: [{ title: 'a' }, { title: 'b' }, { title: 'c' }] });
+  });
+
+  it('enforces the per-message embed limit', () => {
+    const embeds = Array.from({ length: 11 }, () => new EmbedBuilder().setTitle('x'));
+    expect(() => resolveMessageOptions({ embeds })).toThrow('at most 10 embeds');
+  });
+
+  it('normalizes files into upload descriptors', () => {
+    const bytes = Buffer.from('x');
+    expect(resolveMessageOptions({ files: ['./a.png', bytes, { attachment: bytes, name: 'b.txt' }] }).files).toEqual([
+      { data: './a.png' },
+      { data: bytes },
+      { data: bytes, name: 'b.txt', contentType: undefined },
+    ]);
+    expect(() => resolveMessageOptions({ files: Array(11).fill(bytes) })).toThrow('at most 10 files');
+  });
+});
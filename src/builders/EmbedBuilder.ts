@@ -0,0 +1,167 @@
+import type { RawEmbed, RawEmbedField } from '../types';
+import type { Embed } from '../structures/Embed';
+
+/** Server-side embed limits, enforced before the request is sent */
+export const EmbedLimits = {
+  TITLE:        256,
+  DESCRIPTION:  4096,
+  FIELDS:       25,
+  FIELD_NAME:   256,
+  FIELD_VALUE:  1024,
+  AUTHOR_NAME:  256,
+  FOOTER_TEXT:  2048,
+  /** Sum of every text field across the embed */
+  TOTAL:        6000,
+  /** Embeds per message */
+  PER_MESSAGE:  10,
+} as const;
+
+export type ColorResolvable = number | `#${string}` | [red: number, green: number, blue: number];
+
+/**
+ * Fluent builder for outgoing embeds.
+ *
+ * Every setter validates against EmbedLimits and throws a RangeError straight
+ * away, so a bad embed fails where it was built rather than as a 400 later.
+ *
+ * @example
+ * channel.send({ embeds: [new EmbedBuilder().setTitle('Status').setColor('#57f287')] })
+ */
+export class EmbedBuilder {
+  readonly #data: RawEmbed;
+
+  constructor(data: RawEmbed = {}) {
+    this.#data = { ...data, fields: [...(data.fields ?? [])] };
+  }
+
+  /** Start from a received embed or raw data */
+  static from(embed: Embed | RawEmbed): EmbedBuilder {
+    return new EmbedBuilder('toJSON' in embed ? embed.toJSON() : embed);
+  }
+
+  setTitle(title: string | null): this {
+    if (title !== null) checkLength('title', title, EmbedLimits.TITLE);
+    this.#data.title = title;
+    return this;
+  }
+
+  setDescription(description: string | null): this {
+    if (description !== null) checkLength('description', description, EmbedLimits.DESCRIPTION);
+    this.#data.description = description;
+    return this;
+  }
+
+  setURL(url: string | null): this {
+    this.#data.url = url;
+    return this;
+  }
+
+  setColor(color: ColorResolvable | null): this {
+    this.#data.color = color === null ? null : resolveColor(color);
+    return this;
+  }
+
+  /** Defaults to now */
+  setTimestamp(timestamp: Date | number | null = Date.now()): this {
+    this.#data.timestamp = timestamp === null ? null : new Date(timestamp).toISOString();
+    return this;
+  }
+
+  setAuthor(author: { name: string; url?: string; iconUrl?: string } | null): this {
+    if (author) checkLength('author name', author.name, EmbedLimits.AUTHOR_NAME);
+    this.#data.author = author && { name: author.name, url: author.url, icon_url: author.iconUrl };
+    return this;
+  }
+
+  setFooter(footer: { text: string; iconUrl?: string } | null): this {
+    if (footer) checkLength('footer text', footer.text, EmbedLimits.FOOTER_TEXT);
+    this.#data.footer = footer && { text: footer.text, icon_url: footer.iconUrl };
+    return this;
+  }
+
+  setImage(url: string | null): this {
+    this.#data.image = url === null ? null : { url };
+    return this;
+  }
+
+  setThumbnail(url: string | null): this {
+    this.#data.thumbnail = url === null ? null : { url };
+    return this;
+  }
+
+  addFields(...fields: RawEmbedField[]): this {
+    const current = this.#data.fields!;
+    if (current.length + fields.length > EmbedLimits.FIELDS) {
+      throw new RangeError(`Embeds can have at most ${EmbedLimits.FIELDS} fields`);
+    }
+    for (const field of fields) {
+      checkLength('field name', field.name, EmbedLimits.FIELD_NAME);
+      checkLength('field value', field.value, EmbedLimits.FIELD_VALUE);
+      current.push({ ...field });
+    }
+    return this;
+  }
+
+  /** Replace every field */
+  setFields(...fields: RawEmbedField[]): this {
+    this.#data.fields = [];
+    return this.addFields(...fields);
+  }
+
+  /** Total characters counted toward EmbedLimits.TOTAL */
+  get length(): number {
+    const d = this.#data;
+    return (d.title?.length ?? 0)
+      + (d.description?.length ?? 0)
+      + (d.author?.name.length ?? 0)
+      + (d.footer?.text.length ?? 0)
+      + (d.fields ?? []).reduce((n, f) => n + f.name.length + f.value.length, 0);
+  }
+
+  /**
+   * Wire shape. Re-checks every limit, since data passed to the constructor
+   * or from() never went through the setters, then the combined length.
+   */
+  toJSON(): RawEmbed {
+    const d = this.#data;
+    if (d.title) checkLength('title', d.title, EmbedLimits.TITLE);
+    if (d.description) checkLength('description', d.description, EmbedLimits.DESCRIPTION);
+    if (d.author) checkLength('author name', d.author.name, EmbedLimits.AUTHOR_NAME);
+    if (d.footer) checkLength('footer text', d.footer.text, EmbedLimits.FOOTER_TEXT);
+    if ((d.fields?.length ?? 0) > EmbedLimits.FIELDS) {
+      throw new RangeError(`Embeds can have at most ${EmbedLimits.FIELDS} fields`);
+    }
+    for (const field of d.fields ?? []) {
+      checkLength('field name', field.name, EmbedLimits.FIELD_NAME);
+      checkLength('field value', field.value, EmbedLimits.FIELD_VALUE);
+    }
+    if (this.length > EmbedLimits.TOTAL) {
+      throw new RangeError(`Embed text totals ${this.length} characters, limit is ${EmbedLimits.TOTAL}`);
+    }
+
+    const data = { ...this.#data, fields: this.#data.fields?.map((f) => ({ ...f })) };
+    if (data.fields?.length === 0) delete data.fields;
+    return data;
+  }
+}
+
+function checkLength(what: string, value: string, max: number): void {
+  if (value.length > max) {
+    throw new RangeError(`Embed ${what} is ${value.length} characters, limit is ${max}`);
+  }
+}
+
+function resolveColor(color: ColorResolvable): number {
+  let value: number;
+  if (typeof color === 'number') value = color;
+  else if (Array.isArray(color)) {
+    value = color.every((c) => Number.isInteger(c) && c >= 0 && c <= 255)
+      ? (color[0] << 16) + (color[1] << 8) + color[2]
+      : NaN;
+  } else value = /^#[0-9a-f]{6}$/i.test(color) ? parseInt(color.slice(1), 16) : NaN;
+
+  if (!Number.isInteger(value) || value < 0 || value > 0xffffff) {
+    throw new RangeError(`Invalid embed color: ${String(color)}`);
+  }
+  return value;
+}
@@ -0,0 +1,71 @@
+import { EmbedBuilder, EmbedLimits } from './EmbedBuilder';
+import type { Embed } from '../structures/Embed';
+import type { CreateMessageData, RawFile } from '../rest';
+import type { RawEmbed } from '../types';
+import type { Readable } from 'stream';
+
+export type EmbedResolvable = EmbedBuilder | Embed | RawEmbed;
+
+/**
+ * A file to upload: a path on disk, in-memory bytes, a readable stream, or
+ * any of those with an explicit name and content type.
+ */
+export type FileResolvable =
+  | string
+  | Buffer
+  | Uint8Array
+  | Readable
+  | { attachment: string | Buffer | Uint8Array | Readable; name?: string; contentType?: string };
+
+/** Files per message */
+export const MAX_FILES_PER_MESSAGE = 10;
+
+/** What Channel.send, Message.reply and Message.edit accept besides a plain string */
+export interface MessageOptions {
+  content?: string;
+  embeds?: EmbedResolvable[];
+  files?: FileResolvable[];
+}
+
+/** What Message.reply accepts besides a plain string */
+export interface ReplyOptions extends MessageOptions {
+  /** Notify the author of the message being replied to — defaults to true */
+  ping?: boolean;
+}
+
+/** What WebhookClient.send accepts besides a plain string */
+export interface WebhookMessageOptions extends MessageOptions {
+  /** Overrides the webhook's name for this message */
+  username?: string;
+  /** Overrides the webhook's avatar for this message */
+  avatarUrl?: string;
+}
+
+/** Normalize user-facing send options into the REST body */
+export function resolveMessageOptions(input: string | MessageOptions): CreateMessageData {
+  if (typeof input === 'string') return { content: input };
+
+  const data: CreateMessageData = {};
+  if (input.content !== undefined) data.content = input.content;
+  if (input.embeds !== undefined) {
+    if (input.embeds.length > EmbedLimits.PER_MESSAGE) {
+      throw new RangeError(`Messages can have at most ${EmbedLimits.PER_MESSAGE} embeds`);
+    }
+    // Round-trip raw objects through the builder so they get the same validation
+    data.embeds = input.embeds.map((e) => (e instanceof EmbedBuilder ? e : EmbedBuilder.from(e)).toJSON());
+  }
+  if (input.files?.length) {
+    if (input.files.length > MAX_FILES_PER_MESSAGE) {
+      throw new RangeError(`Messages can have at most ${MAX_FILES_PER_MESSAGE} files`);
+    }
+    data.files = input.files.map(resolveFile);
+  }
+  return data;
+}
+
+function resolveFile(file: FileResolvable): RawFile {
+  if (typeof file === 'string' || file instanceof Uint8Array || !('attachment' in file)) {
+    return { data: file };
+  }
+  return { data: file.attachment, name: file.name, contentType: file.contentType };
+}
@@ -0,0 +1,10 @@
+export { EmbedBuilder, EmbedLimits, type ColorResolvable } from './EmbedBuilder';
+export {
+  resolveMessageOptions,
+  MAX_FILES_PER_MESSAGE,
+  type MessageOptions,
+  type ReplyOptions,
+  type WebhookMessageOptions,
+  type EmbedResolvable,
+  type FileResolvable,
+} from './MessagePayload';
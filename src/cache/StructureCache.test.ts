@@ -0,0 +1,55 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { StructureCache } from './StructureCache';
+
+describe('StructureCache', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('behaves like a Map when unbounded', () => {
+    const cache = new StructureCache<number>();
+    cache.set('a', 1).set('b', 2);
+    expect(cache.get('a')).toBe(1);
+    expect(cache.size).toBe(2);
+    expect(cache.enabled).toBe(true);
+  });
+
+  it('evicts the least recently written entry past maxSize', () => {
+    const cache = new StructureCache<number>({ maxSize: 2 });
+    cache.set('a', 1).set('b', 2);
+    // rewriting 'a' makes 'b' the oldest
+    cache.set('a', 10);
+    cache.set('c', 3);
+    expect([...cache.keys()]).toEqual(['a', 'c']);
+    expect(cache.get('a')).toBe(10);
+  });
+
+  it('stores nothing when disabled', () => {
+    const cache = new StructureCache<number>(false);
+    cache.set('a', 1);
+    expect(cache.size).toBe(0);
+    expect(cache.enabled).toBe(false);
+  });
+
+  it('sweep() removes entries matching the filter', () => {
+    const cache = new StructureCache<number>({ sweepFilter: (v) => v > 1 });
+    cache.set('a', 1).set('b', 2).set('c', 3);
+    expect(cache.sweep()).toBe(2);
+    expect([...cache.keys()]).toEqual(['a']);
+  });
+
+  it('runs the sweeper on an interval until stopped', () => {
+    vi.useFakeTimers();
+    const cache = new StructureCache<number>({ sweepInterval: 1000, sweepFilter: () => true });
+    cache.startSweeping();
+    cache.set('a', 1);
+
+    vi.advanceTimersByTime(1000);
+    expect(cache.size).toBe(0);
+
+    cache.stopSweeping();
+    cache.set('b', 2);
+    vi.advanceTimersByTime(5000);
+    expect(cache.size).toBe(1);
+  });
+});
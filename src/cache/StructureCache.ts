@@ -0,0 +1,76 @@
+export interface CacheOptions<T> {
+  /** Maximum entries kept — the least recently written entry is evicted first. 0 disables caching. */
+  maxSize?: number;
+  /** How often the sweeper runs, in ms. Has no effect without sweepFilter. */
+  sweepInterval?: number;
+  /** Entries this returns true for are dropped on each sweep */
+  sweepFilter?: (value: T, key: string) => boolean;
+}
+
+/**
+ * Map of structures keyed by id, with an optional size cap and periodic sweeper.
+ *
+ * Insertion order doubles as recency: set() moves an existing key to the end,
+ * so eviction always drops whatever was written longest ago.
+ */
+export class StructureCache<T> extends Map<string, T> {
+  readonly maxSize: number;
+
+  readonly #sweepInterval: number | null;
+  readonly #sweepFilter: ((value: T, key: string) => boolean) | null;
+  #sweepTimer: ReturnType<typeof setInterval> | null = null;
+
+  /** Pass false to get a cache that never stores anything */
+  constructor(options: CacheOptions<T> | false = {}) {
+    super();
+    const opts = options === false ? { maxSize: 0 } : options;
+    this.maxSize        = opts.maxSize ?? Infinity;
+    this.#sweepInterval = opts.sweepInterval ?? null;
+    this.#sweepFilter   = opts.sweepFilter ?? null;
+  }
+
+  /** False when caching is disabled for this structure type */
+  get enabled(): boolean {
+    return this.maxSize > 0;
+  }
+
+  override set(key: string, value: T): this {
+    if (this.maxSize <= 0) return this;
+    if (this.has(key)) {
+      this.delete(key);
+    } else if (this.size >= this.maxSize) {
+      const oldest = this.keys().next();
+      if (!oldest.done) this.delete(oldest.value);
+    }
+    return super.set(key, value);
+  }
+
+  /**
+   * Drop every entry the filter matches. Defaults to the configured sweepFilter.
+   * Returns the number of entries removed.
+   */
+  sweep(filter: ((value: T, key: string) => boolean) | null = this.#sweepFilter): number {
+    if (!filter) return 0;
+    let removed = 0;
+    for (const [key, value] of this) {
+      if (filter(value, key)) {
+        this.delete(key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  /** Start the periodic sweeper if one is configured. Idempotent. */
+  startSweeping(): void {
+    if (this.#sweepTimer || !this.#sweepInterval || !this.#sweepFilter) return;
+    this.#sweepTimer = setInterval(() => this.sweep(), this.#sweepInterval);
+    // A cache sweeper alone should never keep the process alive
+    this.#sweepTimer.unref?.();
+  }
+
+  stopSweeping(): void {
+    if (this.#sweepTimer) clearInterval(this.#sweepTimer);
+    this.#sweepTimer = null;
+  }
+}
@@ -0,0 +1 @@
+export { StructureCache, type CacheOptions } from './StructureCache';
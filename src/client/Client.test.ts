@@ -0,0 +1,527 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { WebSocketServer, type WebSocket } from 'ws';
+import type { AddressInfo } from 'net';
+import { Client } from './Client';
+import { ThreadChannel } from '../structures/ThreadChannel';
+import { encode, decode } from '../gateway/encoding';
+import { Opcodes, isDispatch } from '../gateway/types';
+import type { GatewayPayload, ReadyData } from '../gateway/types';
+import type { RawChannel, RawMessage, RawServer, RawUser } from '../types';
+
+const rawUser: RawUser = {
+  id: '100',
+  username: 'testbot',
+  display_name: 'Test Bot',
+  created_at: '2025-01-01T00:00:00Z',
+};
+
+const rawServer: RawServer = {
+  id: '1',
+  name: 'Test Server',
+  owner_id: '100',
+  member_count: 1,
+  created_at: '2025-01-01T00:00:00Z',
+};
+
+const rawChannel: RawChannel = {
+  id: '200',
+  server_id: '1',
+  name: 'general',
+  type: 0,
+  position: 0,
+  created_at: '2025-01-01T00:00:00Z',
+};
+
+const rawMessage: RawMessage = {
+  id: '300',
+  channel_id: '200',
+  author: { ...rawUser, id: '101', username: 'someone' },
+  content: 'hello',
+  created_at: '2025-01-01T00:00:00Z',
+};
+
+const readyData: ReadyData = {
+  user: rawUser,
+  servers: [rawServer],
+  session_id: 'sess_1',
+  heartbeat_interval: 60_000,
+};
+
+describe('Client', () => {
+  let wss: WebSocketServer;
+  let url: string;
+  let socket: WebSocket | null;
+  let client: Client;
+
+  beforeEach(async () => {
+    socket = null;
+    wss = new WebSocketServer({ port: 0 });
+    await new Promise((resolve) => wss.once('listening', resolve));
+    url = `ws://127.0.0.1:${(wss.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    client?.destroy();
+    socket?.terminate();
+    await new Promise((resolve) => wss.close(resolve));
+  });
+
+  /** Log in, answer IDENTIFY with READY and wait for the client's ready event */
+  async function login(options: Partial<ConstructorParameters<typeof Client>[0]> = {}): Promise<void> {
+    client = new Client({ token: 'bot_test', gatewayUrl: url, ...options });
+    const conn = new Promise<WebSocket>((resolve) => wss.once('connection', resolve));
+    const ready = new Promise((resolve) => client.once('ready', resolve));
+    client.login();
+    socket = await conn;
+    await new Promise((resolve) => socket!.once('message', resolve));
+    send({ op: Opcodes.READY, d: readyData });
+    await ready;
+  }
+
+  function send(payload: GatewayPayload): void {
+    socket!.send(encode(payload));
+  }
+
+  let seq = 0;
+  /** Send a dispatch and wait until the client has re-emitted something for it */
+  async function dispatch(t: string, d: unknown, event?: string): Promise<void> {
+    const seen = event
+      ? new Promise((resolve) => client.once(event, resolve))
+      : new Promise((r) => setTimeout(r, 20));
+    send({ op: Opcodes.DISPATCH, t, s: ++seq, d });
+    await seen;
+  }
+
+  describe('cache', () => {
+    it('populates user and servers from READY', async () => {
+      await login();
+      expect(client.user?.username).toBe('testbot');
+      expect(client.users.get('100')).toBe(client.user);
+      expect(client.servers.get('1')?.name).toBe('Test Server');
+    });
+
+    it('resolves a message channel and its server synchronously', async () => {
+      await login();
+      await dispatch('CHANNEL_CREATE', rawChannel, 'channelCreate');
+
+      const received = new Promise<string | undefined>((resolve) => {
+        client.once('messageCreate', (msg) => resolve(msg.channel?.server?.name));
+      });
+      send({ op: Opcodes.DISPATCH, t: 'MESSAGE_CREATE', s: ++seq, d: rawMessage });
+
+      expect(await received).toBe('Test Server');
+      expect(client.users.get('101')?.username).toBe('someone');
+    });
+
+    it('replaces entries on update and prunes them on delete', async () => {
+      await login();
+      await dispatch('CHANNEL_CREATE', rawChannel, 'channelCreate');
+      await dispatch('CHANNEL_UPDATE', { ...rawChannel, name: 'renamed' });
+      expect(client.channels.get('200')?.name).toBe('renamed');
+
+      await dispatch('CHANNEL_DELETE', { id: '200' });
+      expect(client.channels.has('200')).toBe(false);
+    });
+
+    it('drops a deleted server together with its channels', async () => {
+      await login();
+      await dispatch('CHANNEL_CREATE', rawChannel, 'channelCreate');
+      await dispatch('SERVER_DELETE', { id: '1' });
+      expect(client.servers.has('1')).toBe(false);
+      expect(client.channels.has('200')).toBe(false);
+    });
+
+    it('respects per-structure cache options', async () => {
+      await login({ cache: { users: false, servers: { maxSize: 1 } } });
+      expect(client.users.size).toBe(0);
+      // user accessor still works when the users cache is disabled
+      expect(client.user?.id).toBe('100');
+
+      await dispatch('SERVER_CREATE', { ...rawServer, id: '2' }, 'serverCreate');
+      expect([...client.servers.keys()]).toEqual(['2']);
+    });
+  });
+
+  describe('lifecycle events', () => {
+    it('emits old and new channels on update', async () => {
+      await login();
+      await dispatch('CHANNEL_CREATE', rawChannel, 'channelCreate');
+
+      const updated = new Promise<[string | undefined, string | null | undefined]>((resolve) => {
+        client.once('channelUpdate', (oldChannel, newChannel) => resolve([oldChannel?.topic ?? undefined, newChannel.topic]));
+      });
+      await dispatch('CHANNEL_UPDATE', { ...rawChannel, topic: 'new topic' });
+      expect(await updated).toEqual([undefined, 'new topic']);
+    });
+
+    it('emits a null old channel when it was not cached', async () => {
+      await login();
+      const updated = new Promise<unknown>((resolve) => client.once('channelUpdate', (oldChannel) => resolve(oldChannel)));
+      await dispatch('CHANNEL_UPDATE', rawChannel);
+      expect(await updated).toBeNull();
+    });
+
+    it('emits the deleted channel', async () => {
+      await login();
+      await dispatch('CHANNEL_CREATE', rawChannel, 'channelCreate');
+      const deleted = new Promise<string>((resolve) => client.once('channelDelete', (channel) => resolve(channel.name)));
+      await dispatch('CHANNEL_DELETE', rawChannel);
+      expect(await deleted).toBe('general');
+    });
+
+    it('emits old and new servers on update', async () => {
+      await login();
+      const updated = new Promise<string[]>((resolve) => {
+        client.once('serverUpdate', (oldServer, newServer) => resolve([oldServer!.name, newServer.name]));
+      });
+      await dispatch('SERVER_UPDATE', { ...rawServer, name: 'Renamed' });
+      expect(await updated).toEqual(['Test Server', 'Renamed']);
+    });
+
+    it('emits serverDelete with the last cached state', async () => {
+      await login();
+      const deleted = new Promise<unknown>((resolve) => client.once('serverDelete', resolve));
+      await dispatch('SERVER_DELETE', { id: '1' });
+      expect(await deleted).toMatchObject({ id: '1', server: { name: 'Test Server' } });
+    });
+
+    it('flags outages instead of deleting, and clears the flag on return', async () => {
+      await login();
+      await dispatch('CHANNEL_CREATE', rawChannel, 'channelCreate');
+
+      const down = new Promise<boolean>((resolve) => client.once('serverUnavailable', (server) => resolve(server.unavailable)));
+      const deleted: unknown[] = [];
+      client.on('serverDelete', (payload) => deleted.push(payload));
+      await dispatch('SERVER_DELETE', { id: '1', unavailable: true });
+      expect(await down).toBe(true);
+      expect(client.servers.get('1')?.unavailable).toBe(true);
+      expect(client.channels.has('200')).toBe(true);
+      expect(deleted).toEqual([]);
+
+      const back = new Promise<boolean>((resolve) => client.once('serverAvailable', (server) => resolve(server.unavailable)));
+      await dispatch('SERVER_CREATE', rawServer);
+      expect(await back).toBe(false);
+    });
+
+    it('emits bulk message deletes', async () => {
+      await login();
+      const bulk = new Promise<unknown>((resolve) => client.once('messageDeleteBulk', resolve));
+      await dispatch('MESSAGE_DELETE_BULK', { ids: ['1', '2'], channel_id: '200' });
+      expect(await bulk).toEqual({ ids: ['1', '2'], channelId: '200' });
+    });
+  });
+
+  describe('members and roles', () => {
+    const rawMember = { user: { ...rawUser, id: '101' }, server_id: '1', role_ids: [], joined_at: '2025-01-01T00:00:00Z' };
+
+    it('tracks joins, updates and leaves along with the member count', async () => {
+      await login();
+      await dispatch('SERVER_MEMBER_ADD', rawMember, 'memberJoin');
+      expect(client.servers.get('1')?.members.get('101')).toBeDefined();
+      expect(client.servers.get('1')?.memberCount).toBe(2);
+
+      const updated = new Promise<[string | null | undefined, string | null]>((resolve) => {
+        client.once('memberUpdate', (oldMember, newMember) => resolve([oldMember?.nickname, newMember.nickname]));
+      });
+      await dispatch('SERVER_MEMBER_UPDATE', { ...rawMember, nickname: 'Nick' });
+      expect(await updated).toEqual([null, 'Nick']);
+
+      const left = new Promise<unknown>((resolve) => client.once('memberLeave', resolve));
+      await dispatch('SERVER_MEMBER_REMOVE', { server_id: '1', user: rawMember.user });
+      expect(await left).toMatchObject({ serverId: '1', user: { id: '101' }, member: { nickname: 'Nick' } });
+      expect(client.members.size).toBe(0);
+      expect(client.servers.get('1')?.memberCount).toBe(1);
+    });
+
+    it('caches members attached to messages', async () => {
+      await login();
+      await dispatch('MESSAGE_CREATE', { ...rawMessage, member: rawMember }, 'messageCreate');
+      expect(client.servers.get('1')?.members.get('101')?.joinedAt).toBeInstanceOf(Date);
+    });
+
+    it('keeps roles in step and drops them with their server', async () => {
+      await login();
+      const rawRole = { id: '500', server_id: '1', name: 'Mod', color: 0, position: 1, permissions: '0', created_at: '2025-01-01T00:00:00Z' };
+      await dispatch('SERVER_ROLE_CREATE', rawRole);
+      await dispatch('SERVER_ROLE_UPDATE', { ...rawRole, name: 'Moderator' });
+      expect(client.roles.get('500')?.name).toBe('Moderator');
+
+      await dispatch('SERVER_ROLE_DELETE', { server_id: '1', role_id: '500' });
+      expect(client.roles.has('500')).toBe(false);
+
+      await dispatch('SERVER_ROLE_CREATE', rawRole);
+      await dispatch('SERVER_MEMBER_ADD', rawMember, 'memberJoin');
+      await dispatch('SERVER_DELETE', { id: '1' });
+      expect(client.roles.size).toBe(0);
+      expect(client.members.size).toBe(0);
+    });
+
+    it('leaves deleted and updated roles alone on member count changes and outages', async () => {
+      await login();
+      const rawRole = { id: '501', server_id: '2', name: 'Mod', color: 0, position: 1, permissions: '0', created_at: '2025-01-01T00:00:00Z' };
+      await dispatch('SERVER_CREATE', { ...rawServer, id: '2', roles: [rawRole, { ...rawRole, id: '502' }] }, 'serverCreate');
+      await dispatch('SERVER_ROLE_DELETE', { server_id: '2', role_id: '501' });
+      await dispatch('SERVER_ROLE_UPDATE', { ...rawRole, id: '502', name: 'Moderator' });
+
+      await dispatch('SERVER_MEMBER_ADD', { ...rawMember, server_id: '2' }, 'memberJoin');
+      expect(client.servers.get('2')?.memberCount).toBe(2);
+      expect(client.roles.has('501')).toBe(false);
+      expect(client.roles.get('502')?.name).toBe('Moderator');
+
+      await dispatch('SERVER_DELETE', { id: '2', unavailable: true }, 'serverUnavailable');
+      expect(client.servers.get('2')?.unavailable).toBe(true);
+      expect(client.roles.has('501')).toBe(false);
+      expect(client.roles.get('502')?.name).toBe('Moderator');
+    });
+  });
+
+  describe('threads', () => {
+    const rawThread = {
+      id: '250', server_id: '1', name: 'help', type: 11, position: 0, parent_id: '200',
+      thread_metadata: { archived: false, auto_archive_duration: 1440 }, created_at: '2025-01-01T00:00:00Z',
+    };
+
+    it('tracks thread creates, updates and deletes', async () => {
+      await login();
+      const created = new Promise<unknown>((resolve) => client.once('threadCreate', resolve));
+      await dispatch('THREAD_CREATE', rawThread);
+      expect(await created).toBeInstanceOf(ThreadChannel);
+
+      const updated = new Promise<[boolean | undefined, boolean]>((resolve) => {
+        client.once('threadUpdate', (oldThread, newThread) => resolve([oldThread?.archived, newThread.archived]));
+      });
+      await dispatch('THREAD_UPDATE', { ...rawThread, thread_metadata: { archived: true, auto_archive_duration: 1440 } });
+      expect(await updated).toEqual([false, true]);
+
+      const deleted = new Promise<unknown>((resolve) => client.once('threadDelete', resolve));
+      await dispatch('THREAD_DELETE', rawThread);
+      expect(await deleted).toMatchObject({ id: '250', archived: true });
+      expect(client.channels.has('250')).toBe(false);
+    });
+
+    it('caches but does not announce thread events for non-thread channels', async () => {
+      await login();
+      const seen: unknown[] = [];
+      client.on('threadCreate', (thread) => seen.push(thread.id));
+      client.on('threadDelete', (thread) => seen.push(thread.id));
+
+      await dispatch('THREAD_CREATE', { ...rawThread, id: '251', type: 0, thread_metadata: undefined });
+      expect(client.channels.get('251')?.isThread()).toBe(false);
+      await dispatch('THREAD_DELETE', { ...rawThread, id: '251', type: 0, thread_metadata: undefined });
+
+      const created = new Promise<unknown>((resolve) => client.once('threadCreate', resolve));
+      await dispatch('THREAD_CREATE', rawThread);
+      await created;
+      expect(seen).toEqual(['250']);
+    });
+  });
+
+  describe('reactions', () => {
+    const emoji = { id: null, name: '👍' };
+
+    it('emits reaction adds and removes with the reactor', async () => {
+      await login();
+      const added = new Promise<unknown>((resolve) => client.once('messageReactionAdd', resolve));
+      await dispatch('MESSAGE_REACTION_ADD', {
+        user_id: '101', channel_id: '200', message_id: '300', server_id: '1', emoji,
+        member: { user: { ...rawUser, id: '101' }, server_id: '1', role_ids: [], joined_at: '2025-01-01T00:00:00Z' },
+      });
+      expect(await added).toMatchObject({
+        messageId: '300', channelId: '200', serverId: '1', userId: '101',
+        user: { id: '101' }, member: { id: '101' }, emoji: { identifier: '👍' },
+      });
+      expect(client.servers.get('1')?.members.get('101')).toBeDefined();
+
+      const removed = new Promise<unknown>((resolve) => client.once('messageReactionRemove', resolve));
+      await dispatch('MESSAGE_REACTION_REMOVE', { user_id: '102', channel_id: '200', message_id: '300', emoji });
+      expect(await removed).toMatchObject({ serverId: null, userId: '102', user: null, member: null });
+    });
+  });
+
+  describe('intents', () => {
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('sends the resolved intents in IDENTIFY', async () => {
+      client = new Client({ token: 'bot_test', gatewayUrl: url, intents: ['SERVERS', 'SERVER_MESSAGES'] });
+      const conn = new Promise<WebSocket>((resolve) => wss.once('connection', resolve));
+      // Never readied — afterEach's destroy() rejects it
+      client.login().catch(() => {});
+      socket = await conn;
+      const identify = await new Promise<GatewayPayload<{ intents?: number }>>((resolve) => {
+        socket!.once('message', (data) => resolve(decode(data as Buffer) as GatewayPayload<{ intents?: number }>));
+      });
+      expect(identify.d?.intents).toBe(1 + (1 << 9));
+    });
+
+    it('omits intents when none are configured', () => {
+      expect(new Client({ token: 'bot_test' }).intents).toBeNull();
+    });
+
+    it('warns once when listening for an event the intents exclude', () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      client = new Client({ token: 'bot_test', intents: ['SERVERS'] });
+      client.on('serverCreate', () => {});
+      client.on('memberJoin', () => {});
+      client.once('memberJoin', () => {});
+      expect(warn).toHaveBeenCalledTimes(1);
+      expect(warn.mock.calls[0][0]).toContain('"memberJoin"');
+      expect(warn.mock.calls[0][0]).toContain('SERVER_MEMBERS');
+    });
+  });
+
+  describe('REST events', () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('forwards request, response and rate-limit events from client.rest', async () => {
+      vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify({ error: 'slow down', retry_after: 0 }), {
+        status: 429,
+        headers: { 'content-type': 'application/json' },
+      })));
+      client = new Client({ token: 'bot_test', restUrl: 'http://api.test' });
+      const events: string[] = [];
+      client.on('restRequest', (req) => events.push(`request ${req.attempt}`));
+      client.on('restResponse', (res) => events.push(`response ${res.status}`));
+      client.on('rateLimited', (info) => events.push(`rateLimited ${info.route}`));
+      client.on('restRetry', (info) => events.push(`retry ${info.reason}`));
+
+      await expect(client.users.fetch('100')).rejects.toThrow();
+      expect(events.slice(0, 4)).toEqual(['request 0', 'response 429', 'rateLimited GET:/users/100', 'retry rateLimited']);
+    });
+  });
+
+  describe('login()', () => {
+    it('resolves with the ready event', async () => {
+      client = new Client({ token: 'bot_test', gatewayUrl: url });
+      wss.once('connection', (s) => {
+        socket = s;
+        s.once('message', () => s.send(encode({ op: Opcodes.READY, d: readyData })));
+      });
+      const ready = await client.login();
+      expect(ready.user.username).toBe('testbot');
+      expect(ready.servers.map((s) => s.id)).toEqual(['1']);
+    });
+
+    it('rejects with a GatewayError when the token is refused', async () => {
+      client = new Client({ token: 'bot_test', gatewayUrl: url });
+      wss.once('connection', (s) => s.once('message', () => s.close(4004, 'Authentication failed')));
+      await expect(client.login()).rejects.toMatchObject({ name: 'GatewayError', code: 4004 });
+      expect(client.shards[0].state).toBe('DISCONNECTED');
+    });
+
+    it('rejects a pending login on destroy() and connects again on the next one', async () => {
+      client = new Client({ token: 'bot_test', gatewayUrl: url });
+      const identify = new Promise((resolve) => wss.once('connection', (s) => s.once('message', resolve)));
+      const pending = client.login();
+      await identify;
+      client.destroy();
+      await expect(pending).rejects.toMatchObject({ name: 'GatewayError', code: 1000, shardId: 0 });
+
+      // The identify throttle holds a second IDENTIFY for seconds — a new connection is what matters
+      wss.once('connection', (s) => {
+        socket = s;
+        s.send(encode({ op: Opcodes.READY, d: readyData }));
+      });
+      await expect(client.login()).resolves.toMatchObject({ user: { username: 'testbot' } });
+    });
+
+    it('reports scheduled reconnects', async () => {
+      await login({ reconnect: { backoff: () => 5_000 } });
+      const reconnecting = new Promise((resolve) => {
+        client.once('reconnecting', (...args) => resolve(args));
+      });
+      socket!.terminate();
+      expect(await reconnecting).toEqual([1, 5_000, 0]);
+    });
+  });
+
+  describe('presence', () => {
+    it('sets status and activity on every shard, merging partial updates', async () => {
+      await login({ presence: { activity: { name: 'deploys' } } });
+      expect(client.presence).toEqual({ status: 'online', activity: { name: 'deploys', type: 0, url: null } });
+
+      const frame = new Promise<GatewayPayload>((resolve) => {
+        socket!.on('message', (data) => {
+          const payload = decode(data as Buffer);
+          if (payload.op === Opcodes.PRESENCE_UPDATE) resolve(payload);
+        });
+      });
+      client.user!.setStatus('dnd');
+      expect(await frame).toEqual({ op: Opcodes.PRESENCE_UPDATE, d: { status: 'dnd', activity: { name: 'deploys', type: 0, url: null } } });
+
+      client.user!.setActivity(null);
+      expect(client.presence).toEqual({ status: 'dnd', activity: null });
+    });
+
+    it('holds updates behind the configured send limit', async () => {
+      // IDENTIFY spends the one token above the reserve
+      await login({ sendLimit: { limit: 5, interval: 60_000, reserved: 4 } });
+      client.setPresence({ status: 'idle' });
+      expect(client.shards[0].queued).toBe(1);
+    });
+  });
+
+  describe('raw', () => {
+    it('forwards every dispatch with op, t and s, modelled or not', async () => {
+      await login();
+      const seen: unknown[] = [];
+      client.on('raw', (payload, shardId) => seen.push([payload, shardId]));
+
+      await dispatch('TYPING_START', { channel_id: '200', user_id: '101' });
+      await dispatch('MESSAGE_CREATE', rawMessage, 'messageCreate');
+
+      expect(seen).toEqual([
+        [{ op: Opcodes.DISPATCH, t: 'TYPING_START', s: seq - 1, d: { channel_id: '200', user_id: '101' } }, 0],
+        [{ op: Opcodes.DISPATCH, t: 'MESSAGE_CREATE', s: seq, d: rawMessage }, 0],
+      ]);
+    });
+
+    it('narrows modelled events with isDispatch()', async () => {
+      await login();
+      const content = new Promise<string>((resolve) => {
+        client.on('raw', (payload) => {
+          if (isDispatch(payload, 'MESSAGE_CREATE')) resolve(payload.d.content);
+        });
+      });
+      await dispatch('MESSAGE_CREATE', rawMessage, 'messageCreate');
+      expect(await content).toBe('hello');
+    });
+  });
+
+  describe('sharding', () => {
+    it('emits ready once every shard is up and tags dispatches with the shard id', async () => {
+      client = new Client({ token: 'bot_test', gatewayUrl: url, shardCount: 2, maxConcurrency: 2 });
+      const sockets = new Map<number, WebSocket>();
+      wss.on('connection', (s) => {
+        s.once('message', (data) => {
+          const shardId = (decode(data as Buffer).d as { shard: [number, number] }).shard[0];
+          sockets.set(shardId, s);
+          const servers = [{ ...rawServer, id: String(shardId + 1) }];
+          s.send(encode({ op: Opcodes.READY, d: { ...readyData, servers } }));
+        });
+      });
+
+      const shardReadies: number[] = [];
+      client.on('shardReady', (shardId) => shardReadies.push(shardId));
+      const ready = new Promise<string[]>((resolve) => {
+        client.once('ready', (event) => resolve(event.servers.map((srv) => srv.id).sort()));
+      });
+      client.login();
+
+      expect(await ready).toEqual(['1', '2']);
+      expect(shardReadies.sort()).toEqual([0, 1]);
+      expect(client.shards.map((sh) => sh.id)).toEqual([0, 1]);
+
+      const created = new Promise<number>((resolve) => {
+        client.once('messageCreate', (_msg, shardId) => resolve(shardId));
+      });
+      sockets.get(1)!.send(encode({ op: Opcodes.DISPATCH, t: 'MESSAGE_CREATE', s: 1, d: rawMessage }));
+      expect(await created).toBe(1);
+
+      for (const s of sockets.values()) s.terminate();
+    });
+  });
+});
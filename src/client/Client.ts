@@ -1,12 +1,34 @@
 import { EventEmitter } from 'events';
-import { REST } from '../rest';
-import { Gateway, type GatewayOptions } from '../gateway/Gateway';
+import { REST, type RateLimitStore, type RESTRequest, type RESTResponse, type RateLimitInfo, type RetryInfo } from '../rest';
+import { ShardManager, type ShardStatus } from '../sharding';
 import { Message } from '../structures/Message';
-import { Server } from '../structures/Server';
-import { Channel } from '../structures/Channel';
-import { User } from '../structures/User';
-import type { ReadyData } from '../gateway/types';
-import type { RawMessage, RawServer, RawChannel } from '../types';
+import type { Server } from '../structures/Server';
+import type { Channel } from '../structures/Channel';
+import type { ThreadChannel } from '../structures/ThreadChannel';
+import type { User } from '../structures/User';
+import { ClientUser } from '../structures/ClientUser';
+import type { Member } from '../structures/Member';
+import type { Role } from '../structures/Role';
+import { ReactionEmoji } from '../structures/Reaction';
+import type { CacheOptions } from '../cache';
+import { ServerManager } from '../managers/ServerManager';
+import { ChannelManager } from '../managers/ChannelManager';
+import { UserManager } from '../managers/UserManager';
+import { MemberManager } from '../managers/MemberManager';
+import { RoleManager } from '../managers/RoleManager';
+import { ActivityTypes, GatewayError } from '../gateway';
+import type {
+  ReconnectPolicy,
+  SendQueueOptions,
+  GatewayDispatchPayload,
+  MessageReactionData,
+  GatewayEncoding,
+  GatewayCompression,
+  PresenceUpdateData,
+  PresenceStatus,
+  ActivityType,
+} from '../gateway';
+import { IntentsBitField, type IntentFlag, type IntentResolvable } from '../util/Intents';
 
 export interface ClientOptions {
   token: string;
@@ -14,62 +36,304 @@ export interface ClientOptions {
   gatewayUrl?: string;
   /** REST base URL — defaults to https://api.intent.chat/v1 */
   restUrl?: string;
+  /** Share REST rate limits with other processes running the same token — in-memory by default */
+  rateLimitStore?: RateLimitStore;
+  /** Send REST calls through a RESTProxy at this URL, which then owns rate limits and retries */
+  restProxy?: string;
+  /** Per-structure cache settings — all structures are cached without limit by default */
+  cache?: ClientCacheOptions;
+  /** Total shards across all processes — omit to run a single unsharded connection */
+  shardCount?: number;
+  /** Shard ids this client runs — defaults to all of them */
+  shards?: number[];
+  /** Identifies the server allows in parallel — defaults to 1 */
+  maxConcurrency?: number;
+  /** Gateway payload format: 'msgpack' (default), 'json', or a custom codec */
+  encoding?: GatewayEncoding;
+  /** Have the gateway compress what it sends as a 'zlib-stream' or 'zstd-stream' */
+  compress?: GatewayCompression;
+  /**
+   * Event groups to subscribe to. Omit to receive every event; set it to cut
+   * traffic. Listening for an event the intents exclude logs a warning.
+   */
+  intents?: IntentResolvable;
+  /** Presence shown from the moment each shard identifies */
+  presence?: PresenceData;
+  /** Per-shard outbound frame limit — defaults to the server's 120 per minute */
+  sendLimit?: SendQueueOptions;
+  /** Per-shard reconnect limits and backoff — retries forever with exponential backoff by default */
+  reconnect?: ReconnectPolicy;
+}
+
+export interface ActivityOptions {
+  name: string;
+  /** Defaults to PLAYING */
+  type?: ActivityType;
+  /** STREAMING only */
+  url?: string;
+}
+
+/** Fields left out keep their current value — pass `activity: null` to clear it */
+export interface PresenceData {
+  status?: PresenceStatus;
+  activity?: ActivityOptions | null;
+}
+
+/** Pass false for a structure type to disable caching it entirely */
+export interface ClientCacheOptions {
+  servers?: CacheOptions<Server> | false;
+  channels?: CacheOptions<Channel> | false;
+  users?: CacheOptions<User> | false;
+  members?: CacheOptions<Member> | false;
+  roles?: CacheOptions<Role> | false;
 }
 
 export type MessageDeletePayload = { id: string; channelId: string };
 
-/** Emitted when the gateway connection is established and the client is ready. */
+export type MessageDeleteBulkPayload = { ids: string[]; channelId: string };
+
+/** `server` is the last cached state, or null if it wasn't cached */
+export type ServerDeletePayload = { id: string; server: Server | null };
+
+/** `member` is the last cached membership, or null if it wasn't cached */
+export type MemberLeavePayload = { serverId: string; user: User; member: Member | null };
+
+/**
+ * Reaction events carry ids rather than structures — the message is rarely
+ * cached. `user` is null when the reactor isn't cached; `member` is only
+ * sent on adds inside a server.
+ */
+export type MessageReactionPayload = {
+  messageId: string;
+  channelId: string;
+  serverId: string | null;
+  userId: string;
+  user: User | null;
+  member: Member | null;
+  emoji: ReactionEmoji;
+};
+
+/**
+ * Emitted once every shard this client runs has connected. With several
+ * shards, `servers` is the union of what each shard's READY carried.
+ */
 export interface ReadyEvent {
-  user: User;
+  user: ClientUser;
   servers: Server[];
 }
 
+/** Gateway-sourced events carry the id of the shard they arrived on as the last argument */
 export interface ClientEvents {
   ready: [event: ReadyEvent];
-  messageCreate: [msg: Message];
-  messageUpdate: [msg: Message];
-  messageDelete: [payload: MessageDeletePayload];
-  serverCreate: [server: Server];
-  channelCreate: [channel: Channel];
-  disconnect: [code: number];
+  /** A single shard received READY — fires on every identify, including re-identifies */
+  shardReady: [shardId: number, event: ReadyEvent];
+  messageCreate: [msg: Message, shardId: number];
+  messageUpdate: [msg: Message, shardId: number];
+  messageDelete: [payload: MessageDeletePayload, shardId: number];
+  messageDeleteBulk: [payload: MessageDeleteBulkPayload, shardId: number];
+  messageReactionAdd: [payload: MessageReactionPayload, shardId: number];
+  messageReactionRemove: [payload: MessageReactionPayload, shardId: number];
+  serverCreate: [server: Server, shardId: number];
+  /** `oldServer` is null when the previous state wasn't cached */
+  serverUpdate: [oldServer: Server | null, newServer: Server, shardId: number];
+  /** The bot left or the server was deleted — outages fire serverUnavailable instead */
+  serverDelete: [payload: ServerDeletePayload, shardId: number];
+  /** A cached server went into an outage. Its channels stay cached. */
+  serverUnavailable: [server: Server, shardId: number];
+  /** A server came back from an outage */
+  serverAvailable: [server: Server, shardId: number];
+  channelCreate: [channel: Channel, shardId: number];
+  /** `oldChannel` is null when the previous state wasn't cached */
+  channelUpdate: [oldChannel: Channel | null, newChannel: Channel, shardId: number];
+  channelDelete: [channel: Channel, shardId: number];
+  /** Also fires when the bot is added to an existing private thread */
+  threadCreate: [thread: ThreadChannel, shardId: number];
+  /** `oldThread` is null when the previous state wasn't cached — archiving and locking arrive here */
+  threadUpdate: [oldThread: ThreadChannel | null, newThread: ThreadChannel, shardId: number];
+  threadDelete: [thread: ThreadChannel, shardId: number];
+  memberJoin: [member: Member, shardId: number];
+  /** `oldMember` is null when the previous state wasn't cached */
+  memberUpdate: [oldMember: Member | null, newMember: Member, shardId: number];
+  /** Left, kicked or banned */
+  memberLeave: [payload: MemberLeavePayload, shardId: number];
+  /** Session resumed after a drop — `replayed` is how many missed dispatches the server re-sent */
+  resumed: [replayed: number, shardId: number];
+  /** Server rejected the session — when not resumable, the client re-identifies from scratch */
+  invalidated: [resumable: boolean, shardId: number];
+  disconnect: [code: number, shardId: number];
+  /** A shard will reconnect after `delay` ms — `attempt` counts from 1 since it was last connected */
+  reconnecting: [attempt: number, delay: number, shardId: number];
+  /** REST is about to send a request — see REST's `request` event */
+  restRequest: [request: RESTRequest];
+  restResponse: [response: RESTResponse];
+  /** A REST request is waiting on a rate limit, or hit one */
+  rateLimited: [info: RateLimitInfo];
+  restRetry: [info: RetryInfo];
+  /**
+   * Every dispatch exactly as received, before the client handles it — including
+   * events the SDK doesn't model yet. Narrow with isDispatch().
+   */
+  raw: [payload: GatewayDispatchPayload, shardId: number];
   error: [err: Error];
 }
 
+/** Events that only arrive with at least one of these intents */
+const EVENT_INTENTS: Partial<Record<keyof ClientEvents, readonly IntentFlag[]>> = {
+  messageCreate:     ['SERVER_MESSAGES', 'DIRECT_MESSAGES'],
+  messageUpdate:     ['SERVER_MESSAGES', 'DIRECT_MESSAGES'],
+  messageDelete:     ['SERVER_MESSAGES', 'DIRECT_MESSAGES'],
+  messageDeleteBulk: ['SERVER_MESSAGES'],
+  messageReactionAdd:    ['SERVER_MESSAGE_REACTIONS', 'DIRECT_MESSAGE_REACTIONS'],
+  messageReactionRemove: ['SERVER_MESSAGE_REACTIONS', 'DIRECT_MESSAGE_REACTIONS'],
+  serverCreate:      ['SERVERS'],
+  serverUpdate:      ['SERVERS'],
+  serverDelete:      ['SERVERS'],
+  serverUnavailable: ['SERVERS'],
+  serverAvailable:   ['SERVERS'],
+  channelCreate:     ['SERVERS'],
+  channelUpdate:     ['SERVERS'],
+  channelDelete:     ['SERVERS'],
+  threadCreate:      ['SERVERS'],
+  threadUpdate:      ['SERVERS'],
+  threadDelete:      ['SERVERS'],
+  memberJoin:        ['SERVER_MEMBERS'],
+  memberUpdate:      ['SERVER_MEMBERS'],
+  memberLeave:       ['SERVER_MEMBERS'],
+};
+
+function mergePresence(current: PresenceUpdateData, data: PresenceData): PresenceUpdateData {
+  const activity = data.activity === undefined
+    ? current.activity
+    : data.activity && { name: data.activity.name, type: data.activity.type ?? ActivityTypes.PLAYING, url: data.activity.url ?? null };
+  return { status: data.status ?? current.status, activity };
+}
+
 /**
  * The main entry point for bot code.
  *
- * Owns REST and Gateway internally — bot devs never touch either directly.
- * Dispatch events arrive from Gateway as raw wire payloads, get wrapped in
+ * Owns REST and the shard connections internally — bot devs never touch
+ * either directly. Dispatch events arrive from ShardManager as raw wire
+ * payloads tagged with their shard id, get wrapped in
  * structure classes, then re-emitted as camelCase events with typed payloads.
+ * Servers, channels and users seen on the gateway are kept in per-type
+ * managers, which double as caches — `client.channels.get(msg.channelId)` is
+ * synchronous, `client.channels.fetch(id)` falls back to REST on a miss.
  *
  * @example
  * const client = new Client({ token: 'bot_xxx' })
  * client.on('messageCreate', (msg) => msg.reply('pong'))
- * client.login()
+ * await client.login()
  */
 export class Client extends EventEmitter {
   readonly #rest: REST;
-  readonly #gateway: Gateway;
+  readonly #shards: ShardManager;
+  #user: ClientUser | null = null;
+  #presence: PresenceUpdateData;
+  // the promise login() handed out, until it settles
+  #login: { promise: Promise<ReadyEvent>; resolve: (event: ReadyEvent) => void; reject: (err: GatewayError) => void } | null = null;
+
+  // shards that have sent READY since login(), and the servers they carried
+  readonly #readyShards = new Set<number>();
+  #readyServers: Server[] = [];
+
+  readonly servers: ServerManager;
+  readonly channels: ChannelManager;
+  readonly users: UserManager;
+  readonly members: MemberManager;
+  readonly roles: RoleManager;
+  /** The intents this client identifies with — null when it subscribes to everything */
+  readonly intents: IntentsBitField | null;
 
   constructor(options: ClientOptions) {
     super();
-    this.#rest = new REST({ token: options.token, baseURL: options.restUrl });
+    this.#rest = new REST({
+      token: options.token,
+      baseURL: options.restUrl,
+      proxy: options.restProxy,
+      rateLimitStore: options.rateLimitStore,
+    });
+
+    this.servers  = new ServerManager(this, options.cache?.servers);
+    this.channels = new ChannelManager(this, options.cache?.channels);
+    this.users    = new UserManager(this, options.cache?.users);
+    this.members  = new MemberManager(this, options.cache?.members);
+    this.roles    = new RoleManager(this, options.cache?.roles);
+    this.intents  = options.intents === undefined ? null : new IntentsBitField(options.intents);
+    this.#presence = mergePresence({ status: 'online', activity: null }, options.presence ?? {});
 
-    const gwOptions: GatewayOptions = { token: options.token };
-    if (options.gatewayUrl) gwOptions.url = options.gatewayUrl;
-    this.#gateway = new Gateway(gwOptions);
+    this.#shards = new ShardManager({
+      token: options.token,
+      url: options.gatewayUrl,
+      shardCount: options.shardCount,
+      shardIds: options.shards,
+      maxConcurrency: options.maxConcurrency,
+      encoding: options.encoding,
+      compress: options.compress,
+      intents: this.intents?.toNumber(),
+      presence: options.presence && this.#presence,
+      sendLimit: options.sendLimit,
+      reconnect: options.reconnect,
+    });
 
     this.#wire();
+    this.#forwardRestEvents();
+    if (this.intents) this.#warnOnExcludedEvents(this.intents);
   }
 
-  /** Connect to the gateway and begin receiving events. */
-  login(): void {
-    this.#gateway.connect();
+  /**
+   * Connect to the gateway and begin receiving events. Resolves with the same
+   * event as `ready` once every shard is up. Rejects with a GatewayError when a
+   * shard closes with a fatal code such as AUTHENTICATION_FAILED, or runs out
+   * of reconnect attempts first — every shard is disconnected in that case.
+   * Calling it again while pending returns the same promise.
+   */
+  login(): Promise<ReadyEvent> {
+    if (this.#login) return this.#login.promise;
+
+    let resolve!: (event: ReadyEvent) => void;
+    let reject!: (err: GatewayError) => void;
+    const promise = new Promise<ReadyEvent>((res, rej) => { resolve = res; reject = rej; });
+    this.#login = { promise, resolve, reject };
+
+    for (const cache of this.#caches()) cache.startSweeping();
+    this.#readyShards.clear();
+    this.#readyServers = [];
+    this.#shards.connect();
+    return promise;
   }
 
-  /** Disconnect from the gateway cleanly. */
+  /** Disconnect from the gateway cleanly. A pending login() rejects with a GatewayError. */
   destroy(): void {
-    this.#gateway.disconnect();
+    const login = this.#login;
+    this.#login = null;
+    this.#shards.disconnect();
+    for (const cache of this.#caches()) cache.stopSweeping();
+    if (login) {
+      const pending = this.#shards.shardIds.find((id) => !this.#readyShards.has(id)) ?? 0;
+      login.reject(new GatewayError(1000, 'Client was destroyed before every shard was ready', pending));
+    }
+  }
+
+  /** The bot's own user — null until the first READY */
+  get user(): ClientUser | null {
+    return this.#user;
+  }
+
+  /** The presence every shard shows, or will show once connected */
+  get presence(): PresenceUpdateData {
+    return this.#presence;
+  }
+
+  /**
+   * Change the bot's status and activity on every shard. Can be called before
+   * login(), and survives reconnects — a fresh session identifies with it.
+   *
+   * @example
+   * client.setPresence({ status: 'dnd', activity: { name: 'Maintenance', type: ActivityTypes.CUSTOM } })
+   */
+  setPresence(presence: PresenceData): void {
+    this.#presence = mergePresence(this.#presence, presence);
+    this.#shards.setPresence(this.#presence);
   }
 
   /**
@@ -81,6 +345,16 @@ export class Client extends EventEmitter {
     return this.#rest;
   }
 
+  /** Connection state and heartbeat latency of every shard this client runs */
+  get shards(): ShardStatus[] {
+    return this.#shards.statuses;
+  }
+
+  /** Average heartbeat latency across shards, in ms */
+  get ping(): number | null {
+    return this.#shards.ping;
+  }
+
   // ---- typed event overloads ----
 
   on<K extends keyof ClientEvents>(event: K, listener: (...args: ClientEvents[K]) => void): this;
@@ -95,61 +369,318 @@ export class Client extends EventEmitter {
     return super.emit(event, ...args);
   }
 
+  // ---- intents ----
+
+  // Covers on, once, addListener and prepend* — they all fire newListener
+  #warnOnExcludedEvents(intents: IntentsBitField): void {
+    const warned = new Set<string>();
+    super.on('newListener', (event: string | symbol) => {
+      const needed = EVENT_INTENTS[event as keyof ClientEvents];
+      if (!needed || intents.any(needed) || warned.has(event as string)) return;
+      warned.add(event as string);
+      console.warn(
+        `[intent.js] Listening for "${String(event)}", but the client's intents will never deliver it — add ${needed.join(' or ')}`,
+      );
+    });
+  }
+
+  // ---- cache ----
+
+  #caches(): { startSweeping(): void; stopSweeping(): void }[] {
+    return [this.servers, this.channels, this.users, this.members, this.roles];
+  }
+
+  #uncacheServer(id: string): void {
+    this.servers.delete(id);
+    for (const [channelId, channel] of this.channels) {
+      if (channel.serverId === id) this.channels.delete(channelId);
+    }
+    this.members._removeServer(id);
+    this.roles._removeServer(id);
+  }
+
+  /** Keep a cached server's member_count in step with joins and leaves */
+  #adjustMemberCount(serverId: string, delta: number): void {
+    const server = this.servers.get(serverId);
+    if (!server) return;
+    this.servers._patch(server, { member_count: Math.max(0, server.toJSON().member_count + delta) });
+  }
+
+  /** Caches the reactor's membership when the dispatch carries it */
+  #reactionPayload(raw: MessageReactionData): MessageReactionPayload {
+    const member = raw.member ? this.members._add(raw.member) : null;
+    if (member) this.users.set(member.id, member.user);
+    return {
+      messageId: raw.message_id,
+      channelId: raw.channel_id,
+      serverId:  raw.server_id ?? null,
+      userId:    raw.user_id,
+      user:      member?.user ?? this.users.get(raw.user_id) ?? null,
+      member,
+      emoji:     new ReactionEmoji(raw.emoji),
+    };
+  }
+
+  #forwardRestEvents(): void {
+    this.#rest.on('request', (request) => this.emit('restRequest', request));
+    this.#rest.on('response', (response) => this.emit('restResponse', response));
+    this.#rest.on('rateLimited', (info) => this.emit('rateLimited', info));
+    this.#rest.on('retry', (info) => this.emit('restRetry', info));
+  }
+
   // ---- gateway event wiring ----
 
   #wire(): void {
-    this.#gateway.on('READY', (data: ReadyData) => {
+    this.#shards.on('READY', (data, shardId) => {
       try {
-        this.emit('ready', {
-          user: new User(data.user, this),
-          servers: data.servers.map((s) => new Server(s, this)),
-        } satisfies ReadyEvent);
+        this.#user = new ClientUser(data.user, this);
+        this.users.set(this.#user.id, this.#user);
+        const event: ReadyEvent = {
+          user: this.#user,
+          servers: data.servers.map((s) => this.servers._add(s)),
+        };
+        this.emit('shardReady', shardId, event);
+
+        if (this.#readyShards.size === this.#shards.shardIds.length) return;
+        this.#readyShards.add(shardId);
+        this.#readyServers.push(...event.servers);
+        if (this.#readyShards.size === this.#shards.shardIds.length) {
+          const ready: ReadyEvent = { user: this.#user, servers: this.#readyServers };
+          this.#login?.resolve(ready);
+          this.#login = null;
+          this.emit('ready', ready);
+        }
       } catch (err) {
         this.emit('error', err instanceof Error ? err : new Error(String(err)));
       }
     });
 
-    this.#gateway.on('MESSAGE_CREATE', (raw: RawMessage) => {
+    this.#shards.on('dispatch', (payload, shardId) => {
+      this.emit('raw', payload, shardId);
+    });
+
+    this.#shards.on('MESSAGE_CREATE', (raw, shardId) => {
       try {
-        this.emit('messageCreate', new Message(raw, this));
+        const msg = new Message(raw, this);
+        this.users.set(msg.author.id, msg.author);
+        if (raw.member) this.members._add(raw.member);
+        this.emit('messageCreate', msg, shardId);
       } catch (err) {
         this.emit('error', err instanceof Error ? err : new Error(String(err)));
       }
     });
 
-    this.#gateway.on('MESSAGE_UPDATE', (raw: RawMessage) => {
+    this.#shards.on('MESSAGE_UPDATE', (raw, shardId) => {
       try {
-        this.emit('messageUpdate', new Message(raw, this));
+        const msg = new Message(raw, this);
+        this.users.set(msg.author.id, msg.author);
+        if (raw.member) this.members._add(raw.member);
+        this.emit('messageUpdate', msg, shardId);
       } catch (err) {
         this.emit('error', err instanceof Error ? err : new Error(String(err)));
       }
     });
 
-    this.#gateway.on('MESSAGE_DELETE', (raw: { id: string; channel_id: string }) => {
-      this.emit('messageDelete', { id: raw.id, channelId: raw.channel_id });
+    this.#shards.on('MESSAGE_DELETE', (raw, shardId) => {
+      this.emit('messageDelete', { id: raw.id, channelId: raw.channel_id }, shardId);
     });
 
-    this.#gateway.on('SERVER_CREATE', (raw: RawServer) => {
+    this.#shards.on('MESSAGE_DELETE_BULK', (raw, shardId) => {
+      this.emit('messageDeleteBulk', { ids: raw.ids, channelId: raw.channel_id }, shardId);
+    });
+
+    this.#shards.on('MESSAGE_REACTION_ADD', (raw, shardId) => {
+      try {
+        this.emit('messageReactionAdd', this.#reactionPayload(raw), shardId);
+      } catch (err) {
+        this.emit('error', err instanceof Error ? err : new Error(String(err)));
+      }
+    });
+
+    this.#shards.on('MESSAGE_REACTION_REMOVE', (raw, shardId) => {
       try {
-        this.emit('serverCreate', new Server(raw, this));
+        this.emit('messageReactionRemove', this.#reactionPayload(raw), shardId);
       } catch (err) {
         this.emit('error', err instanceof Error ? err : new Error(String(err)));
       }
     });
 
-    this.#gateway.on('CHANNEL_CREATE', (raw: RawChannel) => {
+    this.#shards.on('SERVER_CREATE', (raw, shardId) => {
       try {
-        this.emit('channelCreate', new Channel(raw, this));
+        const wasUnavailable = this.servers.get(raw.id)?.unavailable ?? false;
+        const server = this.servers._add(raw);
+        this.emit(wasUnavailable ? 'serverAvailable' : 'serverCreate', server, shardId);
       } catch (err) {
         this.emit('error', err instanceof Error ? err : new Error(String(err)));
       }
     });
 
-    this.#gateway.on('disconnect', (code: number) => {
-      this.emit('disconnect', code);
+    this.#shards.on('SERVER_UPDATE', (raw, shardId) => {
+      try {
+        const old = this.servers.get(raw.id) ?? null;
+        this.emit('serverUpdate', old, this.servers._add(raw), shardId);
+      } catch (err) {
+        this.emit('error', err instanceof Error ? err : new Error(String(err)));
+      }
+    });
+
+    this.#shards.on('SERVER_DELETE', (raw, shardId) => {
+      try {
+        const cached = this.servers.get(raw.id) ?? null;
+        if (raw.unavailable) {
+          // An outage, not a removal — keep the server and its channels, flagged
+          if (!cached) return;
+          this.emit('serverUnavailable', this.servers._patch(cached, { unavailable: true }), shardId);
+          return;
+        }
+        this.#uncacheServer(raw.id);
+        this.emit('serverDelete', { id: raw.id, server: cached }, shardId);
+      } catch (err) {
+        this.emit('error', err instanceof Error ? err : new Error(String(err)));
+      }
+    });
+
+    this.#shards.on('CHANNEL_CREATE', (raw, shardId) => {
+      try {
+        this.emit('channelCreate', this.channels._add(raw), shardId);
+      } catch (err) {
+        this.emit('error', err instanceof Error ? err : new Error(String(err)));
+      }
+    });
+
+    this.#shards.on('CHANNEL_UPDATE', (raw, shardId) => {
+      try {
+        const old = this.channels.get(raw.id) ?? null;
+        this.emit('channelUpdate', old, this.channels._add(raw), shardId);
+      } catch (err) {
+        this.emit('error', err instanceof Error ? err : new Error(String(err)));
+      }
+    });
+
+    this.#shards.on('CHANNEL_DELETE', (raw, shardId) => {
+      try {
+        const channel = this.channels.get(raw.id) ?? ChannelManager.construct(raw, this);
+        this.channels.delete(raw.id);
+        this.emit('channelDelete', channel, shardId);
+      } catch (err) {
+        this.emit('error', err instanceof Error ? err : new Error(String(err)));
+      }
+    });
+
+    // Thread events whose payload isn't a thread type still update the cache, but aren't announced as threads
+    this.#shards.on('THREAD_CREATE', (raw, shardId) => {
+      try {
+        const thread = this.channels._add(raw);
+        if (thread.isThread()) this.emit('threadCreate', thread, shardId);
+      } catch (err) {
+        this.emit('error', err instanceof Error ? err : new Error(String(err)));
+      }
+    });
+
+    this.#shards.on('THREAD_UPDATE', (raw, shardId) => {
+      try {
+        const old = this.channels.get(raw.id);
+        const thread = this.channels._add(raw);
+        if (thread.isThread()) this.emit('threadUpdate', old?.isThread() ? old : null, thread, shardId);
+      } catch (err) {
+        this.emit('error', err instanceof Error ? err : new Error(String(err)));
+      }
+    });
+
+    this.#shards.on('THREAD_DELETE', (raw, shardId) => {
+      try {
+        const thread = this.channels.get(raw.id) ?? ChannelManager.construct(raw, this);
+        this.channels.delete(raw.id);
+        if (thread.isThread()) this.emit('threadDelete', thread, shardId);
+      } catch (err) {
+        this.emit('error', err instanceof Error ? err : new Error(String(err)));
+      }
+    });
+
+    this.#shards.on('SERVER_MEMBER_ADD', (raw, shardId) => {
+      try {
+        const member = this.members._add(raw);
+        this.users.set(member.id, member.user);
+        this.#adjustMemberCount(raw.server_id, 1);
+        this.emit('memberJoin', member, shardId);
+      } catch (err) {
+        this.emit('error', err instanceof Error ? err : new Error(String(err)));
+      }
+    });
+
+    this.#shards.on('SERVER_MEMBER_UPDATE', (raw, shardId) => {
+      try {
+        const old = this.members.get(MemberManager.key(raw.server_id, raw.user.id)) ?? null;
+        const member = this.members._add(raw);
+        this.users.set(member.id, member.user);
+        this.emit('memberUpdate', old, member, shardId);
+      } catch (err) {
+        this.emit('error', err instanceof Error ? err : new Error(String(err)));
+      }
+    });
+
+    this.#shards.on('SERVER_MEMBER_REMOVE', (raw, shardId) => {
+      try {
+        const key = MemberManager.key(raw.server_id, raw.user.id);
+        const member = this.members.get(key) ?? null;
+        this.members.delete(key);
+        this.#adjustMemberCount(raw.server_id, -1);
+        this.emit('memberLeave', { serverId: raw.server_id, user: this.users._add(raw.user), member }, shardId);
+      } catch (err) {
+        this.emit('error', err instanceof Error ? err : new Error(String(err)));
+      }
+    });
+
+    // Role dispatches have no public events yet — keep the cache in step
+    this.#shards.on('SERVER_ROLE_CREATE', (raw) => {
+      try {
+        this.roles._add(raw);
+      } catch (err) {
+        this.emit('error', err instanceof Error ? err : new Error(String(err)));
+      }
+    });
+
+    this.#shards.on('SERVER_ROLE_UPDATE', (raw) => {
+      try {
+        this.roles._add(raw);
+      } catch (err) {
+        this.emit('error', err instanceof Error ? err : new Error(String(err)));
+      }
+    });
+
+    this.#shards.on('SERVER_ROLE_DELETE', (raw) => {
+      this.roles.delete(raw.role_id);
+    });
+
+    this.#shards.on('resumed', (replayed, shardId) => {
+      this.emit('resumed', replayed, shardId);
+    });
+
+    this.#shards.on('invalidated', (resumable, shardId) => {
+      this.emit('invalidated', resumable, shardId);
+    });
+
+    this.#shards.on('reconnecting', (attempt, delay, shardId) => {
+      this.emit('reconnecting', attempt, delay, shardId);
+    });
+
+    this.#shards.on('fatal', (err) => {
+      const login = this.#login;
+      if (!login) {
+        this.emit('error', err);
+        return;
+      }
+      // A token the server rejects on one shard is rejected on all of them
+      this.#login = null;
+      this.destroy();
+      login.reject(err);
+    });
+
+    this.#shards.on('disconnect', (code, shardId) => {
+      this.emit('disconnect', code, shardId);
     });
 
-    this.#gateway.on('error', (err: Error) => {
+    this.#shards.on('error', (err) => {
       this.emit('error', err);
     });
   }
@@ -1,9 +1,20 @@
 import type { REST } from '../rest';
+import type { ServerManager } from '../managers/ServerManager';
+import type { ChannelManager } from '../managers/ChannelManager';
+import type { UserManager } from '../managers/UserManager';
+import type { MemberManager } from '../managers/MemberManager';
+import type { RoleManager } from '../managers/RoleManager';
 
 /**
  * Minimal interface passed to structures so they can make REST calls
- * without importing the full Client class (avoids circular imports).
+ * and resolve related structures through the client's managers without
+ * importing the full Client class (avoids circular imports).
  */
 export interface ClientRef {
   readonly rest: REST;
+  readonly servers: ServerManager;
+  readonly channels: ChannelManager;
+  readonly users: UserManager;
+  readonly members: MemberManager;
+  readonly roles: RoleManager;
 }
@@ -0,0 +1,78 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { WebhookClient } from './WebhookClient';
+import { REST } from '../rest';
+import type { RawMessage } from '../types';
+
+const rawMessage: RawMessage = {
+  id: '300',
+  channel_id: '200',
+  author: { id: '700', username: 'Deploys', display_name: 'Deploys', created_at: '2025-01-01T00:00:00Z' },
+  content: 'shipped',
+  created_at: '2025-01-01T00:00:00Z',
+};
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'content-type': 'application/json' },
+  });
+}
+
+describe('WebhookClient', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    fetchMock = vi.fn(async () => json(rawMessage));
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  function lastCall(): { url: string; method: string; headers: Record<string, string>; body: unknown } {
+    const [url, init] = fetchMock.mock.calls.at(-1) as [string, RequestInit & { headers: Record<string, string> }];
+    return { url, method: init.method!, headers: init.headers, body: init.body ? JSON.parse(init.body as string) : undefined };
+  }
+
+  it('parses id, token and base URL from a webhook URL', () => {
+    const hook = new WebhookClient({ url: 'http://api.test/v1/webhooks/700/s3cr3t-tok' });
+    expect(hook).toMatchObject({ id: '700', token: 's3cr3t-tok' });
+    expect(() => new WebhookClient({ url: 'http://api.test/channels/200' })).toThrow('Invalid webhook URL');
+  });
+
+  it('sends without a bot token, overriding name and avatar', async () => {
+    const hook = new WebhookClient({ url: 'http://api.test/v1/webhooks/700/s3cr3t-tok' });
+    const sent = await hook.send({ content: 'shipped', username: 'CI', avatarUrl: 'https://cdn.test/ci.png' });
+
+    const call = lastCall();
+    expect(call).toMatchObject({ method: 'POST', url: 'http://api.test/v1/webhooks/700/s3cr3t-tok?wait=true' });
+    expect(call.headers.Authorization).toBeUndefined();
+    expect(call.body).toEqual({ content: 'shipped', username: 'CI', avatar_url: 'https://cdn.test/ci.png' });
+    expect(sent.id).toBe('300');
+  });
+
+  it('edits and deletes its own messages', async () => {
+    const hook = new WebhookClient({ id: '700', token: 'tok' }, { restUrl: 'http://api.test' });
+    await hook.editMessage('300', 'rolled back');
+    expect(lastCall()).toMatchObject({
+      method: 'PATCH',
+      url: 'http://api.test/webhooks/700/tok/messages/300',
+      body: { content: 'rolled back' },
+    });
+
+    fetchMock.mockResolvedValueOnce(new Response(null, { status: 204 }));
+    await hook.deleteMessage('300');
+    expect(lastCall()).toMatchObject({ method: 'DELETE', url: 'http://api.test/webhooks/700/tok/messages/300' });
+  });
+
+  it('can share a bot REST instance without sending its token', async () => {
+    const rest = new REST({ token: 'bot_test', baseURL: 'http://api.test' });
+    await new WebhookClient({ id: '700', token: 'tok' }, { rest }).send('hi');
+    expect(lastCall().headers.Authorization).toBeUndefined();
+
+    await rest.listChannelWebhooks('200');
+    expect(lastCall()).toMatchObject({ method: 'GET', url: 'http://api.test/channels/200/webhooks' });
+    expect(lastCall().headers.Authorization).toBe('Bearer bot_test');
+  });
+});
@@ -0,0 +1,70 @@
+import { REST, type ExecuteWebhookData } from '../rest';
+import type { RawMessage } from '../types';
+import { resolveMessageOptions, type MessageOptions, type WebhookMessageOptions } from '../builders/MessagePayload';
+
+/** Either half of a webhook's identity, or the URL that carries both */
+export type WebhookClientData = { id: string; token: string } | { url: string };
+
+export interface WebhookClientOptions {
+  /** REST base URL — defaults to the one in the webhook URL, else https://api.intent.chat/v1 */
+  restUrl?: string;
+  /**
+   * Send through an existing REST instance, e.g. `client.rest`, so webhook
+   * posts share its rate-limit buckets. Takes precedence over restUrl.
+   */
+  rest?: REST;
+}
+
+const WEBHOOK_URL = /^(.*)\/webhooks\/(\d+)\/([^/?#]+)\/?$/;
+
+/**
+ * Posts through a webhook with nothing but its id and token — no bot token,
+ * no gateway connection. Meant for CI jobs, cron scripts and alerting.
+ *
+ * Messages come back as raw API data: without a bot behind it there is no
+ * cache or client for structures to resolve against.
+ *
+ * @example
+ * const hook = new WebhookClient({ url: process.env.DEPLOY_WEBHOOK_URL })
+ * await hook.send({ content: `Deployed ${sha}`, username: 'CI' })
+ */
+export class WebhookClient {
+  readonly id: string;
+  readonly token: string;
+  readonly rest: REST;
+
+  constructor(data: WebhookClientData, options: WebhookClientOptions = {}) {
+    let restUrl = options.restUrl;
+    if ('url' in data) {
+      const match = WEBHOOK_URL.exec(data.url);
+      if (!match) throw new Error(`Invalid webhook URL: ${data.url}`);
+      restUrl ??= match[1];
+      this.id    = match[2];
+      this.token = decodeURIComponent(match[3]);
+    } else {
+      this.id    = data.id;
+      this.token = data.token;
+    }
+    this.rest = options.rest ?? new REST({ baseURL: restUrl });
+  }
+
+  /** Post a message — `username` and `avatarUrl` override the webhook's defaults for this message only */
+  send(content: string | WebhookMessageOptions): Promise<RawMessage> {
+    const data: ExecuteWebhookData = resolveMessageOptions(content);
+    if (typeof content !== 'string') {
+      if (content.username !== undefined) data.username = content.username;
+      if (content.avatarUrl !== undefined) data.avatar_url = content.avatarUrl;
+    }
+    return this.rest.executeWebhook(this.id, this.token, data);
+  }
+
+  /** Edit a message this webhook posted */
+  editMessage(messageId: string, content: string | MessageOptions): Promise<RawMessage> {
+    return this.rest.updateWebhookMessage(this.id, this.token, messageId, resolveMessageOptions(content));
+  }
+
+  /** Delete a message this webhook posted */
+  deleteMessage(messageId: string): Promise<void> {
+    return this.rest.deleteWebhookMessage(this.id, this.token, messageId);
+  }
+}
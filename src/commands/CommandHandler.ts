@@ -0,0 +1,210 @@
+import type { Client } from '../client/Client';
+import type { Message } from '../structures/Message';
+import { formatUsage, parseArgs, type ArgDefinition, type ParsedArgs } from './arguments';
+import { ArgumentError, CommandError } from './errors';
+
+/** A command whatever its argument types — what `commands` and get() hand back */
+export interface CommandInfo {
+  name: string;
+  aliases?: string[];
+  /** Shown in help output */
+  description?: string;
+  args?: readonly ArgDefinition[];
+  /**
+   * Checked before arguments are parsed. Return false to refuse the command;
+   * return a string to refuse with that text as the reply.
+   */
+  guard?: (msg: Message) => boolean | string | Promise<boolean | string>;
+  /** Per-user cooldown in ms */
+  cooldown?: number;
+}
+
+export interface CommandDefinition<A extends readonly ArgDefinition[] = readonly ArgDefinition[]> extends CommandInfo {
+  args?: A;
+  run: (msg: Message, args: ParsedArgs<A>) => unknown;
+}
+
+interface RegisteredCommand {
+  readonly info: CommandInfo;
+  /** Parse the text after the command name, resolving with a call that runs the command on the result */
+  prepare(msg: Message, input: string): Promise<() => unknown>;
+}
+
+export interface CommandHandlerOptions {
+  prefix: string;
+  /** Register a built-in `help` command — defaults to true */
+  help?: boolean;
+}
+
+/** How often expired cooldowns are swept out, at most */
+const SWEEP_INTERVAL_MS = 60_000;
+
+/** Reply sent when a guard returns false */
+const DENIED_REPLY = "You don't have permission to use this command.";
+
+/**
+ * Prefix command router on top of `messageCreate`.
+ *
+ * Parses the command name and typed arguments, enforces guards and cooldowns,
+ * and replies with usage on bad input. Failures inside a command are wrapped
+ * in CommandError and emitted on the client's `error` event — a throwing
+ * command never takes down the listener.
+ *
+ * @example
+ * const commands = new CommandHandler(client, { prefix: '!' })
+ * commands.register({
+ *   name: 'kick',
+ *   args: [{ name: 'target', type: 'user' }, { name: 'reason', type: 'rest', optional: true }],
+ *   run: (msg, { target, reason }) => msg.reply(`Kicking ${target.username}: ${reason ?? 'no reason'}`),
+ * })
+ */
+export class CommandHandler {
+  readonly prefix: string;
+
+  readonly #client: Client;
+  readonly #commands = new Map<string, RegisteredCommand>();
+  readonly #aliases = new Map<string, string>();
+  // `${command}:${userId}` → timestamp the cooldown ends
+  readonly #cooldowns = new Map<string, number>();
+  // When #startCooldown next drops expired entries, so users who never come back don't pile up
+  #nextSweep = 0;
+
+  constructor(client: Client, options: CommandHandlerOptions) {
+    this.#client = client;
+    this.prefix  = options.prefix;
+
+    if (options.help ?? true) {
+      this.register({
+        name: 'help',
+        description: 'List commands, or show usage for one',
+        args: [{ name: 'command', type: 'string', optional: true }] as const,
+        run: (msg, { command }) => msg.reply(this.help(command)),
+      });
+    }
+
+    if (client.intents && !client.intents.has('MESSAGE_CONTENT')) {
+      console.warn('[intent.js] CommandHandler needs the MESSAGE_CONTENT intent — without it, message content arrives empty');
+    }
+
+    client.on('messageCreate', (msg) => {
+      void this.handle(msg);
+    });
+  }
+
+  /** All registered commands, without alias duplicates */
+  get commands(): CommandInfo[] {
+    return [...this.#commands.values()].map((cmd) => cmd.info);
+  }
+
+  register<const A extends readonly ArgDefinition[]>(command: CommandDefinition<A>): this {
+    const restIndex = command.args?.findIndex((a) => a.type === 'rest') ?? -1;
+    if (restIndex !== -1 && restIndex !== command.args!.length - 1) {
+      throw new Error(`Command "${command.name}": a rest argument must come last`);
+    }
+    for (const name of [command.name, ...(command.aliases ?? [])]) {
+      const key = name.toLowerCase();
+      if (this.#commands.has(key) || this.#aliases.has(key)) {
+        throw new Error(`Command name "${name}" is already registered`);
+      }
+    }
+
+    this.#commands.set(command.name.toLowerCase(), {
+      info: command,
+      prepare: async (msg, input) => {
+        const args = await parseArgs(command.args ?? [], input, this.#client);
+        return () => command.run(msg, args);
+      },
+    });
+    for (const alias of command.aliases ?? []) this.#aliases.set(alias.toLowerCase(), command.name.toLowerCase());
+    return this;
+  }
+
+  /** Look a command up by name or alias */
+  get(name: string): CommandInfo | undefined {
+    return this.#lookup(name)?.info;
+  }
+
+  #lookup(name: string): RegisteredCommand | undefined {
+    const key = name.toLowerCase();
+    return this.#commands.get(key) ?? this.#commands.get(this.#aliases.get(key) ?? '');
+  }
+
+  /** Help text for every command, or usage detail for one */
+  help(name?: string): string {
+    if (name) {
+      const cmd = this.get(name);
+      if (!cmd) return `Unknown command: ${name}`;
+      const lines = [`${this.prefix}${cmd.name} ${formatUsage(cmd.args ?? [])}`.trimEnd()];
+      if (cmd.description) lines.push(cmd.description);
+      if (cmd.aliases?.length) lines.push(`Aliases: ${cmd.aliases.join(', ')}`);
+      return lines.join('\n');
+    }
+    return this.commands
+      .map((cmd) => `${this.prefix}${cmd.name}${cmd.description ? ` — ${cmd.description}` : ''}`)
+      .join('\n');
+  }
+
+  /** Route one message. Called for every messageCreate; exposed for tests and custom wiring. */
+  async handle(msg: Message): Promise<void> {
+    if (!msg.content.startsWith(this.prefix)) return;
+    if (msg.author.id === this.#client.user?.id) return;
+
+    const body  = msg.content.slice(this.prefix.length);
+    const match = /^(\S+)\s*/.exec(body);
+    if (!match) return;
+    const registered = this.#lookup(match[1]);
+    if (!registered) return;
+    const cmd = registered.info;
+
+    try {
+      if (cmd.guard) {
+        const allowed = await cmd.guard(msg);
+        if (allowed !== true) {
+          await msg.reply(typeof allowed === 'string' ? allowed : DENIED_REPLY);
+          return;
+        }
+      }
+
+      const remaining = this.#cooldownRemaining(cmd, msg.author.id);
+      if (remaining > 0) {
+        await msg.reply(`Slow down — try again in ${Math.ceil(remaining / 1000)}s.`);
+        return;
+      }
+
+      let run: () => unknown;
+      try {
+        run = await registered.prepare(msg, body.slice(match[0].length));
+      } catch (err) {
+        if (!(err instanceof ArgumentError)) throw err;
+        await msg.reply(`${err.message}\nUsage: ${this.help(cmd.name).split('\n')[0]}`);
+        return;
+      }
+
+      if (cmd.cooldown) this.#startCooldown(cmd.name, msg.author.id, cmd.cooldown);
+      await run();
+    } catch (err) {
+      this.#client.emit('error', new CommandError(cmd.name, err));
+    }
+  }
+
+  #startCooldown(command: string, userId: string, cooldown: number): void {
+    const now = Date.now();
+    if (now >= this.#nextSweep) {
+      for (const [key, until] of this.#cooldowns) {
+        if (until <= now) this.#cooldowns.delete(key);
+      }
+      this.#nextSweep = now + SWEEP_INTERVAL_MS;
+    }
+    this.#cooldowns.set(`${command}:${userId}`, now + cooldown);
+  }
+
+  #cooldownRemaining(cmd: CommandInfo, userId: string): number {
+    if (!cmd.cooldown) return 0;
+    const key = `${cmd.name}:${userId}`;
+    const until = this.#cooldowns.get(key);
+    if (until === undefined) return 0;
+    const remaining = until - Date.now();
+    if (remaining <= 0) this.#cooldowns.delete(key);
+    return remaining;
+  }
+}
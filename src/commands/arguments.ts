@@ -0,0 +1,145 @@
+import type { ClientRef } from '../client/ClientRef';
+import type { User } from '../structures/User';
+import type { Channel } from '../structures/Channel';
+import { NotFoundError } from '../rest/errors';
+import { ArgumentError } from './errors';
+
+/** What each argument type parses to */
+export interface ArgTypes {
+  /** One word, or a "quoted phrase" */
+  string: string;
+  integer: number;
+  /** `<@id>` mention or bare id, resolved through client.users */
+  user: User;
+  /** `<#id>` mention or bare id, resolved through client.channels */
+  channel: Channel;
+  /** Bare numeric id, not resolved */
+  snowflake: string;
+  /** Everything left on the line, verbatim — must be the last argument */
+  rest: string;
+}
+
+export type ArgType = keyof ArgTypes;
+
+export interface ArgDefinition<N extends string = string, T extends ArgType = ArgType> {
+  name: N;
+  type: T;
+  optional?: boolean;
+}
+
+/** Object of parsed values keyed by argument name, typed from the definitions */
+export type ParsedArgs<A extends readonly ArgDefinition[]> = {
+  [D in A[number] as D['name']]: D['optional'] extends true
+    ? ArgTypes[D['type']] | undefined
+    : ArgTypes[D['type']];
+};
+
+export interface Token {
+  value: string;
+  /** Offset of the token in the source string, quotes included */
+  start: number;
+}
+
+const SNOWFLAKE = /^\d+$/;
+const USER_MENTION = /^<@!?(\d+)>$/;
+const CHANNEL_MENTION = /^<#(\d+)>$/;
+
+/**
+ * Split on whitespace, keeping "double" or 'single' quoted phrases together.
+ * An unterminated quote runs to the end of the input.
+ */
+export function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  const pattern = /"([^"]*)"?|'([^']*)'?|(\S+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(input)) !== null) {
+    tokens.push({ value: match[1] ?? match[2] ?? match[3], start: match.index });
+  }
+  return tokens;
+}
+
+/** Render definitions as `<required> [optional]` for help and error replies */
+export function formatUsage(args: readonly ArgDefinition[]): string {
+  return args
+    .map((a) => {
+      const label = a.type === 'rest' ? `${a.name}...` : a.name;
+      return a.optional ? `[${label}]` : `<${label}>`;
+    })
+    .join(' ');
+}
+
+/**
+ * Parse everything after the command name against the definitions.
+ * Throws ArgumentError on the first argument that doesn't fit.
+ */
+export async function parseArgs<A extends readonly ArgDefinition[]>(
+  defs: A,
+  input: string,
+  client: ClientRef,
+): Promise<ParsedArgs<A>> {
+  const tokens = tokenize(input);
+  const parsed: Record<string, unknown> = {};
+
+  for (let i = 0; i < defs.length; i++) {
+    const def = defs[i];
+    const token = tokens[i];
+
+    if (!token) {
+      if (!def.optional) throw new ArgumentError(def.name, `Missing argument: ${def.name}`);
+      parsed[def.name] = undefined;
+      continue;
+    }
+
+    if (def.type === 'rest') {
+      parsed[def.name] = input.slice(token.start).trim();
+      return parsed as ParsedArgs<A>;
+    }
+
+    parsed[def.name] = await parseOne(def, token.value, client);
+  }
+
+  if (tokens.length > defs.length) {
+    throw new ArgumentError(defs[defs.length - 1]?.name ?? '', 'Too many arguments');
+  }
+  return parsed as ParsedArgs<A>;
+}
+
+async function parseOne(def: ArgDefinition, value: string, client: ClientRef): Promise<unknown> {
+  switch (def.type) {
+    case 'string':
+      return value;
+    case 'integer': {
+      if (!/^-?\d+$/.test(value)) throw new ArgumentError(def.name, `${def.name} must be a whole number`);
+      const n = Number(value);
+      // Past 2^53 the number no longer holds what was typed
+      if (!Number.isSafeInteger(n)) throw new ArgumentError(def.name, `${def.name} is too large`);
+      return n;
+    }
+    case 'snowflake': {
+      if (!SNOWFLAKE.test(value)) throw new ArgumentError(def.name, `${def.name} must be an id`);
+      return value;
+    }
+    case 'user': {
+      const id = USER_MENTION.exec(value)?.[1] ?? (SNOWFLAKE.test(value) ? value : null);
+      if (!id) throw new ArgumentError(def.name, `${def.name} must be a user mention or id`);
+      return resolve(def.name, () => client.users.fetch(id), 'user');
+    }
+    case 'channel': {
+      const id = CHANNEL_MENTION.exec(value)?.[1] ?? (SNOWFLAKE.test(value) ? value : null);
+      if (!id) throw new ArgumentError(def.name, `${def.name} must be a channel mention or id`);
+      return resolve(def.name, () => client.channels.fetch(id), 'channel');
+    }
+    default:
+      throw new ArgumentError(def.name, `Unknown argument type for ${def.name}`);
+  }
+}
+
+/** A well-formed id that doesn't exist is the user's mistake, not ours */
+async function resolve<T>(name: string, fetch: () => Promise<T>, kind: string): Promise<T> {
+  try {
+    return await fetch();
+  } catch (err) {
+    if (err instanceof NotFoundError) throw new ArgumentError(name, `Unknown ${kind} for ${name}`);
+    throw err;
+  }
+}
@@ -0,0 +1,233 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Client } from '../client/Client';
+import { Message } from '../structures/Message';
+import { User } from '../structures/User';
+import { CommandHandler } from './CommandHandler';
+import { tokenize, parseArgs, formatUsage } from './arguments';
+import { ArgumentError, CommandError } from './errors';
+import type { RawMessage, RawUser } from '../types';
+
+const rawUser: RawUser = {
+  id: '100',
+  username: 'someone',
+  display_name: 'Someone',
+  created_at: '2025-01-01T00:00:00Z',
+};
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'content-type': 'application/json' },
+  });
+}
+
+describe('commands', () => {
+  let client: Client;
+  let fetchMock: ReturnType<typeof vi.fn>;
+  let replies: string[];
+
+  beforeEach(() => {
+    replies = [];
+    fetchMock = vi.fn(async (url: string, init: RequestInit) => {
+      if (url.includes('/users/404')) return json({ error: 'Unknown user' }, 404);
+      if (url.includes('/users/')) return json({ ...rawUser, id: url.split('/').pop() });
+      const { content } = JSON.parse(init.body as string) as { content: string };
+      replies.push(content);
+      return json({ ...message('reply').toRaw(), content });
+    });
+    vi.stubGlobal('fetch', fetchMock);
+    client = new Client({ token: 'bot_test', restUrl: 'http://api.test' });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  function message(content: string, authorId = '100'): Message & { toRaw(): RawMessage } {
+    const raw: RawMessage = {
+      id: '300',
+      channel_id: '200',
+      author: { ...rawUser, id: authorId },
+      content,
+      created_at: '2025-01-01T00:00:00Z',
+    };
+    return Object.assign(new Message(raw, client), { toRaw: () => raw });
+  }
+
+  describe('tokenize()', () => {
+    it('splits on whitespace and keeps quoted phrases together', () => {
+      expect(tokenize(`a  "b c" 'd e' f`).map((t) => t.value)).toEqual(['a', 'b c', 'd e', 'f']);
+    });
+
+    it('records token offsets', () => {
+      expect(tokenize('ab  cd').map((t) => t.start)).toEqual([0, 4]);
+    });
+  });
+
+  describe('parseArgs()', () => {
+    it('parses typed arguments and the rest of the line', async () => {
+      const args = await parseArgs(
+        [
+          { name: 'count', type: 'integer' },
+          { name: 'id', type: 'snowflake' },
+          { name: 'who', type: 'user' },
+          { name: 'note', type: 'rest' },
+        ] as const,
+        '5 123 <@42> spaced   out "text"',
+        client,
+      );
+      expect(args.count).toBe(5);
+      expect(args.id).toBe('123');
+      expect(args.who).toBeInstanceOf(User);
+      expect(args.who.id).toBe('42');
+      expect(args.note).toBe('spaced   out "text"');
+    });
+
+    it('resolves channel mentions from the cache', async () => {
+      client.channels._add({
+        id: '200', server_id: '1', name: 'general', type: 0, position: 0, created_at: '2025-01-01T00:00:00Z',
+      });
+      const args = await parseArgs([{ name: 'where', type: 'channel' }] as const, '<#200>', client);
+      expect(args.where.name).toBe('general');
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it('leaves missing optional arguments undefined', async () => {
+      const args = await parseArgs([{ name: 'a', type: 'string', optional: true }] as const, '', client);
+      expect(args.a).toBeUndefined();
+    });
+
+    it.each([
+      [[{ name: 'n', type: 'integer' }], 'abc', 'n must be a whole number'],
+      [[{ name: 'n', type: 'integer' }], '', 'Missing argument: n'],
+      [[{ name: 'n', type: 'integer' }], '9007199254740993', 'n is too large'],
+      [[{ name: 'n', type: 'integer' }], '-9007199254740993', 'n is too large'],
+      [[{ name: 'who', type: 'user' }], 'bob', 'who must be a user mention or id'],
+      [[{ name: 'who', type: 'user' }], '<@404>', 'Unknown user for who'],
+      [[{ name: 's', type: 'string' }], 'a b', 'Too many arguments'],
+    ] as const)('rejects bad input %#', async (defs, input, message) => {
+      const result = parseArgs(defs, input, client);
+      await expect(result).rejects.toBeInstanceOf(ArgumentError);
+      await expect(result).rejects.toThrow(message);
+    });
+
+    it('formats usage from definitions', () => {
+      expect(formatUsage([
+        { name: 'target', type: 'user' },
+        { name: 'reason', type: 'rest', optional: true },
+      ])).toBe('<target> [reason...]');
+    });
+  });
+
+  describe('CommandHandler', () => {
+    it('runs a command by name or alias with parsed args', async () => {
+      const handler = new CommandHandler(client, { prefix: '!' });
+      const run = vi.fn();
+      handler.register({ name: 'echo', aliases: ['say'], args: [{ name: 'text', type: 'rest' }] as const, run });
+
+      await handler.handle(message('!echo hello there'));
+      await handler.handle(message('!SAY again'));
+
+      expect(run.mock.calls.map((c) => c[1])).toEqual([{ text: 'hello there' }, { text: 'again' }]);
+    });
+
+    it('listens to messageCreate on the client', async () => {
+      const handler = new CommandHandler(client, { prefix: '!' });
+      const ran = new Promise((resolve) => handler.register({ name: 'ping', run: resolve }));
+      client.emit('messageCreate', message('!ping'), 0);
+      await expect(ran).resolves.toBeInstanceOf(Message);
+    });
+
+    it('ignores messages without the prefix or for unknown commands', async () => {
+      const handler = new CommandHandler(client, { prefix: '!' });
+      const run = vi.fn();
+      handler.register({ name: 'ping', run });
+
+      await handler.handle(message('ping'));
+      await handler.handle(message('!pong'));
+      expect(run).not.toHaveBeenCalled();
+      expect(replies).toEqual([]);
+    });
+
+    it('replies with usage when arguments do not parse', async () => {
+      const handler = new CommandHandler(client, { prefix: '!' });
+      handler.register({ name: 'roll', args: [{ name: 'sides', type: 'integer' }] as const, run: vi.fn() });
+
+      await handler.handle(message('!roll many'));
+      expect(replies).toEqual(['sides must be a whole number\nUsage: !roll <sides>']);
+    });
+
+    it('refuses when the guard fails', async () => {
+      const handler = new CommandHandler(client, { prefix: '!' });
+      const run = vi.fn();
+      handler.register({ name: 'ban', guard: () => false, run });
+      handler.register({ name: 'nuke', guard: async () => 'Owners only.', run });
+
+      await handler.handle(message('!ban'));
+      await handler.handle(message('!nuke'));
+      expect(run).not.toHaveBeenCalled();
+      expect(replies).toEqual(["You don't have permission to use this command.", 'Owners only.']);
+    });
+
+    it('enforces per-user cooldowns', async () => {
+      const handler = new CommandHandler(client, { prefix: '!' });
+      const run = vi.fn();
+      handler.register({ name: 'daily', cooldown: 60_000, run });
+
+      await handler.handle(message('!daily', '1'));
+      await handler.handle(message('!daily', '1'));
+      await handler.handle(message('!daily', '2'));
+
+      expect(run).toHaveBeenCalledTimes(2);
+      expect(replies).toEqual(['Slow down — try again in 60s.']);
+    });
+
+    it('routes command failures to the client error event', async () => {
+      const handler = new CommandHandler(client, { prefix: '!' });
+      handler.register({ name: 'boom', run: () => { throw new Error('kaboom'); } });
+      const errors: Error[] = [];
+      client.on('error', (err) => errors.push(err));
+
+      await handler.handle(message('!boom'));
+      expect(errors).toHaveLength(1);
+      expect(errors[0]).toBeInstanceOf(CommandError);
+      expect(errors[0].message).toBe('Command "boom" failed: kaboom');
+    });
+
+    it('generates help output', async () => {
+      const handler = new CommandHandler(client, { prefix: '!' });
+      handler.register({
+        name: 'kick',
+        aliases: ['k'],
+        description: 'Kick someone',
+        args: [{ name: 'target', type: 'user' }] as const,
+        run: vi.fn(),
+      });
+
+      await handler.handle(message('!help'));
+      await handler.handle(message('!help k'));
+      expect(replies).toEqual([
+        '!help — List commands, or show usage for one\n!kick — Kick someone',
+        '!kick <target>\nKick someone\nAliases: k',
+      ]);
+    });
+
+    it('warns when the client lacks the MESSAGE_CONTENT intent', () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      new CommandHandler(new Client({ token: 'bot_test', intents: ['SERVER_MESSAGES'] }), { prefix: '!' });
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('MESSAGE_CONTENT'));
+      warn.mockRestore();
+    });
+
+    it('rejects duplicate names and misplaced rest arguments', () => {
+      const handler = new CommandHandler(client, { prefix: '!', help: false });
+      handler.register({ name: 'a', aliases: ['b'], run: vi.fn() });
+      expect(() => handler.register({ name: 'B', run: vi.fn() })).toThrow('already registered');
+      expect(() => handler.register({
+        name: 'c',
+        args: [{ name: 'x', type: 'rest' }, { name: 'y', type: 'string' }],
+        run: vi.fn(),
+      })).toThrow('rest argument must come last');
+    });
+  });
+});
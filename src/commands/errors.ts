@@ -0,0 +1,31 @@
+import { IntentError } from '../rest/errors';
+
+/**
+ * User input didn't match a command's argument definitions.
+ * Replied to the author with usage text — never reaches the client's error event.
+ */
+export class ArgumentError extends IntentError {
+  public readonly argument: string;
+
+  constructor(argument: string, message: string) {
+    super(message);
+    this.name = 'ArgumentError';
+    this.argument = argument;
+  }
+}
+
+/**
+ * A command's run() or guard threw. Emitted on the client's error event with
+ * the original error as `cause`.
+ */
+export class CommandError extends IntentError {
+  public readonly command: string;
+
+  constructor(command: string, cause: unknown) {
+    const reason = cause instanceof Error ? cause.message : String(cause);
+    super(`Command "${command}" failed: ${reason}`);
+    this.name = 'CommandError';
+    this.command = command;
+    this.cause = cause;
+  }
+}
@@ -0,0 +1,11 @@
+export { CommandHandler, type CommandDefinition, type CommandInfo, type CommandHandlerOptions } from './CommandHandler';
+export {
+  parseArgs,
+  tokenize,
+  formatUsage,
+  type ArgTypes,
+  type ArgType,
+  type ArgDefinition,
+  type ParsedArgs,
+} from './arguments';
+export { ArgumentError, CommandError } from './errors';
@@ -0,0 +1,412 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { WebSocketServer, type WebSocket } from 'ws';
+import type { AddressInfo } from 'net';
+import type { IncomingMessage } from 'http';
+import * as zlib from 'zlib';
+import { Gateway } from './Gateway';
+import { GatewayError, GatewaySendError } from './errors';
+import { encode, decode, type GatewayCodec } from './encoding';
+import type { GatewayCompression } from './compression';
+import { GatewayCloseCodes, GatewayState, Opcodes, isFatalCloseCode } from './types';
+import type { GatewayPayload, ReadyData } from './types';
+
+const readyData: ReadyData = {
+  user: {
+    id: '100',
+    username: 'testbot',
+    display_name: 'Test Bot',
+    created_at: '2025-01-01T00:00:00Z',
+  },
+  servers: [],
+  session_id: 'sess_1',
+  heartbeat_interval: 60_000,
+};
+
+/** Resolve with the next frame the client sends on this socket */
+function nextFrame(socket: WebSocket): Promise<GatewayPayload> {
+  return new Promise((resolve) => {
+    socket.once('message', (data) => resolve(decode(data as Buffer)));
+  });
+}
+
+function send(socket: WebSocket, payload: GatewayPayload): void {
+  socket.send(encode(payload));
+}
+
+function once<T = unknown>(gateway: Gateway, event: string): Promise<T> {
+  return new Promise((resolve) => gateway.once(event, resolve));
+}
+
+describe('Gateway', () => {
+  let wss: WebSocketServer;
+  let sockets: WebSocket[];
+  let gateway: Gateway;
+  let url: string;
+
+  function nextConnection(): Promise<WebSocket> {
+    return new Promise((resolve) => wss.once('connection', resolve));
+  }
+
+  beforeEach(async () => {
+    sockets = [];
+    wss = new WebSocketServer({ port: 0 });
+    wss.on('connection', (s) => sockets.push(s));
+    await new Promise((resolve) => wss.once('listening', resolve));
+    url = `ws://127.0.0.1:${(wss.address() as AddressInfo).port}`;
+    gateway = new Gateway({ token: 'bot_test', url });
+    gateway.on('error', () => {});
+  });
+
+  afterEach(async () => {
+    gateway.disconnect();
+    for (const s of sockets) s.terminate();
+    await new Promise((resolve) => wss.close(resolve));
+  });
+
+  /** Connect, answer IDENTIFY with READY, and return the live server socket */
+  async function connectReady(): Promise<WebSocket> {
+    const conn = nextConnection();
+    gateway.connect();
+    const socket = await conn;
+    const identify = await nextFrame(socket);
+    expect(identify.op).toBe(Opcodes.IDENTIFY);
+    const ready = once(gateway, 'READY');
+    send(socket, { op: Opcodes.READY, d: readyData });
+    await ready;
+    // swallow the heartbeat sent immediately after READY
+    await nextFrame(socket);
+    return socket;
+  }
+
+  it('identifies on first connect and becomes CONNECTED on READY', async () => {
+    await connectReady();
+    expect(gateway.state).toBe(GatewayState.CONNECTED);
+  });
+
+  it('resumes with session id and last seq after a drop', async () => {
+    const first = await connectReady();
+    send(first, { op: Opcodes.DISPATCH, t: 'MESSAGE_CREATE', s: 1, d: { id: '1' } });
+    send(first, { op: Opcodes.DISPATCH, t: 'MESSAGE_CREATE', s: 2, d: { id: '2' } });
+    await new Promise((r) => setTimeout(r, 20));
+
+    const conn = nextConnection();
+    first.terminate();
+    const second = await conn;
+    const resume = await nextFrame(second);
+
+    expect(resume.op).toBe(Opcodes.RESUME);
+    expect(resume.d).toEqual({ token: 'bot_test', session_id: 'sess_1', seq: 2 });
+  });
+
+  it('replays missed dispatches in order and drops ones already seen', async () => {
+    const first = await connectReady();
+    const seen: string[] = [];
+    gateway.on('MESSAGE_CREATE', (d: { id: string }) => seen.push(d.id));
+
+    send(first, { op: Opcodes.DISPATCH, t: 'MESSAGE_CREATE', s: 1, d: { id: '1' } });
+    await new Promise((r) => setTimeout(r, 20));
+
+    const conn = nextConnection();
+    first.terminate();
+    const second = await conn;
+    await nextFrame(second);
+
+    const resumed = once<number>(gateway, 'resumed');
+    // server replays from before our cursor — seq 1 must not be emitted twice
+    send(second, { op: Opcodes.DISPATCH, t: 'MESSAGE_CREATE', s: 1, d: { id: '1' } });
+    send(second, { op: Opcodes.DISPATCH, t: 'MESSAGE_CREATE', s: 2, d: { id: '2' } });
+    send(second, { op: Opcodes.DISPATCH, t: 'MESSAGE_CREATE', s: 3, d: { id: '3' } });
+    send(second, { op: Opcodes.RESUMED });
+
+    expect(await resumed).toBe(2);
+    expect(seen).toEqual(['1', '2', '3']);
+    expect(gateway.state).toBe(GatewayState.CONNECTED);
+  });
+
+  it('re-identifies on a non-resumable INVALID_SESSION', async () => {
+    const first = await connectReady();
+    send(first, { op: Opcodes.DISPATCH, t: 'MESSAGE_CREATE', s: 5, d: { id: '5' } });
+    await new Promise((r) => setTimeout(r, 20));
+
+    const conn = nextConnection();
+    first.terminate();
+    const second = await conn;
+    expect((await nextFrame(second)).op).toBe(Opcodes.RESUME);
+
+    const invalidated = once<boolean>(gateway, 'invalidated');
+    const identify = nextFrame(second);
+    send(second, { op: Opcodes.INVALID_SESSION, d: false });
+
+    expect(await invalidated).toBe(false);
+    expect((await identify).op).toBe(Opcodes.IDENTIFY);
+  });
+
+  it('retries the resume on a resumable INVALID_SESSION', async () => {
+    const first = await connectReady();
+    send(first, { op: Opcodes.DISPATCH, t: 'MESSAGE_CREATE', s: 3, d: { id: '3' } });
+    await new Promise((r) => setTimeout(r, 20));
+
+    const conn = nextConnection();
+    first.terminate();
+    const second = await conn;
+    await nextFrame(second);
+
+    const retry = nextFrame(second);
+    send(second, { op: Opcodes.INVALID_SESSION, d: true });
+
+    const frame = await retry;
+    expect(frame.op).toBe(Opcodes.RESUME);
+    expect(frame.d).toMatchObject({ session_id: 'sess_1', seq: 3 });
+  });
+
+  it('identifies fresh after an intentional disconnect', async () => {
+    await connectReady();
+    gateway.disconnect();
+
+    const conn = nextConnection();
+    gateway.connect();
+    const socket = await conn;
+    expect((await nextFrame(socket)).op).toBe(Opcodes.IDENTIFY);
+  });
+
+  describe('close codes and reconnect policy', () => {
+    it('stops on a fatal close code instead of reconnecting', async () => {
+      const conn = nextConnection();
+      gateway.connect();
+      const socket = await conn;
+      await nextFrame(socket);
+
+      const reconnects: number[] = [];
+      gateway.on('reconnecting', (attempt) => reconnects.push(attempt));
+      const fatal = once<GatewayError>(gateway, 'fatal');
+      socket.close(GatewayCloseCodes.AUTHENTICATION_FAILED, 'Authentication failed');
+
+      const err = await fatal;
+      expect(err).toBeInstanceOf(GatewayError);
+      expect(err).toMatchObject({ code: 4004, shardId: 0 });
+      expect(err.message).toContain('AUTHENTICATION_FAILED');
+      expect(gateway.state).toBe(GatewayState.DISCONNECTED);
+      await new Promise((r) => setTimeout(r, 50));
+      expect(reconnects).toEqual([]);
+    });
+
+    it('classifies close codes', () => {
+      expect(isFatalCloseCode(GatewayCloseCodes.DISALLOWED_INTENTS)).toBe(true);
+      expect(isFatalCloseCode(GatewayCloseCodes.RATE_LIMITED)).toBe(false);
+      expect(isFatalCloseCode(1006)).toBe(false);
+    });
+
+    it('uses the backoff function and gives up after maxAttempts', async () => {
+      gateway = new Gateway({ token: 'bot_test', url, reconnect: { maxAttempts: 2, backoff: (n) => n * 10 } });
+      gateway.on('error', () => {});
+      wss.on('connection', (s) => s.close(GatewayCloseCodes.UNKNOWN_ERROR));
+
+      const reconnecting: [number, number][] = [];
+      gateway.on('reconnecting', (attempt, delay) => reconnecting.push([attempt, delay]));
+      const fatal = once<GatewayError>(gateway, 'fatal');
+      gateway.connect();
+
+      const err = await fatal;
+      expect(reconnecting).toEqual([[1, 10], [2, 20]]);
+      expect(err.code).toBe(4000);
+      expect(err.message).toContain('gave up after 2');
+    });
+
+    it('identifies fresh after the server times the session out', async () => {
+      const first = await connectReady();
+      send(first, { op: Opcodes.DISPATCH, t: 'MESSAGE_CREATE', s: 1, d: { id: '1' } });
+      await new Promise((r) => setTimeout(r, 20));
+
+      const conn = nextConnection();
+      first.close(GatewayCloseCodes.SESSION_TIMED_OUT);
+      expect((await nextFrame(await conn)).op).toBe(Opcodes.IDENTIFY);
+    });
+  });
+
+  describe('send queue', () => {
+    it('queues frames until READY and reports the depth', async () => {
+      const conn = nextConnection();
+      gateway.connect();
+      const socket = await conn;
+      await nextFrame(socket);
+
+      const sent = gateway.send({ op: Opcodes.PRESENCE_UPDATE, d: { status: 'idle', activity: null } });
+      expect(gateway.queued).toBe(1);
+
+      const frames: GatewayPayload[] = [];
+      socket.on('message', (data) => frames.push(decode(data as Buffer)));
+      send(socket, { op: Opcodes.READY, d: readyData });
+      await sent;
+      await new Promise((r) => setTimeout(r, 20));
+      expect(frames.map((f) => f.op)).toEqual([Opcodes.HEARTBEAT, Opcodes.PRESENCE_UPDATE]);
+      expect(gateway.queued).toBe(0);
+    });
+
+    it('rejects queued frames with GatewaySendError on disconnect()', async () => {
+      const sent = gateway.send({ op: Opcodes.PRESENCE_UPDATE, d: null });
+      gateway.disconnect();
+      await expect(sent).rejects.toBeInstanceOf(GatewaySendError);
+    });
+  });
+
+  describe('presence', () => {
+    const maintenance = { status: 'dnd', activity: { name: 'Maintenance', type: 4 } } as const;
+
+    it('sends the initial presence in IDENTIFY and later changes as PRESENCE_UPDATE', async () => {
+      gateway = new Gateway({ token: 'bot_test', url, presence: { status: 'idle', activity: null } });
+      const conn = nextConnection();
+      gateway.connect();
+      const socket = await conn;
+      expect((await nextFrame(socket)).d).toMatchObject({ presence: { status: 'idle', activity: null } });
+
+      send(socket, { op: Opcodes.READY, d: readyData });
+      await nextFrame(socket);
+
+      const update = nextFrame(socket);
+      gateway.updatePresence(maintenance);
+      expect(await update).toEqual({ op: Opcodes.PRESENCE_UPDATE, d: maintenance });
+    });
+
+    it('applies a presence set while reconnecting once the session resumes', async () => {
+      const first = await connectReady();
+      send(first, { op: Opcodes.DISPATCH, t: 'MESSAGE_CREATE', s: 1, d: { id: '1' } });
+      await new Promise((r) => setTimeout(r, 20));
+
+      const conn = nextConnection();
+      first.terminate();
+      await new Promise((r) => setTimeout(r, 20));
+      gateway.updatePresence(maintenance);
+      const second = await conn;
+      expect((await nextFrame(second)).op).toBe(Opcodes.RESUME);
+
+      // heartbeat and presence can land in one chunk — listen for both up front
+      const frames: GatewayPayload[] = [];
+      const both = new Promise<void>((resolve) => {
+        second.on('message', (data) => {
+          if (frames.push(decode(data as Buffer)) === 2) resolve();
+        });
+      });
+      send(second, { op: Opcodes.RESUMED });
+      await both;
+      expect(frames).toEqual([{ op: Opcodes.HEARTBEAT, d: 1 }, { op: Opcodes.PRESENCE_UPDATE, d: maintenance }]);
+    });
+
+    it('carries the latest presence into a fresh IDENTIFY', async () => {
+      await connectReady();
+      gateway.updatePresence(maintenance);
+      gateway.disconnect();
+
+      const conn = nextConnection();
+      gateway.connect();
+      expect((await nextFrame(await conn)).d).toMatchObject({ presence: maintenance });
+    });
+  });
+
+  describe('encoding and compression', () => {
+    function nextRequest(): Promise<[WebSocket, URLSearchParams]> {
+      return new Promise((resolve) => {
+        wss.once('connection', (socket, req: IncomingMessage) => {
+          resolve([socket, new URL(req.url ?? '/', url).searchParams]);
+        });
+      });
+    }
+
+    it('asks for msgpack by default', async () => {
+      const conn = nextRequest();
+      gateway.connect();
+      const [, query] = await conn;
+      expect(query.get('encoding')).toBe('msgpack');
+      expect(query.has('compress')).toBe(false);
+    });
+
+    it('speaks JSON text frames in json mode', async () => {
+      gateway.disconnect();
+      gateway = new Gateway({ token: 'bot_test', url, encoding: 'json' });
+      const conn = nextRequest();
+      gateway.connect();
+      const [socket, query] = await conn;
+      expect(query.get('encoding')).toBe('json');
+
+      const identify = await new Promise<[string, boolean]>((resolve) => {
+        socket.once('message', (data, isBinary) => resolve([data.toString(), isBinary]));
+      });
+      expect(identify[1]).toBe(false);
+      expect(JSON.parse(identify[0])).toMatchObject({ op: Opcodes.IDENTIFY, d: { token: 'bot_test' } });
+
+      const ready = once(gateway, 'READY');
+      socket.send(JSON.stringify({ op: Opcodes.READY, d: readyData }));
+      expect(await ready).toEqual(readyData);
+    });
+
+    it('uses a custom codec and its name', async () => {
+      const codec: GatewayCodec = {
+        name: 'reversed-json',
+        binary: false,
+        encode: (payload) => [...JSON.stringify(payload)].reverse().join(''),
+        decode: (data) => JSON.parse([...data.toString()].reverse().join('')) as GatewayPayload,
+      };
+      gateway.disconnect();
+      gateway = new Gateway({ token: 'bot_test', url, encoding: codec });
+      const conn = nextRequest();
+      gateway.connect();
+      const [socket, query] = await conn;
+      expect(query.get('encoding')).toBe('reversed-json');
+
+      const frame = await new Promise<string>((resolve) => socket.once('message', (d) => resolve(d.toString())));
+      expect(codec.decode(Buffer.from(frame)).op).toBe(Opcodes.IDENTIFY);
+    });
+
+    it('rejects compression this runtime lacks when created, before any socket opens', () => {
+      const connections: unknown[] = [];
+      wss.on('connection', (socket) => connections.push(socket));
+      const hasZstd = 'createZstdDecompress' in zlib;
+
+      expect(() => new Gateway({ token: 'bot_test', url, compress: 'brotli' as GatewayCompression }))
+        .toThrow('Unknown gateway compression: brotli');
+      if (!hasZstd) {
+        expect(() => new Gateway({ token: 'bot_test', url, compress: 'zstd-stream' }))
+          .toThrow('zstd-stream compression needs Node.js 22.15 or newer');
+      }
+      expect(connections).toEqual([]);
+    });
+
+    it('inflates a zlib stream with one context across frames', async () => {
+      gateway.disconnect();
+      gateway = new Gateway({ token: 'bot_test', url, compress: 'zlib-stream' });
+      const conn = nextRequest();
+      gateway.connect();
+      const [socket, query] = await conn;
+      expect(query.get('compress')).toBe('zlib-stream');
+      // Outbound stays uncompressed
+      expect((await nextFrame(socket)).op).toBe(Opcodes.IDENTIFY);
+
+      const deflate = zlib.createDeflate();
+      const compress = (payload: GatewayPayload): Promise<Buffer> => new Promise((resolve) => {
+        const chunks: Buffer[] = [];
+        const onData = (c: Buffer): number => chunks.push(c);
+        deflate.on('data', onData);
+        deflate.write(encode(payload));
+        deflate.flush(zlib.constants.Z_SYNC_FLUSH, () => {
+          deflate.off('data', onData);
+          resolve(Buffer.concat(chunks));
+        });
+      });
+
+      const seen: string[] = [];
+      gateway.on('MESSAGE_CREATE', (d: { id: string }) => seen.push(d.id));
+      const ready = once(gateway, 'READY');
+      socket.send(await compress({ op: Opcodes.READY, d: readyData }));
+      await ready;
+
+      // The second message depends on the first's dictionary, and arrives split in two frames
+      const first = await compress({ op: Opcodes.DISPATCH, t: 'MESSAGE_CREATE', s: 1, d: { id: '1' } });
+      const second = await compress({ op: Opcodes.DISPATCH, t: 'MESSAGE_CREATE', s: 2, d: { id: '2' } });
+      socket.send(first);
+      socket.send(second.subarray(0, 3));
+      socket.send(second.subarray(3));
+      await new Promise((r) => setTimeout(r, 50));
+      expect(seen).toEqual(['1', '2']);
+      deflate.close();
+    });
+  });
+});
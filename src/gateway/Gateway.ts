@@ -1,30 +1,89 @@
 import { EventEmitter } from 'events';
 import WebSocket, { type RawData } from 'ws';
-import { encode, decode } from './encoding';
-import { GatewayState, Opcodes } from './types';
-import type { GatewayPayload, IdentifyData, ReadyData } from './types';
+import { resolveCodec, type GatewayCodec, type GatewayEncoding } from './encoding';
+import { Decompressor, assertCompressionSupported, type GatewayCompression } from './compression';
+import { SendQueue, type SendQueueOptions } from './SendQueue';
+import { GatewayError, GatewaySendError } from './errors';
+import { GatewayCloseCodes, GatewayState, Opcodes, isFatalCloseCode } from './types';
+import type {
+  GatewayPayload,
+  GatewayDispatchPayload,
+  GatewayEvents,
+  IdentifyData,
+  ReadyData,
+  ResumeData,
+  InvalidSessionData,
+  PresenceUpdateData,
+} from './types';
 
 const MAX_MISSED_HB     = 3;
 const RECONNECT_BASE_MS = 1_000;
 const RECONNECT_MAX_MS  = 30_000;
 
+export interface ReconnectPolicy {
+  /** Consecutive failed reconnects before giving up — unlimited by default */
+  maxAttempts?: number;
+  /** Delay in ms before reconnect number `attempt` (from 1) — defaults to exponential backoff with jitter */
+  backoff?: (attempt: number) => number;
+}
+
+/** 1s, 2s, 4s … capped at 30s, each ±25% */
+export function defaultBackoff(attempt: number): number {
+  const base = Math.min(RECONNECT_BASE_MS * 2 ** (attempt - 1), RECONNECT_MAX_MS);
+  return base * (0.75 + Math.random() * 0.5);
+}
+
 export interface GatewayOptions {
   token: string;
   url?: string;
+  /** [shard_id, shard_count] sent in IDENTIFY — omit for an unsharded connection */
+  shard?: [number, number];
+  /**
+   * Awaited before every IDENTIFY. ShardManager uses this to stagger identifies
+   * across shards; a standalone Gateway identifies immediately.
+   */
+  identifyGate?: () => Promise<void>;
+  /** Payload format — defaults to MessagePack */
+  encoding?: GatewayEncoding;
+  /** Ask the server to compress what it sends — off by default */
+  compress?: GatewayCompression;
+  /** Intent bitfield sent in IDENTIFY — omit to receive every event */
+  intents?: number;
+  /** Presence sent in IDENTIFY */
+  presence?: PresenceUpdateData;
+  /** Outbound frame limit — defaults to the server's 120 per minute */
+  sendLimit?: SendQueueOptions;
+  reconnect?: ReconnectPolicy;
 }
 
 /**
  * Internal WebSocket connection manager. Not exported from the package.
  *
  * Handles the full lifecycle: connect → identify → ready → heartbeat,
- * with exponential backoff reconnection on drop. Emits raw SCREAMING_SNAKE
- * dispatch events — Client maps these to camelCase structure objects.
+ * with exponential backoff reconnection on drop. Reconnects resume the
+ * previous session when one exists so the server replays missed dispatches;
+ * an Invalid Session falls back to a fresh identify. Emits raw SCREAMING_SNAKE
+ * dispatch events — Client maps these to camelCase structure objects — plus a
+ * generic `dispatch` event carrying the whole payload for routers like ShardManager.
+ *
+ * Encoding and compression are negotiated through the connect URL's
+ * `encoding` and `compress` query parameters.
  */
 export class Gateway extends EventEmitter {
   private readonly token: string;
   private readonly url: string;
+  private readonly shard: [number, number] | null;
+  private readonly identifyGate: (() => Promise<void>) | null;
+  private readonly codec: GatewayCodec;
+  private readonly compression: GatewayCompression | null;
+  private readonly maxAttempts: number;
+  private readonly backoff: (attempt: number) => number;
+  private readonly intents: number | null;
 
   private ws: WebSocket | null = null;
+  // compressed frames inflate asynchronously — chained so payloads keep their order
+  private decompressor: Decompressor | null = null;
+  private inbound: Promise<void> = Promise.resolve();
   private _state: GatewayState = GatewayState.DISCONNECTED;
 
   // heartbeat
@@ -32,23 +91,50 @@ export class Gateway extends EventEmitter {
   private heartbeatMs: number | null = null;
   private awaitingAck = false;
   private missed = 0;
+  private lastBeatAt = 0;
+  private _ping: number | null = null;
 
   // reconnection
   private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
   private attempts = 0;
   private intentionalClose = false;
 
-  // last sequence number — carried in heartbeats, required for future Resume
+  // session — seq is carried in heartbeats, both are needed to Resume
+  private sessionId: string | null = null;
   private seq: number | null = null;
+  private resuming = false;
+  private replayed = 0;
+
+  // outbound — survives reconnects, drains only while a session is up
+  private readonly sendQueue: SendQueue;
+
+  // presence — sent in every IDENTIFY, and queued as PRESENCE_UPDATE when it changes
+  private presence: PresenceUpdateData | null;
 
   constructor(options: GatewayOptions) {
     super();
     this.token = options.token;
     this.url   = options.url ?? 'wss://gateway.intent.chat';
+    this.shard = options.shard ?? null;
+    this.identifyGate = options.identifyGate ?? null;
+    this.codec = resolveCodec(options.encoding);
+    this.compression = options.compress ?? null;
+    if (this.compression) assertCompressionSupported(this.compression);
+    this.maxAttempts = options.reconnect?.maxAttempts ?? Infinity;
+    this.backoff = options.reconnect?.backoff ?? defaultBackoff;
+    this.intents = options.intents ?? null;
+    this.presence = options.presence ?? null;
+    this.sendQueue = new SendQueue((payload) => this._write(payload), options.sendLimit);
   }
 
   get state(): GatewayState { return this._state; }
 
+  /** Shard id this connection identifies as — 0 when unsharded */
+  get shardId(): number { return this.shard?.[0] ?? 0; }
+
+  /** Round-trip time of the last acknowledged heartbeat, in ms */
+  get ping(): number | null { return this._ping; }
+
   connect(): void {
     if (this._state === GatewayState.CONNECTED || this._state === GatewayState.CONNECTING) return;
     // Only clear intentionalClose on fresh connects — reconnect timer calls this from RECONNECTING
@@ -61,21 +147,68 @@ export class Gateway extends EventEmitter {
   disconnect(): void {
     this.intentionalClose = true;
     this._teardown();
+    this.sendQueue.clear((payload) => new GatewaySendError(payload.op, 'the gateway was disconnected'));
     this._state = GatewayState.DISCONNECTED;
+    // A deliberate disconnect ends the session — the next connect() identifies fresh
+    this._resetSession();
+  }
+
+  /** Outbound frames waiting on the rate limiter or for the session to come back */
+  get queued(): number { return this.sendQueue.size; }
+
+  /**
+   * Queue an outbound frame behind the rate limiter. Frames wait across
+   * reconnects; disconnect() rejects them with GatewaySendError. A frame with
+   * the same `key` still in the queue is replaced rather than sent twice.
+   */
+  send(payload: GatewayPayload, key?: string): Promise<void> {
+    return this.sendQueue.enqueue(payload, key);
+  }
+
+  /**
+   * Change the bot's presence. Queued like any other frame, so a presence set
+   * mid-reconnect goes out once the session is back.
+   */
+  updatePresence(presence: PresenceUpdateData): void {
+    this.presence = presence;
+    // Never lost for good: the next IDENTIFY carries this.presence anyway
+    this.send({ op: Opcodes.PRESENCE_UPDATE, d: presence }, 'presence').catch(() => {});
+  }
+
+  on<K extends keyof GatewayEvents>(event: K, listener: (...args: GatewayEvents[K]) => void): this;
+  on(event: string, listener: (...args: unknown[]) => void): this;
+  on(event: string, listener: (...args: unknown[]) => void): this {
+    return super.on(event, listener);
+  }
+
+  emit<K extends keyof GatewayEvents>(event: K, ...args: GatewayEvents[K]): boolean;
+  emit(event: string, ...args: unknown[]): boolean;
+  emit(event: string, ...args: unknown[]): boolean {
+    return super.emit(event, ...args);
   }
 
   // ---- socket ----
 
   private _open(): void {
-    const ws = new WebSocket(this.url, { maxPayload: 4 * 1024 * 1024 });
+    // Fresh socket, fresh compression context — built first so nothing is left connecting if it throws
+    this.decompressor?.destroy();
+    this.decompressor = this.compression ? new Decompressor(this.compression) : null;
+    const ws = new WebSocket(this._connectUrl(), { maxPayload: 4 * 1024 * 1024 });
     this.ws = ws;
     ws.on('open',    ()           => this._onOpen());
     ws.on('message', (data, bin) => this._onMessage(data, bin));
     ws.on('error',   (err)       => this.emit('error', err));
-    ws.on('close',   (code)      => this._onClose(code));
+    ws.on('close',   (code, why) => this._onClose(code, why.toString()));
   }
 
   private _onOpen(): void {
+    if (this.sessionId !== null && this.seq !== null) this._resume();
+    else this._identify();
+  }
+
+  private _identify(): void {
+    this.resuming = false;
+    this._resetSession();
     const identify: GatewayPayload<IdentifyData> = {
       op: Opcodes.IDENTIFY,
       d: {
@@ -83,39 +216,122 @@ export class Gateway extends EventEmitter {
         properties: { os: process.platform, browser: 'intent.js', device: 'bot' },
       },
     };
-    this.ws?.send(encode(identify));
+    if (this.shard) identify.d!.shard = this.shard;
+    if (this.intents !== null) identify.d!.intents = this.intents;
+    if (this.presence) {
+      identify.d!.presence = this.presence;
+      this.sendQueue.discard('presence');
+    }
+
+    if (!this.identifyGate) {
+      this._send(identify);
+      return;
+    }
+    // The gate may hold us for seconds — only identify on the socket that asked
+    const ws = this.ws;
+    this.identifyGate().then(
+      () => { if (this.ws === ws) this._send(identify); },
+      (err) => this.emit('error', err instanceof Error ? err : new Error(String(err))),
+    );
+  }
+
+  private _resume(): void {
+    if (this.sessionId === null || this.seq === null) {
+      this._identify();
+      return;
+    }
+    this.resuming = true;
+    this.replayed = 0;
+    const resume: GatewayPayload<ResumeData> = {
+      op: Opcodes.RESUME,
+      d: { token: this.token, session_id: this.sessionId, seq: this.seq },
+    };
+    this._send(resume);
+  }
+
+  private _connectUrl(): string {
+    const url = new URL(this.url);
+    url.searchParams.set('encoding', this.codec.name);
+    if (this.compression) url.searchParams.set('compress', this.compression);
+    return url.toString();
   }
 
   private _onMessage(data: RawData, isBinary: boolean): void {
-    if (!isBinary) {
-      // Intent gateway only sends binary MessagePack frames. A text frame here
+    const frame = this._toBuffer(data);
+    const decompressor = this.decompressor;
+    if (decompressor) {
+      this.inbound = this.inbound
+        .then(async () => {
+          const payload = await decompressor.push(frame);
+          // Skip output from a socket that has since been replaced
+          if (payload && decompressor === this.decompressor) this._receive(payload);
+        })
+        .catch((err) => {
+          this.emit('error', err instanceof Error ? err : new Error(String(err)));
+        });
+      return;
+    }
+
+    if (this.codec.binary && !isBinary) {
+      // A binary codec only ever gets binary frames back. A text frame here
       // likely means a misconfigured server or a leaked HTTP error — surface it.
-      console.warn('[intent.js] Received unexpected text frame from gateway:', data.toString());
+      console.warn('[intent.js] Received unexpected text frame from gateway:', frame.toString());
       return;
     }
+    this._receive(frame);
+  }
+
+  private _receive(data: Buffer): void {
     try {
-      const payload = decode(this._toBuffer(data));
-      if (payload.s != null) this.seq = payload.s;
+      const payload = this.codec.decode(data);
+      if (payload.s != null) {
+        // Replay after a resume can overlap what we saw before the drop —
+        // anything at or behind our cursor was already emitted once.
+        if (this.seq !== null && payload.s <= this.seq) return;
+        this.seq = payload.s;
+      }
       this._route(payload);
     } catch (err) {
       this.emit('error', err instanceof Error ? err : new Error(String(err)));
     }
   }
 
-  private _onClose(code: number): void {
+  private _onClose(code: number, reason: string): void {
     this._stopHeartbeat();
+    this.sendQueue.pause();
     this.ws = null;
+    this.decompressor?.destroy();
+    this.decompressor = null;
 
     if (this.intentionalClose) {
       this._state = GatewayState.DISCONNECTED;
       return;
     }
 
-    this._state = GatewayState.RECONNECTING;
     this.emit('disconnect', code);
+    if (isFatalCloseCode(code)) {
+      this._fail(code, `Gateway closed with ${GatewayCloseCodes[code]} (${code})${reason ? `: ${reason}` : ''}`);
+      return;
+    }
+    if (this.attempts >= this.maxAttempts) {
+      this._fail(code, `Gateway gave up after ${this.attempts} failed reconnect attempts (last close ${code})`);
+      return;
+    }
+    // The server has dropped the session — resuming would only be refused
+    if (code === GatewayCloseCodes.INVALID_SEQ || code === GatewayCloseCodes.SESSION_TIMED_OUT) this._resetSession();
+    this._state = GatewayState.RECONNECTING;
     this._scheduleReconnect();
   }
 
+  /** Stop for good — no reconnect, queued frames rejected, `fatal` emitted */
+  private _fail(code: number, message: string): void {
+    this._state = GatewayState.DISCONNECTED;
+    this.attempts = 0;
+    this._resetSession();
+    this.sendQueue.clear((payload) => new GatewaySendError(payload.op, 'the gateway stopped'));
+    this.emit('fatal', new GatewayError(code, message, this.shardId));
+  }
+
   // ---- opcode routing ----
 
   private _route(payload: GatewayPayload): void {
@@ -123,12 +339,21 @@ export class Gateway extends EventEmitter {
       case Opcodes.READY:
         this._onReady(payload.d as ReadyData);
         break;
+      case Opcodes.RESUMED:
+        this._onResumed();
+        break;
+      case Opcodes.INVALID_SESSION:
+        this._onInvalidSession(payload.d === true);
+        break;
       case Opcodes.DISPATCH:
+        if (this.resuming) this.replayed++;
+        this.emit('dispatch', payload as GatewayDispatchPayload);
         if (payload.t) this.emit(payload.t, payload.d);
         break;
       case Opcodes.HEARTBEAT_ACK:
         this.awaitingAck = false;
         this.missed = 0;
+        this._ping = Date.now() - this.lastBeatAt;
         break;
     }
   }
@@ -136,11 +361,29 @@ export class Gateway extends EventEmitter {
   private _onReady(data: ReadyData): void {
     this._state   = GatewayState.CONNECTED;
     this.attempts = 0;
+    this.sessionId   = data.session_id ?? null;
     this.heartbeatMs = data.heartbeat_interval;
     this._startHeartbeat();
+    this.sendQueue.open();
     this.emit('READY', data);
   }
 
+  private _onResumed(): void {
+    this._state    = GatewayState.CONNECTED;
+    this.attempts  = 0;
+    this.resuming  = false;
+    this._startHeartbeat();
+    this.sendQueue.open();
+    this.emit('resumed', this.replayed);
+  }
+
+  private _onInvalidSession(resumable: InvalidSessionData): void {
+    this.emit('invalidated', resumable);
+    // Same socket stays open — the server expects a fresh Resume or Identify on it
+    if (resumable) this._resume();
+    else this._identify();
+  }
+
   // ---- heartbeat ----
 
   private _startHeartbeat(): void {
@@ -171,26 +414,38 @@ export class Gateway extends EventEmitter {
   private _beat(): void {
     this._send({ op: Opcodes.HEARTBEAT, d: this.seq });
     this.awaitingAck = true;
+    this.lastBeatAt  = Date.now();
   }
 
   // ---- reconnection ----
 
   private _scheduleReconnect(): void {
     if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
-    const base  = Math.min(RECONNECT_BASE_MS * 2 ** this.attempts, RECONNECT_MAX_MS);
-    const delay = base * (0.75 + Math.random() * 0.5); // ±25% jitter
+    const attempt = ++this.attempts;
+    const delay   = Math.max(0, this.backoff(attempt));
+    this.emit('reconnecting', attempt, delay);
     this.reconnectTimer = setTimeout(() => {
-      this.attempts++;
+      this.reconnectTimer = null;
       this.connect();
     }, delay);
   }
 
   // ---- helpers ----
 
+  private _resetSession(): void {
+    this.sessionId = null;
+    this.seq       = null;
+  }
+
+  /** Heartbeats, IDENTIFY and RESUME — spend a token but never wait behind the queue */
   private _send(payload: GatewayPayload): void {
-    if (this.ws && this.ws.readyState === WebSocket.OPEN) {
-      this.ws.send(encode(payload));
-    }
+    this.sendQueue.sendPriority(payload);
+  }
+
+  private _write(payload: GatewayPayload): boolean {
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) return false;
+    this.ws.send(this.codec.encode(payload));
+    return true;
   }
 
   private _teardown(): void {
@@ -0,0 +1,97 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { SendQueue } from './SendQueue';
+import { GatewaySendError } from './errors';
+import { Opcodes, type GatewayPayload } from './types';
+
+function frame(d: number): GatewayPayload {
+  return { op: Opcodes.PRESENCE_UPDATE, d };
+}
+
+describe('SendQueue', () => {
+  let written: GatewayPayload[];
+  let writable: boolean;
+  let queue: SendQueue;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    written = [];
+    writable = true;
+    queue = new SendQueue((p) => writable && written.push(p) > 0, { limit: 5, interval: 1_000, reserved: 2 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('holds queued frames until the session opens', async () => {
+    const sent = queue.enqueue(frame(1));
+    expect(written).toEqual([]);
+    expect(queue.size).toBe(1);
+
+    queue.open();
+    await sent;
+    expect(written).toEqual([frame(1)]);
+    expect(queue.size).toBe(0);
+  });
+
+  it('keeps the reserved tokens for priority frames and refills over the interval', () => {
+    queue.open();
+    for (let i = 0; i < 5; i++) void queue.enqueue(frame(i));
+    expect(written).toHaveLength(3);
+    expect(queue.available).toBe(0);
+
+    // heartbeats still go out with the bucket at the reserve
+    queue.sendPriority({ op: Opcodes.HEARTBEAT, d: null });
+    queue.sendPriority({ op: Opcodes.HEARTBEAT, d: null });
+    expect(written).toHaveLength(5);
+
+    // 5 per second: back above the reserve after 600ms, then one every 200ms
+    vi.advanceTimersByTime(599);
+    expect(written).toHaveLength(5);
+    vi.advanceTimersByTime(1);
+    expect(written).toHaveLength(6);
+    vi.advanceTimersByTime(200);
+    expect(written.map((p) => p.d)).toEqual([0, 1, 2, null, null, 3, 4]);
+  });
+
+  it('replaces a queued frame with the same key', async () => {
+    const first = queue.enqueue(frame(1), 'presence');
+    const second = queue.enqueue(frame(2), 'presence');
+    expect(queue.size).toBe(1);
+
+    queue.open();
+    await Promise.all([first, second]);
+    expect(written).toEqual([frame(2)]);
+  });
+
+  it('survives a socket that goes away mid-drain', () => {
+    writable = false;
+    queue.open();
+    void queue.enqueue(frame(1));
+    expect(queue.size).toBe(1);
+
+    queue.pause();
+    writable = true;
+    queue.open();
+    expect(written).toEqual([frame(1)]);
+  });
+
+  it('spends no token on a priority frame the closed socket refused', () => {
+    writable = false;
+    for (let i = 0; i < 5; i++) expect(queue.sendPriority({ op: Opcodes.HEARTBEAT, d: null })).toBe(false);
+
+    writable = true;
+    queue.open();
+    for (let i = 0; i < 3; i++) void queue.enqueue(frame(i));
+    expect(written).toHaveLength(3);
+  });
+
+  it('rejects everything queued on clear()', async () => {
+    const sent = queue.enqueue(frame(1));
+    queue.clear((p) => new GatewaySendError(p.op, 'shut down'));
+
+    await expect(sent).rejects.toBeInstanceOf(GatewaySendError);
+    await expect(sent).rejects.toThrow('op 4 was not sent: shut down');
+    expect(queue.size).toBe(0);
+  });
+});
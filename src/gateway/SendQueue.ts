@@ -0,0 +1,141 @@
+import type { GatewayPayload } from './types';
+
+export interface SendQueueOptions {
+  /** Frames the server accepts per interval — defaults to 120 */
+  limit?: number;
+  /** Window in ms — defaults to 60000 */
+  interval?: number;
+  /** Tokens held back for priority frames, so heartbeats always get through — defaults to 3 */
+  reserved?: number;
+}
+
+interface Pending {
+  payload: GatewayPayload;
+  key?: string;
+  settlers: { resolve: () => void; reject: (err: Error) => void }[];
+}
+
+/**
+ * Token bucket for outbound gateway frames.
+ *
+ * Priority frames (heartbeats, IDENTIFY, RESUME) are written at once and
+ * never wait. Everything else queues and drains only while the session is
+ * open, and only while more than `reserved` tokens are left. The queue lives
+ * across reconnects: pause() holds it, open() drains it on the new session.
+ */
+export class SendQueue {
+  readonly limit: number;
+  readonly interval: number;
+  readonly reserved: number;
+
+  readonly #write: (payload: GatewayPayload) => boolean;
+  readonly #queue: Pending[] = [];
+  #tokens: number;
+  #refilledAt = Date.now();
+  #open = false;
+  #timer: ReturnType<typeof setTimeout> | null = null;
+
+  /** `write` returns false when the socket can't take the frame right now */
+  constructor(write: (payload: GatewayPayload) => boolean, options: SendQueueOptions = {}) {
+    this.#write    = write;
+    this.limit     = options.limit ?? 120;
+    this.interval  = options.interval ?? 60_000;
+    this.reserved  = Math.min(options.reserved ?? 3, this.limit - 1);
+    this.#tokens   = this.limit;
+  }
+
+  /** Frames waiting to go out */
+  get size(): number {
+    return this.#queue.length;
+  }
+
+  /** Queued frames that could go out right now, before the limiter holds them */
+  get available(): number {
+    this.#refill();
+    return Math.max(0, Math.floor(this.#tokens) - this.reserved);
+  }
+
+  /** Write now, skipping the queue. Still spends a token, if the frame went out. */
+  sendPriority(payload: GatewayPayload): boolean {
+    this.#refill();
+    if (!this.#write(payload)) return false;
+    this.#tokens = Math.max(0, this.#tokens - 1);
+    return true;
+  }
+
+  /**
+   * Queue a frame. Resolves once it's written. A queued frame with the same
+   * `key` is replaced in place, so bursts of e.g. presence changes cost one send.
+   */
+  enqueue(payload: GatewayPayload, key?: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const existing = key === undefined ? undefined : this.#queue.find((p) => p.key === key);
+      if (existing) {
+        existing.payload = payload;
+        existing.settlers.push({ resolve, reject });
+      } else {
+        this.#queue.push({ payload, key, settlers: [{ resolve, reject }] });
+      }
+      this.#drain();
+    });
+  }
+
+  /** Drop a keyed frame because something else already carried it — its promise resolves */
+  discard(key: string): void {
+    const index = this.#queue.findIndex((p) => p.key === key);
+    if (index === -1) return;
+    for (const s of this.#queue.splice(index, 1)[0].settlers) s.resolve();
+  }
+
+  /** The session is up — start draining */
+  open(): void {
+    this.#open = true;
+    this.#drain();
+  }
+
+  /** The socket went away — hold queued frames for the next session */
+  pause(): void {
+    this.#open = false;
+    this.#clearTimer();
+  }
+
+  /** Reject and drop every queued frame */
+  clear(error: (payload: GatewayPayload) => Error): void {
+    this.pause();
+    for (const pending of this.#queue.splice(0)) {
+      const err = error(pending.payload);
+      for (const s of pending.settlers) s.reject(err);
+    }
+  }
+
+  #refill(): void {
+    const now = Date.now();
+    this.#tokens = Math.min(this.limit, this.#tokens + ((now - this.#refilledAt) * this.limit) / this.interval);
+    this.#refilledAt = now;
+  }
+
+  #drain(): void {
+    this.#clearTimer();
+    if (!this.#open) return;
+    this.#refill();
+
+    while (this.#queue.length > 0 && this.#tokens - 1 >= this.reserved) {
+      const pending = this.#queue[0];
+      // Socket already gone — keep the frame for the next open()
+      if (!this.#write(pending.payload)) return;
+      this.#queue.shift();
+      this.#tokens--;
+      for (const s of pending.settlers) s.resolve();
+    }
+
+    if (this.#queue.length > 0) {
+      const wait = ((this.reserved + 1 - this.#tokens) * this.interval) / this.limit;
+      this.#timer = setTimeout(() => this.#drain(), Math.ceil(wait));
+    }
+  }
+
+  #clearTimer(): void {
+    if (this.#timer) clearTimeout(this.#timer);
+    this.#timer = null;
+  }
+}
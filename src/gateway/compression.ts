@@ -0,0 +1,81 @@
+import * as zlib from 'zlib';
+import type { Transform } from 'stream';
+
+/**
+ * Transport compression, requested with the `compress` query parameter.
+ * The server compresses everything it sends on the connection as one
+ * continuous stream; what we send stays uncompressed.
+ */
+export type GatewayCompression = 'zlib-stream' | 'zstd-stream';
+
+/** zlib marks the end of each flushed message with an empty stored block */
+const ZLIB_SUFFIX = Buffer.from([0x00, 0x00, 0xff, 0xff]);
+
+// zstd landed in node:zlib in Node 22.15 — older runtimes don't have it
+type ZstdFactory = (options?: { chunkSize?: number }) => Transform;
+const createZstdDecompress = (zlib as unknown as { createZstdDecompress?: ZstdFactory }).createZstdDecompress;
+
+/**
+ * Throw unless this runtime can decompress `kind` — checked when a Gateway is
+ * created, so an unusable setting fails there rather than on connect.
+ */
+export function assertCompressionSupported(kind: GatewayCompression): void {
+  if (kind === 'zlib-stream') return;
+  if (kind !== 'zstd-stream') throw new Error(`Unknown gateway compression: ${String(kind)}`);
+  if (!createZstdDecompress) throw new Error('zstd-stream compression needs Node.js 22.15 or newer');
+}
+
+/**
+ * Inflates one connection's inbound frames. Needs one instance per socket:
+ * each frame is decoded against the dictionary built up by every frame
+ * before it, so the context can't be shared across connections or reset
+ * mid-stream.
+ */
+export class Decompressor {
+  readonly #stream: Transform;
+  readonly #zlib: boolean;
+  #output: Buffer[] = [];
+
+  constructor(kind: GatewayCompression) {
+    assertCompressionSupported(kind);
+    this.#stream = kind === 'zlib-stream'
+      ? zlib.createInflate({ flush: zlib.constants.Z_SYNC_FLUSH, chunkSize: 64 * 1024 })
+      : createZstdDecompress!({ chunkSize: 64 * 1024 });
+    this.#zlib = kind === 'zlib-stream';
+    this.#stream.on('data', (chunk: Buffer) => this.#output.push(chunk));
+    // Write callbacks carry the error; this only stops an unhandled 'error' event
+    this.#stream.on('error', () => {});
+  }
+
+  /**
+   * Feed one frame. Resolves with a whole decompressed payload, or null when
+   * the frame was only part of one — a zlib message can span several frames
+   * and is complete once a frame ends with the flush suffix.
+   */
+  push(frame: Buffer): Promise<Buffer | null> {
+    return new Promise((resolve, reject) => {
+      this.#stream.write(frame, (err) => {
+        if (err) {
+          reject(err);
+          return;
+        }
+        if (this.#zlib && !endsWithSuffix(frame)) {
+          resolve(null);
+          return;
+        }
+        const payload = Buffer.concat(this.#output);
+        this.#output = [];
+        resolve(payload);
+      });
+    });
+  }
+
+  destroy(): void {
+    this.#stream.destroy();
+    this.#output = [];
+  }
+}
+
+function endsWithSuffix(frame: Buffer): boolean {
+  return frame.length >= 4 && frame.subarray(-4).equals(ZLIB_SUFFIX);
+}
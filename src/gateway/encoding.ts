@@ -16,3 +16,40 @@ export function encode(payload: GatewayPayload): Uint8Array {
 export function decode(data: Buffer | Uint8Array): GatewayPayload {
   return unpack(data) as GatewayPayload;
 }
+
+/**
+ * Wire format for gateway payloads. `name` is sent as the `encoding` query
+ * parameter when connecting, so the server knows what to speak back.
+ */
+export interface GatewayCodec {
+  name: string;
+  /** Whether frames are sent as binary rather than text */
+  binary: boolean;
+  encode(payload: GatewayPayload): Uint8Array | string;
+  /** Receives the frame bytes — utf-8 text for text frames */
+  decode(data: Buffer): GatewayPayload;
+}
+
+export type GatewayEncoding = 'msgpack' | 'json' | GatewayCodec;
+
+export const msgpackCodec: GatewayCodec = {
+  name: 'msgpack',
+  binary: true,
+  encode,
+  decode,
+};
+
+/** Plain JSON text frames — readable in a packet capture */
+export const jsonCodec: GatewayCodec = {
+  name: 'json',
+  binary: false,
+  encode: (payload) => JSON.stringify(payload),
+  decode: (data) => JSON.parse(data.toString('utf8')) as GatewayPayload,
+};
+
+export function resolveCodec(encoding: GatewayEncoding = 'msgpack'): GatewayCodec {
+  if (typeof encoding !== 'string') return encoding;
+  if (encoding === 'msgpack') return msgpackCodec;
+  if (encoding === 'json') return jsonCodec;
+  throw new Error(`Unknown gateway encoding: ${String(encoding)}`);
+}
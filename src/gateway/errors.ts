@@ -0,0 +1,30 @@
+import { IntentError } from '../rest/errors';
+
+/** A queued outbound frame was dropped before it went out, because the gateway was shut down */
+export class GatewaySendError extends IntentError {
+  /** Opcode of the frame that was dropped */
+  public readonly op: number;
+
+  constructor(op: number, reason: string) {
+    super(`Gateway frame with op ${op} was not sent: ${reason}`);
+    this.name = 'GatewaySendError';
+    this.op = op;
+  }
+}
+
+/**
+ * The gateway stopped and won't reconnect — it closed with a fatal code such
+ * as AUTHENTICATION_FAILED, or ran out of reconnect attempts.
+ */
+export class GatewayError extends IntentError {
+  /** The close code that ended the connection */
+  public readonly code: number;
+  public readonly shardId: number;
+
+  constructor(code: number, message: string, shardId: number) {
+    super(message);
+    this.name = 'GatewayError';
+    this.code = code;
+    this.shardId = shardId;
+  }
+}
@@ -1,3 +1,28 @@
-export { encode, decode } from './encoding';
-export { GatewayState, Opcodes } from './types';
-export type { GatewayPayload, IdentifyData, ReadyData, Opcode } from './types';
+export { encode, decode, msgpackCodec, jsonCodec, type GatewayCodec, type GatewayEncoding } from './encoding';
+export type { GatewayCompression } from './compression';
+export { GatewayError, GatewaySendError } from './errors';
+export { defaultBackoff, type ReconnectPolicy } from './Gateway';
+export type { SendQueueOptions } from './SendQueue';
+export { GatewayState, GatewayCloseCodes, Opcodes, ActivityTypes, isDispatch, isFatalCloseCode } from './types';
+export type {
+  GatewayDispatchEvents,
+  GatewayDispatchEvent,
+  GatewayDispatchPayload,
+  GatewayEvents,
+  MessageDeleteData,
+  MessageDeleteBulkData,
+  MessageReactionData,
+  ServerDeleteData,
+  MemberRemoveData,
+  RoleDeleteData,
+  GatewayPayload,
+  IdentifyData,
+  ReadyData,
+  ResumeData,
+  InvalidSessionData,
+  PresenceUpdateData,
+  PresenceStatus,
+  ActivityType,
+  RawActivity,
+  Opcode,
+} from './types';
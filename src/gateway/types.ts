@@ -6,18 +6,60 @@ export enum GatewayState {
   RECONNECTING = 'RECONNECTING',
 }
 
-/** Phase 1 implemented opcodes */
+/** Implemented opcodes */
 export const Opcodes = {
-  DISPATCH:      0,
-  HEARTBEAT:     1,
-  IDENTIFY:      2,
-  READY:         3,
-  HEARTBEAT_ACK: 11,
+  DISPATCH:        0,
+  HEARTBEAT:       1,
+  IDENTIFY:        2,
+  READY:           3,
+  PRESENCE_UPDATE: 4,
+  RESUME:          6,
+  RESUMED:         7,
+  INVALID_SESSION: 9,
+  HEARTBEAT_ACK:   11,
 } as const;
 
 export type Opcode = (typeof Opcodes)[keyof typeof Opcodes];
 
-import type { RawUser, RawServer } from '../types';
+/** Close codes the gateway sends, 4000 and up */
+export enum GatewayCloseCodes {
+  UNKNOWN_ERROR         = 4000,
+  UNKNOWN_OPCODE        = 4001,
+  DECODE_ERROR          = 4002,
+  NOT_AUTHENTICATED     = 4003,
+  AUTHENTICATION_FAILED = 4004,
+  ALREADY_AUTHENTICATED = 4005,
+  /** The session can't resume — reconnects identify fresh */
+  INVALID_SEQ           = 4007,
+  RATE_LIMITED          = 4008,
+  /** The session can't resume — reconnects identify fresh */
+  SESSION_TIMED_OUT     = 4009,
+  INVALID_SHARD         = 4010,
+  SHARDING_REQUIRED     = 4011,
+  INVALID_ENCODING      = 4012,
+  INVALID_COMPRESSION   = 4013,
+  INVALID_INTENTS       = 4014,
+  /** Privileged intents requested without being enabled for the bot */
+  DISALLOWED_INTENTS    = 4015,
+}
+
+const FATAL_CLOSE_CODES: ReadonlySet<number> = new Set([
+  GatewayCloseCodes.AUTHENTICATION_FAILED,
+  GatewayCloseCodes.INVALID_SHARD,
+  GatewayCloseCodes.SHARDING_REQUIRED,
+  GatewayCloseCodes.INVALID_ENCODING,
+  GatewayCloseCodes.INVALID_COMPRESSION,
+  GatewayCloseCodes.INVALID_INTENTS,
+  GatewayCloseCodes.DISALLOWED_INTENTS,
+]);
+
+/** Codes that would fail the same way on every retry — the gateway stops instead of reconnecting */
+export function isFatalCloseCode(code: number): boolean {
+  return FATAL_CLOSE_CODES.has(code);
+}
+
+import type { RawUser, RawServer, RawChannel, RawMessage, RawMember, RawRole, RawEmoji } from '../types';
+import type { GatewayError } from './errors';
 
 /** Base wire format shared by all gateway messages */
 export interface GatewayPayload<D = unknown> {
@@ -27,6 +69,33 @@ export interface GatewayPayload<D = unknown> {
   s?: number;  // sequence number — Dispatch only
 }
 
+export type PresenceStatus = 'online' | 'idle' | 'dnd' | 'invisible';
+
+export const ActivityTypes = {
+  PLAYING:   0,
+  STREAMING: 1,
+  LISTENING: 2,
+  WATCHING:  3,
+  /** Free text — `name` is shown as-is */
+  CUSTOM:    4,
+  COMPETING: 5,
+} as const;
+
+export type ActivityType = (typeof ActivityTypes)[keyof typeof ActivityTypes];
+
+export interface RawActivity {
+  name: string;
+  type: ActivityType;
+  /** STREAMING only */
+  url?: string | null;
+}
+
+/** Data carried in Presence Update (op 4), and in Identify as the initial presence */
+export interface PresenceUpdateData {
+  status: PresenceStatus;
+  activity: RawActivity | null;
+}
+
 /** Data carried in Identify (op 2) */
 export interface IdentifyData {
   token: string;
@@ -35,11 +104,150 @@ export interface IdentifyData {
     browser: string;
     device: string;
   };
+  /** [shard_id, shard_count] — omitted for unsharded connections */
+  shard?: [number, number];
+  /** Intent bitfield — omitted to receive every event */
+  intents?: number;
+  /** Presence to show from the moment the session starts */
+  presence?: PresenceUpdateData;
 }
 
 /** Data carried in Ready (op 3) */
 export interface ReadyData {
   user: RawUser;
   servers: RawServer[];
+  session_id: string;
   heartbeat_interval: number;
 }
+
+/** Data carried in Resume (op 6) */
+export interface ResumeData {
+  token: string;
+  session_id: string;
+  seq: number;
+}
+
+/**
+ * Data carried in Invalid Session (op 9) — whether the session can still be
+ * resumed. false means the server has discarded it and we must re-identify.
+ */
+export type InvalidSessionData = boolean;
+
+/** Data carried in MESSAGE_DELETE — the message itself is gone, only ids remain */
+export interface MessageDeleteData {
+  id: string;
+  channel_id: string;
+}
+
+/** Data carried in MESSAGE_DELETE_BULK */
+export interface MessageDeleteBulkData {
+  ids: string[];
+  channel_id: string;
+}
+
+/**
+ * Data carried in SERVER_DELETE. `unavailable` means an outage rather than
+ * removal — the server comes back later with a SERVER_CREATE.
+ */
+export interface ServerDeleteData {
+  id: string;
+  unavailable?: boolean;
+}
+
+/** Data carried in SERVER_MEMBER_REMOVE */
+export interface MemberRemoveData {
+  server_id: string;
+  user: RawUser;
+}
+
+/** Data carried in SERVER_ROLE_DELETE */
+export interface RoleDeleteData {
+  server_id: string;
+  role_id: string;
+}
+
+/**
+ * Data carried in MESSAGE_REACTION_ADD and MESSAGE_REACTION_REMOVE. `member`
+ * is only sent on adds inside a server.
+ */
+export interface MessageReactionData {
+  user_id: string;
+  channel_id: string;
+  message_id: string;
+  server_id?: string;
+  emoji: RawEmoji;
+  member?: RawMember;
+}
+
+/**
+ * Every dispatch the SDK models: event name → raw `d` payload. Gateway,
+ * ShardManager and Client listeners are all typed from this map. Dispatches
+ * not listed here still arrive — as untyped events on Gateway and through
+ * Client's `raw` event.
+ */
+export interface GatewayDispatchEvents {
+  MESSAGE_CREATE: RawMessage;
+  MESSAGE_UPDATE: RawMessage;
+  MESSAGE_DELETE: MessageDeleteData;
+  MESSAGE_DELETE_BULK: MessageDeleteBulkData;
+  MESSAGE_REACTION_ADD: MessageReactionData;
+  MESSAGE_REACTION_REMOVE: MessageReactionData;
+  SERVER_CREATE: RawServer;
+  SERVER_UPDATE: RawServer;
+  SERVER_DELETE: ServerDeleteData;
+  CHANNEL_CREATE: RawChannel;
+  CHANNEL_UPDATE: RawChannel;
+  CHANNEL_DELETE: RawChannel;
+  THREAD_CREATE: RawChannel;
+  THREAD_UPDATE: RawChannel;
+  THREAD_DELETE: RawChannel;
+  SERVER_MEMBER_ADD: RawMember;
+  SERVER_MEMBER_UPDATE: RawMember;
+  SERVER_MEMBER_REMOVE: MemberRemoveData;
+  SERVER_ROLE_CREATE: RawRole;
+  SERVER_ROLE_UPDATE: RawRole;
+  SERVER_ROLE_DELETE: RoleDeleteData;
+}
+
+export type GatewayDispatchEvent = keyof GatewayDispatchEvents;
+
+/** A Dispatch (op 0) frame as received — `t` may name an event the SDK doesn't model */
+export interface GatewayDispatchPayload<T extends string = string, D = unknown> extends GatewayPayload<D> {
+  op: typeof Opcodes.DISPATCH;
+  t: T;
+  s: number;
+  d: D;
+}
+
+/**
+ * Narrow a raw dispatch to a modelled event.
+ *
+ * @example
+ * client.on('raw', (payload) => {
+ *   if (isDispatch(payload, 'MESSAGE_CREATE')) console.log(payload.d.content)
+ * })
+ */
+export function isDispatch<K extends GatewayDispatchEvent>(
+  payload: GatewayDispatchPayload,
+  t: K,
+): payload is GatewayDispatchPayload<K, GatewayDispatchEvents[K]> {
+  return payload.t === t;
+}
+
+/** Events emitted by a single Gateway connection */
+export type GatewayEvents = {
+  [K in GatewayDispatchEvent]: [data: GatewayDispatchEvents[K]];
+} & {
+  READY: [data: ReadyData];
+  /** Every dispatch, modelled or not */
+  dispatch: [payload: GatewayDispatchPayload];
+  /** Session resumed — how many missed dispatches the server replayed */
+  resumed: [replayed: number];
+  invalidated: [resumable: InvalidSessionData];
+  disconnect: [code: number];
+  /** A reconnect is scheduled — `attempt` counts from 1 since the last successful session */
+  reconnecting: [attempt: number, delay: number];
+  /** The gateway stopped for good: a fatal close code, or out of reconnect attempts */
+  fatal: [error: GatewayError];
+  error: [err: Error];
+};
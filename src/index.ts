@@ -6,17 +6,109 @@
 
 // Core client
 export { Client } from './client/Client';
-export type { ClientOptions, ReadyEvent, MessageDeletePayload } from './client/Client';
+export { WebhookClient } from './client/WebhookClient';
+export type { WebhookClientData, WebhookClientOptions } from './client/WebhookClient';
+export type {
+  ClientOptions,
+  ClientCacheOptions,
+  ReadyEvent,
+  MessageDeletePayload,
+  MessageDeleteBulkPayload,
+  ServerDeletePayload,
+  MemberLeavePayload,
+  MessageReactionPayload,
+  PresenceData,
+  ActivityOptions,
+} from './client/Client';
+
+// Cache & managers
+export { StructureCache } from './cache';
+export type { CacheOptions } from './cache';
+export { CachedManager } from './managers/CachedManager';
+export type { FetchOptions } from './managers/CachedManager';
+export { ServerManager } from './managers/ServerManager';
+export { ChannelManager } from './managers/ChannelManager';
+export { UserManager } from './managers/UserManager';
+export { ServerChannelManager } from './managers/ServerChannelManager';
+export { MessageManager } from './managers/MessageManager';
+export { MemberManager } from './managers/MemberManager';
+export { RoleManager } from './managers/RoleManager';
+export { ServerMemberManager } from './managers/ServerMemberManager';
+export { ServerRoleManager } from './managers/ServerRoleManager';
+export type { MessageHistoryOptions } from './managers/MessageManager';
 
 // Structures
 export { Message } from './structures/Message';
+export type { MessageReference } from './structures/Message';
 export { Server } from './structures/Server';
-export { Channel } from './structures/Channel';
+export { Channel, ChannelTypes } from './structures/Channel';
+export { ThreadChannel } from './structures/ThreadChannel';
 export { User } from './structures/User';
+export { ClientUser } from './structures/ClientUser';
+export { Embed } from './structures/Embed';
+export type { EmbedField, EmbedAuthor, EmbedFooter, EmbedImage } from './structures/Embed';
+export { Attachment } from './structures/Attachment';
+export { Member } from './structures/Member';
+export { Role } from './structures/Role';
+export { Reaction, ReactionEmoji } from './structures/Reaction';
+export type { EmojiResolvable } from './structures/Reaction';
+
+// Builders
+export { EmbedBuilder, EmbedLimits, MAX_FILES_PER_MESSAGE } from './builders';
+export type { ColorResolvable, MessageOptions, ReplyOptions, WebhookMessageOptions, EmbedResolvable, FileResolvable } from './builders';
+
+// Permissions & intents
+export { BitField, Permissions, PermissionFlags, computePermissions, IntentsBitField, IntentFlags } from './util';
+export type {
+  BitFieldResolvable,
+  IntentFlag,
+  IntentResolvable,
+  PermissionFlag,
+  PermissionResolvable,
+  PermissionOverwrite,
+  PermissionContext,
+} from './util';
+
+// Commands
+export { CommandHandler, ArgumentError, CommandError } from './commands';
+export type {
+  CommandDefinition,
+  CommandInfo,
+  CommandHandlerOptions,
+  ArgTypes,
+  ArgType,
+  ArgDefinition,
+  ParsedArgs,
+} from './commands';
 
 // REST
-export { REST } from './rest';
-export type { RequestMethod } from './rest';
+export { REST, RESTProxy, MemoryRateLimitStore, takeFromState } from './rest';
+export type {
+  RequestMethod,
+  UpdateServerData,
+  CreateChannelData,
+  UpdateChannelData,
+  ListMessagesQuery,
+  CreateMessageData,
+  UpdateMessageData,
+  CreateThreadData,
+  UpdateThreadData,
+  ListMembersQuery,
+  UpdateMemberData,
+  ListReactionUsersQuery,
+  CreateWebhookData,
+  ExecuteWebhookData,
+  RawFile,
+  RateLimitStore,
+  RateLimitState,
+  RESTEvents,
+  RESTInterceptor,
+  RESTRequest,
+  RESTResponse,
+  RateLimitInfo,
+  RetryInfo,
+  RetryReason,
+} from './rest';
 export {
   IntentError,
   HTTPError,
@@ -27,11 +119,78 @@ export {
   ServerError,
 } from './rest';
 
-// Gateway state (useful for bots checking connection status)
-export { GatewayState } from './gateway';
+// Gateway state (useful for bots checking connection status) and wire formats
+export {
+  GatewayState,
+  GatewayCloseCodes,
+  Opcodes,
+  ActivityTypes,
+  msgpackCodec,
+  jsonCodec,
+  isDispatch,
+  isFatalCloseCode,
+  defaultBackoff,
+  GatewayError,
+  GatewaySendError,
+} from './gateway';
+export type {
+  ReconnectPolicy,
+  SendQueueOptions,
+  GatewayCodec,
+  GatewayEncoding,
+  GatewayCompression,
+  GatewayPayload,
+  GatewayDispatchEvents,
+  GatewayDispatchEvent,
+  GatewayDispatchPayload,
+  MessageDeleteData,
+  MessageDeleteBulkData,
+  MessageReactionData,
+  ServerDeleteData,
+  MemberRemoveData,
+  RoleDeleteData,
+  PresenceUpdateData,
+  PresenceStatus,
+  ActivityType,
+  RawActivity,
+} from './gateway';
+
+// Sharding
+export { ShardManager, ClusterManager, ClusterClient, Cluster } from './sharding';
+export type {
+  ShardManagerOptions,
+  ShardManagerEvents,
+  ShardStatus,
+  ClusterMode,
+  ClusterManagerOptions,
+  ClusterManagerEvents,
+  BroadcastEvalOptions,
+  ClusterTransport,
+  EvalFunction,
+} from './sharding';
 
 // Shared raw types
-export type { RawUser, RawServer, RawChannel, RawMessage } from './types';
+export type {
+  RawUser,
+  RawServer,
+  RawChannel,
+  RawMessage,
+  RawEmbed,
+  RawEmbedField,
+  RawEmbedAuthor,
+  RawEmbedFooter,
+  RawEmbedImage,
+  RawAttachment,
+  RawMember,
+  RawRole,
+  RawPermissionOverwrite,
+  RawEmoji,
+  RawReaction,
+  RawMessageReference,
+  RawAllowedMentions,
+  RawThreadMetadata,
+  RawWebhook,
+} from './types';
 
 // Version
 export const version = '0.1.0';
@@ -0,0 +1,43 @@
+import { StructureCache, type CacheOptions } from '../cache';
+import type { ClientRef } from '../client/ClientRef';
+
+export interface FetchOptions {
+  /** Skip the cache and always hit the API */
+  force?: boolean;
+}
+
+/**
+ * Base for client-level managers. The manager *is* the cache, so
+ * `client.servers.get(id)` stays synchronous, and adds fetch() on top
+ * for cache misses.
+ */
+export abstract class CachedManager<T extends { id: string }, R> extends StructureCache<T> {
+  protected readonly client: ClientRef;
+
+  constructor(client: ClientRef, options?: CacheOptions<T> | false) {
+    super(options);
+    this.client = client;
+  }
+
+  protected abstract construct(raw: R): T;
+  protected abstract fetchRaw(id: string): Promise<R>;
+
+  /**
+   * Wrap raw API data in a structure and cache it.
+   * @internal used by Client and structure methods to keep the cache current
+   */
+  _add(raw: R): T {
+    const structure = this.construct(raw);
+    this.set(structure.id, structure);
+    return structure;
+  }
+
+  /** Resolve from cache, falling back to the API on a miss */
+  async fetch(id: string, options: FetchOptions = {}): Promise<T> {
+    if (!options.force) {
+      const cached = this.get(id);
+      if (cached) return cached;
+    }
+    return this._add(await this.fetchRaw(id));
+  }
+}
@@ -0,0 +1,21 @@
+import { CachedManager } from './CachedManager';
+import { Channel, isThreadType } from '../structures/Channel';
+import { ThreadChannel } from '../structures/ThreadChannel';
+import type { ClientRef } from '../client/ClientRef';
+import type { RawChannel } from '../types';
+
+/** `client.channels` — cache of channels across all servers, with fetch() for the rest */
+export class ChannelManager extends CachedManager<Channel, RawChannel> {
+  /** Wrap raw data as a ThreadChannel or a plain Channel by its type, without caching it */
+  static construct(raw: RawChannel, client: ClientRef): Channel {
+    return isThreadType(raw.type) ? new ThreadChannel(raw, client) : new Channel(raw, client);
+  }
+
+  protected construct(raw: RawChannel): Channel {
+    return ChannelManager.construct(raw, this.client);
+  }
+
+  protected fetchRaw(id: string): Promise<RawChannel> {
+    return this.client.rest.getChannel(id);
+  }
+}
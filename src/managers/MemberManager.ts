@@ -0,0 +1,39 @@
+import { StructureCache, type CacheOptions } from '../cache';
+import type { ClientRef } from '../client/ClientRef';
+import { Member } from '../structures/Member';
+import type { RawMember } from '../types';
+
+/**
+ * `client.members` — every cached membership across all servers, keyed by
+ * `serverId:userId`. The same user has one entry per server they share with
+ * the bot. Look members up through `server.members`; this is the store behind it.
+ */
+export class MemberManager extends StructureCache<Member> {
+  readonly #client: ClientRef;
+
+  constructor(client: ClientRef, options?: CacheOptions<Member> | false) {
+    super(options);
+    this.#client = client;
+  }
+
+  static key(serverId: string, userId: string): string {
+    return `${serverId}:${userId}`;
+  }
+
+  /**
+   * Wrap raw member data and cache it.
+   * @internal used by Client and structure methods to keep the cache current
+   */
+  _add(raw: RawMember): Member {
+    const member = new Member(raw, this.#client);
+    this.set(MemberManager.key(member.serverId, member.id), member);
+    return member;
+  }
+
+  /** @internal drop every member of a server the bot left */
+  _removeServer(serverId: string): void {
+    for (const [key, member] of this) {
+      if (member.serverId === serverId) this.delete(key);
+    }
+  }
+}
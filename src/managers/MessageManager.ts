@@ -0,0 +1,107 @@
+import type { ClientRef } from '../client/ClientRef';
+import { Message } from '../structures/Message';
+import type { ListMessagesQuery } from '../rest';
+import type { RawMessage } from '../types';
+
+/** Largest page the API will return for a single list call */
+const MAX_PAGE_SIZE = 100;
+
+export interface MessageHistoryOptions {
+  /** Walk backwards (newest → oldest) from this message. The default direction, starting at the latest message. */
+  before?: string;
+  /** Walk forwards (oldest → newest) from this message */
+  after?: string;
+  /** Yield the single page centred on this message */
+  around?: string;
+  /** Stop after this many messages — unbounded by default */
+  max?: number;
+  /** Messages per request, capped at 100 */
+  pageSize?: number;
+  /** Stops iteration cleanly when aborted, cancelling a page request in flight */
+  signal?: AbortSignal;
+}
+
+/** `channel.messages` — message lookups scoped to one channel. Messages are not cached. */
+export class MessageManager {
+  readonly channelId: string;
+  readonly #client: ClientRef;
+
+  constructor(channelId: string, client: ClientRef) {
+    this.channelId = channelId;
+    this.#client   = client;
+  }
+
+  /** Fetch a single message by id, or one page of messages */
+  fetch(id: string): Promise<Message>;
+  fetch(query?: ListMessagesQuery): Promise<Message[]>;
+  async fetch(idOrQuery?: string | ListMessagesQuery): Promise<Message | Message[]> {
+    if (typeof idOrQuery === 'string') {
+      const raw = await this.#client.rest.getMessage(this.channelId, idOrQuery);
+      return new Message(raw, this.#client);
+    }
+    const raw = await this.#client.rest.listMessages(this.channelId, idOrQuery);
+    return raw.map((m) => new Message(m, this.#client));
+  }
+
+  /**
+   * Iterate channel history page by page.
+   *
+   * Each page goes through REST.listMessages, so pagination waits on the
+   * channel's rate-limit bucket like any other call. Messages are yielded in
+   * walking order — newest first for `before`, oldest first for `after`.
+   *
+   * @example
+   * for await (const msg of channel.messages.history({ max: 5000 })) archive(msg);
+   */
+  async *history(options: MessageHistoryOptions = {}): AsyncGenerator<Message, void, undefined> {
+    const { before, after, around, signal } = options;
+    if ([before, after, around].filter((c) => c !== undefined).length > 1) {
+      throw new Error('history() accepts only one of before, after or around');
+    }
+
+    const max      = options.max ?? Infinity;
+    const pageSize = Math.min(Math.max(options.pageSize ?? MAX_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+    const forward  = after !== undefined;
+    let cursor     = forward ? after : before;
+    let yielded    = 0;
+
+    while (yielded < max && !signal?.aborted) {
+      const limit = Math.min(pageSize, max - yielded);
+      const query: ListMessagesQuery = { limit };
+      if (around !== undefined) query.around = around;
+      else if (forward) query.after = cursor;
+      else if (cursor !== undefined) query.before = cursor;
+
+      let raw: RawMessage[];
+      try {
+        raw = await this.#client.rest.listMessages(this.channelId, query, signal);
+      } catch (err) {
+        if (signal?.aborted) return;
+        throw err;
+      }
+      const page = sortPage(raw, forward);
+
+      for (const raw of page) {
+        if (signal?.aborted || yielded >= max) return;
+        yielded++;
+        yield new Message(raw, this.#client);
+      }
+
+      // A short page means we've reached the end of history in this direction
+      if (around !== undefined || page.length < limit) return;
+      cursor = page[page.length - 1].id;
+    }
+  }
+}
+
+/**
+ * Order a page in walking direction. The API's own ordering isn't relied on —
+ * the cursor for the next page must be the last message in that order.
+ */
+function sortPage(page: RawMessage[], forward: boolean): RawMessage[] {
+  return [...page].sort((a, b) => {
+    const diff = BigInt(a.id) - BigInt(b.id);
+    const asc  = diff < 0n ? -1 : diff > 0n ? 1 : 0;
+    return forward ? asc : -asc;
+  });
+}
@@ -0,0 +1,34 @@
+import { StructureCache, type CacheOptions } from '../cache';
+import type { ClientRef } from '../client/ClientRef';
+import { Role } from '../structures/Role';
+import type { RawRole } from '../types';
+
+/**
+ * `client.roles` — cache of roles across all servers. Roles are fetched per
+ * server, so use `server.roles.fetch()` on a miss.
+ */
+export class RoleManager extends StructureCache<Role> {
+  readonly #client: ClientRef;
+
+  constructor(client: ClientRef, options?: CacheOptions<Role> | false) {
+    super(options);
+    this.#client = client;
+  }
+
+  /**
+   * Wrap raw role data and cache it.
+   * @internal used by Client and structure methods to keep the cache current
+   */
+  _add(raw: RawRole): Role {
+    const role = new Role(raw, this.#client);
+    this.set(role.id, role);
+    return role;
+  }
+
+  /** @internal drop every role of a server the bot left */
+  _removeServer(serverId: string): void {
+    for (const [id, role] of this) {
+      if (role.serverId === serverId) this.delete(id);
+    }
+  }
+}
@@ -0,0 +1,58 @@
+import type { ClientRef } from '../client/ClientRef';
+import type { Channel } from '../structures/Channel';
+import type { ThreadChannel } from '../structures/ThreadChannel';
+import type { CreateChannelData, UpdateChannelData } from '../rest';
+import type { FetchOptions } from './CachedManager';
+
+/**
+ * `server.channels` — channel operations scoped to one server.
+ * Holds no state of its own; everything is read from and written to `client.channels`.
+ */
+export class ServerChannelManager {
+  readonly serverId: string;
+  readonly #client: ClientRef;
+
+  constructor(serverId: string, client: ClientRef) {
+    this.serverId = serverId;
+    this.#client  = client;
+  }
+
+  /** Cached channels belonging to this server */
+  get cache(): Map<string, Channel> {
+    const channels = new Map<string, Channel>();
+    for (const [id, channel] of this.#client.channels) {
+      if (channel.serverId === this.serverId) channels.set(id, channel);
+    }
+    return channels;
+  }
+
+  /** Fetch every channel in the server, or a single one by id */
+  fetch(): Promise<Channel[]>;
+  fetch(id: string, options?: FetchOptions): Promise<Channel>;
+  async fetch(id?: string, options?: FetchOptions): Promise<Channel | Channel[]> {
+    if (id !== undefined) return this.#client.channels.fetch(id, options);
+    const raw = await this.#client.rest.listChannels(this.serverId);
+    return raw.map((c) => this.#client.channels._add(c));
+  }
+
+  /** Fetch the server's active threads, across every channel the bot can see */
+  async fetchActiveThreads(): Promise<ThreadChannel[]> {
+    const raw = await this.#client.rest.listActiveThreads(this.serverId);
+    return raw.map((c) => this.#client.channels._add(c) as ThreadChannel);
+  }
+
+  async create(data: CreateChannelData): Promise<Channel> {
+    const raw = await this.#client.rest.createChannel(this.serverId, data);
+    return this.#client.channels._add(raw);
+  }
+
+  async edit(id: string, data: UpdateChannelData): Promise<Channel> {
+    const raw = await this.#client.rest.updateChannel(id, data);
+    return this.#client.channels._add(raw);
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.#client.rest.deleteChannel(id);
+    this.#client.channels.delete(id);
+  }
+}
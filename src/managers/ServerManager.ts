@@ -0,0 +1,30 @@
+import { CachedManager } from './CachedManager';
+import { Server } from '../structures/Server';
+import type { RawServer } from '../types';
+
+/** `client.servers` — cache of servers the bot is in, with fetch() for the rest */
+export class ServerManager extends CachedManager<Server, RawServer> {
+  /** Servers from READY and SERVER_CREATE carry their roles — cache those too */
+  override _add(raw: RawServer): Server {
+    for (const role of raw.roles ?? []) this.client.roles._add(role);
+    return super._add(raw);
+  }
+
+  /**
+   * Rebuild a cached server with a few fields changed. Its snapshot still
+   * holds the roles it arrived with, so they aren't re-cached — role
+   * dispatches may have changed or removed them since.
+   * @internal
+   */
+  _patch(server: Server, data: Partial<RawServer>): Server {
+    return super._add({ ...server.toJSON(), ...data });
+  }
+
+  protected construct(raw: RawServer): Server {
+    return new Server(raw, this.client);
+  }
+
+  protected fetchRaw(id: string): Promise<RawServer> {
+    return this.client.rest.getServer(id);
+  }
+}
@@ -0,0 +1,61 @@
+import type { ClientRef } from '../client/ClientRef';
+import type { Member } from '../structures/Member';
+import type { Role } from '../structures/Role';
+import type { ListMembersQuery, UpdateMemberData } from '../rest';
+import type { FetchOptions } from './CachedManager';
+import { MemberManager } from './MemberManager';
+
+/**
+ * `server.members` — member operations scoped to one server.
+ * Holds no state of its own; everything is read from and written to `client.members`.
+ */
+export class ServerMemberManager {
+  readonly serverId: string;
+  readonly #client: ClientRef;
+
+  constructor(serverId: string, client: ClientRef) {
+    this.serverId = serverId;
+    this.#client  = client;
+  }
+
+  /** Cached members of this server, keyed by user id */
+  get cache(): Map<string, Member> {
+    const members = new Map<string, Member>();
+    for (const member of this.#client.members.values()) {
+      if (member.serverId === this.serverId) members.set(member.id, member);
+    }
+    return members;
+  }
+
+  get(userId: string): Member | undefined {
+    return this.#client.members.get(MemberManager.key(this.serverId, userId));
+  }
+
+  /** Fetch one page of members, or a single member by user id */
+  fetch(query?: ListMembersQuery): Promise<Member[]>;
+  fetch(userId: string, options?: FetchOptions): Promise<Member>;
+  async fetch(arg?: string | ListMembersQuery, options: FetchOptions = {}): Promise<Member | Member[]> {
+    if (typeof arg === 'string') {
+      if (!options.force) {
+        const cached = this.get(arg);
+        if (cached) return cached;
+      }
+      return this.#client.members._add(await this.#client.rest.getMember(this.serverId, arg));
+    }
+    const raw = await this.#client.rest.listMembers(this.serverId, arg);
+    return raw.map((m) => this.#client.members._add(m));
+  }
+
+  async edit(userId: string, data: UpdateMemberData): Promise<Member> {
+    const raw = await this.#client.rest.updateMember(this.serverId, userId, data);
+    return this.#client.members._add(raw);
+  }
+
+  async addRole(userId: string, role: Role | string): Promise<Member> {
+    return (await this.fetch(userId)).addRole(role);
+  }
+
+  async removeRole(userId: string, role: Role | string): Promise<Member> {
+    return (await this.fetch(userId)).removeRole(role);
+  }
+}
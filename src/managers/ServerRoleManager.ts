@@ -0,0 +1,48 @@
+import type { ClientRef } from '../client/ClientRef';
+import type { Role } from '../structures/Role';
+import type { FetchOptions } from './CachedManager';
+import { NotFoundError } from '../rest/errors';
+
+/**
+ * `server.roles` — role lookups scoped to one server.
+ * Holds no state of its own; everything is read from and written to `client.roles`.
+ */
+export class ServerRoleManager {
+  readonly serverId: string;
+  readonly #client: ClientRef;
+
+  constructor(serverId: string, client: ClientRef) {
+    this.serverId = serverId;
+    this.#client  = client;
+  }
+
+  /** Cached roles of this server */
+  get cache(): Map<string, Role> {
+    const roles = new Map<string, Role>();
+    for (const [id, role] of this.#client.roles) {
+      if (role.serverId === this.serverId) roles.set(id, role);
+    }
+    return roles;
+  }
+
+  get(id: string): Role | undefined {
+    const role = this.#client.roles.get(id);
+    return role?.serverId === this.serverId ? role : undefined;
+  }
+
+  /** Fetch every role in the server, or a single one by id */
+  fetch(): Promise<Role[]>;
+  fetch(id: string, options?: FetchOptions): Promise<Role>;
+  async fetch(id?: string, options: FetchOptions = {}): Promise<Role | Role[]> {
+    if (id !== undefined && !options.force) {
+      const cached = this.get(id);
+      if (cached) return cached;
+    }
+    // The API has no single-role route — list and pick
+    const roles = (await this.#client.rest.listRoles(this.serverId)).map((r) => this.#client.roles._add(r));
+    if (id === undefined) return roles;
+    const role = roles.find((r) => r.id === id);
+    if (!role) throw new NotFoundError('GET', `/servers/${this.serverId}/roles`, `Unknown role ${id}`);
+    return role;
+  }
+}
@@ -0,0 +1,14 @@
+import { CachedManager } from './CachedManager';
+import { User } from '../structures/User';
+import type { RawUser } from '../types';
+
+/** `client.users` — cache of every user seen, with fetch() for the rest */
+export class UserManager extends CachedManager<User, RawUser> {
+  protected construct(raw: RawUser): User {
+    return new User(raw, this.client);
+  }
+
+  protected fetchRaw(id: string): Promise<RawUser> {
+    return this.client.rest.getUser(id);
+  }
+}
@@ -0,0 +1,475 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { REST } from '../rest';
+import { ServerManager } from './ServerManager';
+import { ChannelManager } from './ChannelManager';
+import { UserManager } from './UserManager';
+import { MemberManager } from './MemberManager';
+import { RoleManager } from './RoleManager';
+import { Channel } from '../structures/Channel';
+import { ThreadChannel } from '../structures/ThreadChannel';
+import { Message } from '../structures/Message';
+import type { ClientRef } from '../client/ClientRef';
+import type { RawChannel, RawServer, RawUser, RawMessage, RawMember, RawRole } from '../types';
+
+const rawUser: RawUser = {
+  id: '100',
+  username: 'testbot',
+  display_name: 'Test Bot',
+  created_at: '2025-01-01T00:00:00Z',
+};
+
+const rawServer: RawServer = {
+  id: '1',
+  name: 'Test Server',
+  owner_id: '100',
+  member_count: 42,
+  created_at: '2025-01-01T00:00:00Z',
+};
+
+const rawChannel: RawChannel = {
+  id: '200',
+  server_id: '1',
+  name: 'general',
+  type: 0,
+  position: 0,
+  created_at: '2025-01-01T00:00:00Z',
+};
+
+const rawMessage: RawMessage = {
+  id: '300',
+  channel_id: '200',
+  author: rawUser,
+  content: 'hello world',
+  created_at: '2025-01-01T00:00:00Z',
+};
+
+const rawMember: RawMember = {
+  user: rawUser,
+  server_id: '1',
+  nickname: null,
+  role_ids: [],
+  joined_at: '2025-01-01T00:00:00Z',
+};
+
+const rawRole: RawRole = {
+  id: '500',
+  server_id: '1',
+  name: 'Moderator',
+  color: 0,
+  position: 1,
+  permissions: '0',
+  created_at: '2025-01-01T00:00:00Z',
+};
+
+function makeClientRef(): ClientRef {
+  const client = { rest: new REST({ token: 'test', baseURL: 'http://api.test' }) } as {
+    -readonly [K in keyof ClientRef]: ClientRef[K];
+  };
+  client.servers  = new ServerManager(client);
+  client.channels = new ChannelManager(client);
+  client.users    = new UserManager(client);
+  client.members  = new MemberManager(client);
+  client.roles    = new RoleManager(client);
+  return client;
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'content-type': 'application/json' },
+  });
+}
+
+describe('managers', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+  let client: ClientRef;
+
+  beforeEach(() => {
+    fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+    client = makeClientRef();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  function lastCall(): { url: string; method: string; body: unknown } {
+    const [url, init] = fetchMock.mock.calls.at(-1) as [string, RequestInit];
+    return { url, method: init.method!, body: init.body ? JSON.parse(init.body as string) : undefined };
+  }
+
+  describe('CachedManager', () => {
+    it('fetch() returns the cached entry without a request', async () => {
+      const cached = client.users._add(rawUser);
+      await expect(client.users.fetch('100')).resolves.toBe(cached);
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it('fetch() hits the API on a miss and caches the result', async () => {
+      fetchMock.mockResolvedValueOnce(json(rawUser));
+      const user = await client.users.fetch('100');
+      expect(lastCall().url).toBe('http://api.test/users/100');
+      expect(client.users.get('100')).toBe(user);
+    });
+
+    it('fetch() with force bypasses the cache', async () => {
+      client.servers._add(rawServer);
+      fetchMock.mockResolvedValueOnce(json({ ...rawServer, name: 'Renamed' }));
+      const server = await client.servers.fetch('1', { force: true });
+      expect(server.name).toBe('Renamed');
+      expect(client.servers.get('1')?.name).toBe('Renamed');
+    });
+  });
+
+  describe('ServerChannelManager', () => {
+    it('fetch() lists and caches every channel in the server', async () => {
+      const server = client.servers._add(rawServer);
+      fetchMock.mockResolvedValueOnce(json([rawChannel, { ...rawChannel, id: '201' }]));
+
+      const channels = await server.channels.fetch();
+      expect(lastCall()).toMatchObject({ method: 'GET', url: 'http://api.test/servers/1/channels' });
+      expect(channels.every((c) => c instanceof Channel)).toBe(true);
+      expect([...server.channels.cache.keys()]).toEqual(['200', '201']);
+    });
+
+    it('create() posts to the server and caches the new channel', async () => {
+      const server = client.servers._add(rawServer);
+      fetchMock.mockResolvedValueOnce(json(rawChannel));
+
+      const channel = await server.channels.create({ name: 'general', type: 0 });
+      expect(lastCall()).toMatchObject({
+        method: 'POST',
+        url: 'http://api.test/servers/1/channels',
+        body: { name: 'general', type: 0 },
+      });
+      expect(client.channels.get('200')).toBe(channel);
+    });
+
+    it('only exposes channels from its own server in cache', () => {
+      const server = client.servers._add(rawServer);
+      client.channels._add(rawChannel);
+      client.channels._add({ ...rawChannel, id: '999', server_id: '2' });
+      expect([...server.channels.cache.keys()]).toEqual(['200']);
+    });
+  });
+
+  describe('threads', () => {
+    const rawThread: RawChannel = {
+      ...rawChannel,
+      id: '250',
+      name: 'help',
+      type: 11,
+      parent_id: '200',
+      owner_id: '100',
+      thread_metadata: { archived: false, auto_archive_duration: 1440 },
+    };
+
+    it('message.startThread() creates and caches a ThreadChannel', async () => {
+      const msg = new Message(rawMessage, client);
+      fetchMock.mockResolvedValueOnce(json(rawThread));
+
+      const thread = await msg.startThread('help');
+      expect(lastCall()).toMatchObject({
+        method: 'POST',
+        url: 'http://api.test/channels/200/messages/300/threads',
+        body: { name: 'help' },
+      });
+      expect(thread).toBeInstanceOf(ThreadChannel);
+      expect(thread).toMatchObject({ parentId: '200', ownerId: '100', archived: false });
+      expect(client.channels.get('250')).toBe(thread);
+    });
+
+    it('fetchActiveThreads() lists the server threads', async () => {
+      const server = client.servers._add(rawServer);
+      fetchMock.mockResolvedValueOnce(json([rawThread]));
+
+      const threads = await server.channels.fetchActiveThreads();
+      expect(lastCall().url).toBe('http://api.test/servers/1/threads/active');
+      expect(threads.map((t) => t.isThread())).toEqual([true]);
+    });
+
+    it('archives, joins and leaves', async () => {
+      const thread = client.channels._add(rawThread) as ThreadChannel;
+      fetchMock.mockResolvedValueOnce(json({ ...rawThread, thread_metadata: { archived: true, auto_archive_duration: 1440 } }));
+
+      const archived = await thread.setArchived();
+      expect(lastCall()).toMatchObject({ method: 'PATCH', url: 'http://api.test/channels/250', body: { archived: true } });
+      expect(archived.archived).toBe(true);
+      expect(client.channels.get('250')).toBe(archived);
+
+      fetchMock.mockImplementation(async () => new Response(null, { status: 204 }));
+      await thread.join();
+      expect(lastCall()).toMatchObject({ method: 'PUT', url: 'http://api.test/channels/250/thread-members/@me' });
+      await thread.leave();
+      expect(lastCall().method).toBe('DELETE');
+    });
+  });
+
+  describe('ServerMemberManager', () => {
+    it('fetch(userId) caches the member under the server', async () => {
+      const server = client.servers._add(rawServer);
+      fetchMock.mockResolvedValueOnce(json(rawMember));
+
+      const member = await server.members.fetch('100');
+      expect(lastCall().url).toBe('http://api.test/servers/1/members/100');
+      expect(server.members.get('100')).toBe(member);
+      await expect(server.members.fetch('100')).resolves.toBe(member);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('fetch(query) lists a page of members', async () => {
+      const server = client.servers._add(rawServer);
+      fetchMock.mockResolvedValueOnce(json([rawMember, { ...rawMember, user: { ...rawUser, id: '101' } }]));
+
+      const members = await server.members.fetch({ limit: 2, after: '99' });
+      expect(lastCall().url).toBe('http://api.test/servers/1/members?limit=2&after=99');
+      expect(members.map((m) => m.id)).toEqual(['100', '101']);
+      expect([...server.members.cache.keys()]).toEqual(['100', '101']);
+    });
+
+    it('keeps the same user in different servers apart', () => {
+      client.members._add(rawMember);
+      client.members._add({ ...rawMember, server_id: '2', nickname: 'elsewhere' });
+      const server = client.servers._add(rawServer);
+      expect(server.members.get('100')?.nickname).toBeNull();
+      expect(server.members.cache.size).toBe(1);
+    });
+
+    it('addRole() and removeRole() return the updated member', async () => {
+      const server = client.servers._add(rawServer);
+      client.members._add(rawMember);
+      fetchMock.mockImplementation(async () => new Response(null, { status: 204 }));
+
+      const added = await server.members.addRole('100', '500');
+      expect(lastCall()).toMatchObject({ method: 'PUT', url: 'http://api.test/servers/1/members/100/roles/500' });
+      expect(added.roleIds).toEqual(['500']);
+      expect(server.members.get('100')).toBe(added);
+
+      const removed = await added.removeRole('500');
+      expect(lastCall().method).toBe('DELETE');
+      expect(removed.roleIds).toEqual([]);
+    });
+
+    it('setNickname() patches the member', async () => {
+      const member = client.members._add(rawMember);
+      fetchMock.mockResolvedValueOnce(json({ ...rawMember, nickname: 'Bot' }));
+
+      const edited = await member.setNickname('Bot');
+      expect(lastCall()).toMatchObject({ method: 'PATCH', body: { nickname: 'Bot' } });
+      expect(edited.displayName).toBe('Bot');
+    });
+  });
+
+  describe('ServerRoleManager', () => {
+    it('fetch() lists and caches the server roles', async () => {
+      const server = client.servers._add(rawServer);
+      fetchMock.mockResolvedValueOnce(json([rawRole, { ...rawRole, id: '501', position: 2 }]));
+
+      const roles = await server.roles.fetch();
+      expect(lastCall().url).toBe('http://api.test/servers/1/roles');
+      expect(roles).toHaveLength(2);
+      expect(server.roles.get('501')?.position).toBe(2);
+    });
+
+    it('fetch(id) throws NotFoundError for an unknown role', async () => {
+      const server = client.servers._add(rawServer);
+      fetchMock.mockResolvedValueOnce(json([rawRole]));
+      await expect(server.roles.fetch('999')).rejects.toThrow('Unknown role 999');
+    });
+
+    it('caches roles that arrive with the server', () => {
+      const server = client.servers._add({ ...rawServer, roles: [rawRole] });
+      expect(server.roles.get('500')?.name).toBe('Moderator');
+    });
+  });
+
+  describe('MessageManager', () => {
+    it('fetch(id) resolves a single Message', async () => {
+      const channel = client.channels._add(rawChannel);
+      fetchMock.mockResolvedValueOnce(json(rawMessage));
+
+      const msg = await channel.messages.fetch('300');
+      expect(lastCall().url).toBe('http://api.test/channels/200/messages/300');
+      expect(msg).toBeInstanceOf(Message);
+    });
+
+    it('fetch(query) resolves a page of Messages', async () => {
+      const channel = client.channels._add(rawChannel);
+      fetchMock.mockResolvedValueOnce(json([rawMessage]));
+
+      const page = await channel.messages.fetch({ limit: 10, before: '400' });
+      expect(lastCall().url).toBe('http://api.test/channels/200/messages?limit=10&before=400');
+      expect(page).toHaveLength(1);
+    });
+  });
+
+  describe('MessageManager.history()', () => {
+    // channel with messages 1..250, served newest-first like the API
+    const ids = Array.from({ length: 250 }, (_, i) => i + 1);
+
+    function serveHistory(): void {
+      fetchMock.mockImplementation(async (input: string) => {
+        const q = new URL(input).searchParams;
+        const limit = Number(q.get('limit'));
+        let page: number[];
+        if (q.has('after')) page = ids.filter((id) => id > Number(q.get('after'))).slice(0, limit);
+        else if (q.has('before')) page = ids.filter((id) => id < Number(q.get('before'))).slice(-limit);
+        else if (q.has('around')) {
+          const at = ids.indexOf(Number(q.get('around')));
+          page = ids.slice(Math.max(at - limit / 2, 0), at + limit / 2);
+        } else page = ids.slice(-limit);
+        return json(page.reverse().map((id) => ({ ...rawMessage, id: String(id) })));
+      });
+    }
+
+    async function collect(iter: AsyncIterable<Message>): Promise<number[]> {
+      const out: number[] = [];
+      for await (const msg of iter) out.push(Number(msg.id));
+      return out;
+    }
+
+    it('walks backwards from the latest message across pages', async () => {
+      serveHistory();
+      const channel = client.channels._add(rawChannel);
+      const seen = await collect(channel.messages.history());
+      expect(seen).toEqual([...ids].reverse());
+      // 100 + 100 + 50 — the short page ends iteration
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+    });
+
+    it('walks forwards from `after` in ascending order', async () => {
+      serveHistory();
+      const channel = client.channels._add(rawChannel);
+      const seen = await collect(channel.messages.history({ after: '200', pageSize: 20 }));
+      expect(seen).toEqual(ids.slice(200));
+    });
+
+    it('stops at `max` and never over-fetches the last page', async () => {
+      serveHistory();
+      const channel = client.channels._add(rawChannel);
+      const seen = await collect(channel.messages.history({ before: '200', max: 130 }));
+      expect(seen).toHaveLength(130);
+      expect(seen[0]).toBe(199);
+      expect(lastCall().url).toContain('limit=30');
+    });
+
+    it('yields a single page for `around`', async () => {
+      serveHistory();
+      const channel = client.channels._add(rawChannel);
+      const seen = await collect(channel.messages.history({ around: '100', pageSize: 10 }));
+      expect(seen).toEqual([104, 103, 102, 101, 100, 99, 98, 97, 96, 95]);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('stops cleanly when the signal aborts', async () => {
+      serveHistory();
+      const channel = client.channels._add(rawChannel);
+      const controller = new AbortController();
+      const seen: string[] = [];
+      for await (const msg of channel.messages.history({ signal: controller.signal })) {
+        seen.push(msg.id);
+        if (seen.length === 150) controller.abort();
+      }
+      expect(seen).toHaveLength(150);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('cancels the page request in flight when the signal aborts', async () => {
+      serveHistory();
+      const served = fetchMock.getMockImplementation()!;
+      const controller = new AbortController();
+      let requestSignal: AbortSignal | undefined;
+      fetchMock.mockImplementationOnce(served).mockImplementationOnce((_: string, init: RequestInit) => {
+        requestSignal = init.signal!;
+        // Never answers — only the abort settles it
+        return new Promise((_resolve, reject) => {
+          init.signal!.addEventListener('abort', () => reject(new DOMException('aborted', 'AbortError')));
+        });
+      });
+
+      const channel = client.channels._add(rawChannel);
+      const seen: string[] = [];
+      const walk = (async () => {
+        for await (const msg of channel.messages.history({ signal: controller.signal })) seen.push(msg.id);
+      })();
+      await vi.waitFor(() => expect(requestSignal).toBeDefined());
+      controller.abort();
+
+      await walk;
+      expect(requestSignal!.aborted).toBe(true);
+      expect(seen).toHaveLength(100);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('rejects more than one cursor', async () => {
+      const channel = client.channels._add(rawChannel);
+      await expect(collect(channel.messages.history({ before: '1', after: '2' }))).rejects.toThrow(
+        'only one of before, after or around'
+      );
+    });
+  });
+
+  describe('structure methods', () => {
+    it('channel.send() accepts a string or a payload', async () => {
+      const channel = client.channels._add(rawChannel);
+      fetchMock.mockImplementation(async () => json(rawMessage));
+
+      await channel.send('hi');
+      expect(lastCall()).toMatchObject({ method: 'POST', body: { content: 'hi' } });
+
+      await channel.send({ content: 'hey', embeds: [] });
+      expect(lastCall().body).toEqual({ content: 'hey', embeds: [] });
+    });
+
+    it('message.reply() references the message and controls the ping', async () => {
+      const msg = new Message(rawMessage, client);
+      fetchMock.mockImplementation(async () => json({ ...rawMessage, id: '301', message_reference: { message_id: '300' } }));
+
+      const reply = await msg.reply('hi');
+      expect(lastCall().body).toEqual({ content: 'hi', message_reference: { message_id: '300' }, allowed_mentions: { replied_user: true } });
+      expect(reply.reference).toEqual({ messageId: '300', channelId: '200', serverId: null });
+
+      await msg.reply({ content: 'quiet', ping: false });
+      expect(lastCall().body).toMatchObject({ content: 'quiet', allowed_mentions: { replied_user: false } });
+    });
+
+    it('message.fetchReference() resolves the replied-to message', async () => {
+      const reply = new Message({ ...rawMessage, id: '301', message_reference: { message_id: '300', channel_id: '200' } }, client);
+      fetchMock.mockResolvedValueOnce(json(rawMessage));
+
+      expect((await reply.fetchReference()).id).toBe('300');
+      expect(lastCall().url).toBe('http://api.test/channels/200/messages/300');
+      await expect(new Message(rawMessage, client).fetchReference()).rejects.toThrow('not a reply');
+    });
+
+    it('channel.edit() returns and caches the updated channel', async () => {
+      const channel = client.channels._add(rawChannel);
+      fetchMock.mockResolvedValueOnce(json({ ...rawChannel, topic: 'new topic' }));
+
+      const edited = await channel.edit({ topic: 'new topic' });
+      expect(lastCall()).toMatchObject({ method: 'PATCH', url: 'http://api.test/channels/200' });
+      expect(edited.topic).toBe('new topic');
+      expect(client.channels.get('200')).toBe(edited);
+    });
+
+    it('channel.delete() removes it from the cache', async () => {
+      const channel = client.channels._add(rawChannel);
+      fetchMock.mockResolvedValueOnce(new Response(null, { status: 204 }));
+
+      await channel.delete();
+      expect(lastCall().method).toBe('DELETE');
+      expect(client.channels.has('200')).toBe(false);
+    });
+
+    it('server.edit() and server.fetch() refresh the cached server', async () => {
+      const server = client.servers._add(rawServer);
+      fetchMock.mockResolvedValueOnce(json({ ...rawServer, name: 'Edited' }));
+      expect((await server.edit({ name: 'Edited' })).name).toBe('Edited');
+
+      fetchMock.mockResolvedValueOnce(json({ ...rawServer, name: 'Fetched' }));
+      expect((await server.fetch()).name).toBe('Fetched');
+      expect(client.servers.get('1')?.name).toBe('Fetched');
+    });
+  });
+});
@@ -1,6 +1,12 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, writeFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Readable } from 'stream';
 import { REST } from './REST';
-import { IntentError } from './errors';
+import { Route } from './Route';
+import { IntentError, NotFoundError } from './errors';
+import type { RESTRequest, RateLimitInfo, RetryInfo } from './events';
 
 describe('REST', () => {
   describe('token guard', () => {
@@ -38,4 +44,311 @@ describe('REST', () => {
       await expect(rest.getServer('')).rejects.toThrow('Invalid serverId');
     });
   });
+
+  describe('file uploads', () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    function stubFetch(): ReturnType<typeof vi.fn> {
+      const fetchMock = vi.fn(async () => new Response(JSON.stringify({ id: '1' }), {
+        status: 200,
+        headers: { 'content-type': 'application/json' },
+      }));
+      vi.stubGlobal('fetch', fetchMock);
+      return fetchMock;
+    }
+
+    it('sends files as multipart with the body in payload_json', async () => {
+      const fetchMock = stubFetch();
+      const dir = await mkdtemp(join(tmpdir(), 'intent-rest-'));
+      const path = join(dir, 'notes.txt');
+      await writeFile(path, 'from disk');
+
+      try {
+        const rest = new REST({ token: 'test', baseURL: 'http://api.test' });
+        await rest.createMessage('200', {
+          content: 'hi',
+          files: [
+            { data: Buffer.from('raw bytes'), name: 'a.bin' },
+            { data: Readable.from([Buffer.from('stre'), Buffer.from('amed')]), name: 'b.png' },
+            { data: path },
+            { data: Buffer.from('{}'), name: 'c', contentType: 'application/json' },
+          ],
+        });
+      } finally {
+        await rm(dir, { recursive: true });
+      }
+
+      const init = fetchMock.mock.calls[0][1] as RequestInit & { headers: Record<string, string> };
+      expect(init.headers['Content-Type']).toBeUndefined();
+      const form = init.body as FormData;
+      expect(form).toBeInstanceOf(FormData);
+      expect(JSON.parse(form.get('payload_json') as string)).toEqual({ content: 'hi' });
+
+      const files = [0, 1, 2, 3].map((i) => form.get(`files[${i}]`) as File);
+      expect(files.map((f) => f.name)).toEqual(['a.bin', 'b.png', 'notes.txt', 'c']);
+      expect(files.map((f) => f.type)).toEqual(['application/octet-stream', 'image/png', 'text/plain', 'application/json']);
+      expect(await Promise.all(files.map((f) => f.text()))).toEqual(['raw bytes', 'streamed', 'from disk', '{}']);
+    });
+
+    it('keeps JSON bodies when there are no files', async () => {
+      const fetchMock = stubFetch();
+      const rest = new REST({ token: 'test', baseURL: 'http://api.test' });
+      await rest.createMessage('200', { content: 'hi', files: [] });
+
+      const init = fetchMock.mock.calls[0][1] as RequestInit & { headers: Record<string, string> };
+      expect(init.headers['Content-Type']).toBe('application/json');
+      expect(init.body).toBe(JSON.stringify({ content: 'hi' }));
+    });
+  });
+
+  describe('reactions', () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    function stubFetch(body: unknown = null): ReturnType<typeof vi.fn> {
+      const fetchMock = vi.fn(async () => (body === null
+        ? new Response(null, { status: 204 })
+        : new Response(JSON.stringify(body), { status: 200, headers: { 'content-type': 'application/json' } })));
+      vi.stubGlobal('fetch', fetchMock);
+      return fetchMock;
+    }
+
+    it('encodes the emoji into the path', async () => {
+      const fetchMock = stubFetch();
+      const rest = new REST({ token: 'test', baseURL: 'http://api.test' });
+      await rest.addReaction('200', '300', '👍');
+      await rest.removeUserReaction('200', '300', 'party:42', '100');
+      await rest.clearReactions('200', '300');
+
+      expect(fetchMock.mock.calls.map(([url, init]) => `${(init as RequestInit).method} ${url as string}`)).toEqual([
+        'PUT http://api.test/channels/200/messages/300/reactions/%F0%9F%91%8D/@me',
+        'DELETE http://api.test/channels/200/messages/300/reactions/party%3A42/100',
+        'DELETE http://api.test/channels/200/messages/300/reactions',
+      ]);
+    });
+
+    it('pages reaction users', async () => {
+      const fetchMock = stubFetch([]);
+      const rest = new REST({ token: 'test', baseURL: 'http://api.test' });
+      await rest.listReactionUsers('200', '300', '👍', { limit: 50, after: '100' });
+      expect(fetchMock.mock.calls[0][0]).toBe(
+        'http://api.test/channels/200/messages/300/reactions/%F0%9F%91%8D?limit=50&after=100',
+      );
+    });
+
+    it('rejects an empty emoji', async () => {
+      const rest = new REST({ token: 'test' });
+      await expect(rest.addReaction('200', '300', '')).rejects.toThrow('Invalid emoji');
+    });
+
+    it('shares one rate-limit bucket per channel across messages, emoji and users', () => {
+      const key = (path: string): string => new Route('DELETE', path).bucketKey;
+      expect(key('/channels/200/messages/300/reactions/a/100')).toBe(key('/channels/200/messages/301/reactions/b/101'));
+      expect(key('/channels/200/messages/300/reactions/a/@me')).not.toBe(key('/channels/200/messages/300/reactions/a/100'));
+      expect(key('/channels/200/messages/300/reactions')).not.toBe(key('/channels/201/messages/300/reactions'));
+    });
+  });
+
+  describe('webhooks', () => {
+    it('rejects an empty webhook token', async () => {
+      await expect(new REST().executeWebhook('700', '', { content: 'hi' })).rejects.toThrow('Invalid webhook token');
+    });
+
+    it('keeps webhook tokens out of bucket keys', () => {
+      expect(new Route('POST', '/webhooks/700/s3cr3t').bucketKey).toBe('POST:/webhooks/700/:token');
+      expect(new Route('PATCH', '/webhooks/700/s3cr3t/messages/300').bucketKey).toBe('PATCH:/webhooks/700/:token/messages/:id');
+    });
+  });
+
+  describe('interceptors and events', () => {
+    let fetchMock: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+      fetchMock = vi.fn(async () => new Response(JSON.stringify({ id: '200' }), {
+        status: 200,
+        headers: { 'content-type': 'application/json' },
+      }));
+      vi.stubGlobal('fetch', fetchMock);
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+      vi.useRealTimers();
+    });
+
+    function rest(): REST {
+      return new REST({ token: 'test', baseURL: 'http://api.test' });
+    }
+
+    it('runs beforeRequest and afterResponse around each attempt', async () => {
+      const seen: string[] = [];
+      const api = rest()
+        .use({
+          beforeRequest: (req) => { req.headers['X-Trace-Id'] = 'abc'; },
+          afterResponse: (res) => { seen.push(`${res.request.method} ${res.request.path} ${res.status}`); },
+        });
+      const requests: RESTRequest[] = [];
+      api.on('request', (req) => requests.push(req));
+      api.on('response', (res) => seen.push(`event ${res.status} ${typeof res.duration}`));
+
+      await api.getChannel('200');
+
+      const headers = (fetchMock.mock.calls[0][1] as RequestInit & { headers: Record<string, string> }).headers;
+      expect(headers['X-Trace-Id']).toBe('abc');
+      expect(headers.Authorization).toBe('Bearer test');
+      expect(requests).toMatchObject([{ route: 'GET:/channels/200', url: 'http://api.test/channels/200', attempt: 0 }]);
+      expect(requests[0].headers.Authorization).toBeUndefined();
+      expect(seen).toEqual(['GET /channels/200 200', 'event 200 number']);
+    });
+
+    it('keeps webhook tokens out of events', async () => {
+      fetchMock.mockResolvedValueOnce(new Response(JSON.stringify({ error: 'oops' }), {
+        status: 503,
+        headers: { 'content-type': 'application/json' },
+      }));
+      const api = rest();
+      const seen: unknown[] = [];
+      api.on('request', (req) => seen.push(req.path, req.url));
+      api.on('retry', (info) => seen.push(info.path));
+      api.on('response', (res) => seen.push(res.request.url));
+
+      vi.useFakeTimers();
+      const sent = api.executeWebhook('700', 's3cr3t', { content: 'hi' });
+      await vi.advanceTimersByTimeAsync(1000);
+      await sent;
+
+      expect(fetchMock.mock.calls[1][0]).toBe('http://api.test/webhooks/700/s3cr3t?wait=true');
+      expect(seen).toContain('http://api.test/webhooks/700/:token?wait=true');
+      expect(JSON.stringify(seen)).not.toContain('s3cr3t');
+    });
+
+    it('keeps webhook tokens out of errors', async () => {
+      fetchMock.mockResolvedValueOnce(new Response(JSON.stringify({ error: 'Unknown webhook' }), {
+        status: 404,
+        headers: { 'content-type': 'application/json' },
+      }));
+
+      const err = await rest().executeWebhook('700', 's3cr3t', { content: 'hi' }).catch((e: NotFoundError) => e);
+      expect(err).toBeInstanceOf(NotFoundError);
+      expect(err.url).toBe('http://api.test/webhooks/700/:token');
+      expect(err.message).not.toContain('s3cr3t');
+    });
+
+    it('lets onError replace the final error', async () => {
+      fetchMock.mockResolvedValueOnce(new Response(JSON.stringify({ error: 'Unknown channel' }), {
+        status: 404,
+        headers: { 'content-type': 'application/json' },
+      }));
+      const seen: unknown[] = [];
+      const api = rest().use({
+        onError: (err, req) => {
+          seen.push([err.constructor.name, req?.path]);
+          return new Error(`wrapped: ${err.message}`);
+        },
+      });
+
+      await expect(api.getChannel('200')).rejects.toThrow('wrapped: Unknown channel');
+      expect(seen).toEqual([[NotFoundError.name, '/channels/200']]);
+    });
+
+    it('reports rate limits and retries', async () => {
+      vi.useFakeTimers();
+      fetchMock.mockResolvedValueOnce(new Response(JSON.stringify({ error: 'slow down', retry_after: 2 }), {
+        status: 429,
+        headers: { 'content-type': 'application/json', 'x-ratelimit-limit': '5', 'x-ratelimit-remaining': '0' },
+      }));
+      fetchMock.mockResolvedValueOnce(new Response(JSON.stringify({ error: 'oops' }), {
+        status: 503,
+        headers: { 'content-type': 'application/json' },
+      }));
+      const api = rest();
+      const limited: RateLimitInfo[] = [];
+      const retries: RetryInfo[] = [];
+      api.on('rateLimited', (info) => limited.push(info));
+      api.on('retry', (info) => retries.push(info));
+
+      const result = api.getChannel('200');
+      await vi.advanceTimersByTimeAsync(2000 + 2000);
+      await expect(result).resolves.toEqual({ id: '200' });
+
+      expect(limited).toMatchObject([{ route: 'GET:/channels/200', limit: 5, delay: 2000, global: false }]);
+      expect(retries.map((r) => [r.attempt, r.delay, r.reason])).toEqual([
+        [1, 2000, 'rateLimited'],
+        [2, 2000, 'serverError'],
+      ]);
+    });
+
+    it('reports requests held back by an exhausted bucket', async () => {
+      vi.useFakeTimers({ now: 1_700_000_000_000 });
+      fetchMock.mockResolvedValueOnce(new Response(JSON.stringify({ id: '200' }), {
+        status: 200,
+        headers: {
+          'content-type': 'application/json',
+          'x-ratelimit-limit': '1',
+          'x-ratelimit-remaining': '0',
+          'x-ratelimit-reset': String(1_700_000_001),
+        },
+      }));
+      const api = rest();
+      const limited: RateLimitInfo[] = [];
+      api.on('rateLimited', (info) => limited.push(info));
+
+      await api.getChannel('200');
+      const second = api.getChannel('200');
+      await vi.advanceTimersByTimeAsync(1000);
+      await second;
+      expect(limited).toMatchObject([{ limit: 1, delay: 1000, reset: 1_700_000_001_000 }]);
+    });
+
+    it('stops waiting out a 429 when the signal aborts', async () => {
+      vi.useFakeTimers();
+      fetchMock.mockResolvedValueOnce(new Response(JSON.stringify({ error: 'slow down', retry_after: 60 }), {
+        status: 429,
+        headers: { 'content-type': 'application/json' },
+      }));
+      const api = rest();
+      const retrying = new Promise((resolve) => api.once('retry', resolve));
+      const controller = new AbortController();
+
+      const result = api.request('GET', '/channels/200', { signal: controller.signal });
+      await retrying;
+      controller.abort(new Error('gave up'));
+
+      await expect(result).rejects.toThrow('gave up');
+      expect(vi.getTimerCount()).toBe(0);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('stops waiting on an exhausted bucket when the signal aborts, leaving the slot', async () => {
+      vi.useFakeTimers({ now: 1_700_000_000_000 });
+      fetchMock.mockResolvedValueOnce(new Response(JSON.stringify({ id: '200' }), {
+        status: 200,
+        headers: {
+          'content-type': 'application/json',
+          'x-ratelimit-limit': '1',
+          'x-ratelimit-remaining': '0',
+          'x-ratelimit-reset': String(1_700_000_060),
+        },
+      }));
+      const api = rest();
+      await api.getChannel('200');
+
+      const limited = new Promise((resolve) => api.once('rateLimited', resolve));
+      const controller = new AbortController();
+      const held = api.request('GET', '/channels/200', { signal: controller.signal });
+      const queued = api.request('GET', '/channels/200', { signal: controller.signal });
+      const next = api.getChannel('200');
+      await limited;
+      controller.abort(new Error('gave up'));
+
+      await expect(held).rejects.toThrow('gave up');
+      await expect(queued).rejects.toThrow('gave up');
+      await vi.advanceTimersByTimeAsync(60_000);
+      await expect(next).resolves.toEqual({ id: '200' });
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+  });
 });
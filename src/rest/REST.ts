@@ -1,5 +1,9 @@
 import { RateLimitBucket } from './RateLimitBucket';
+import { MemoryRateLimitStore, type RateLimitStore } from './RateLimitStore';
+import { EventEmitter } from 'events';
 import { Route, RequestMethod } from './Route';
+import type { RESTEvents, RESTInterceptor, RESTRequest, RESTResponse, RetryReason } from './events';
+import { resolveFile, buildFormData, type RawFile, type ResolvedFile } from './files';
 import {
   IntentError,
   HTTPError,
@@ -10,22 +14,144 @@ import {
   ServerError,
 } from './errors';
 import type {
+  RawUser as UserData,
   RawServer as ServerData,
   RawChannel as ChannelData,
   RawMessage as MessageData,
+  RawMember as MemberData,
+  RawRole as RoleData,
+  RawWebhook as WebhookData,
+  RawEmbed,
+  RawMessageReference,
+  RawAllowedMentions,
 } from '../types';
 
 interface RESTOptions {
   baseURL?: string;
   token?: string;
+  /**
+   * URL of a RESTProxy to send every request through instead of baseURL. The
+   * proxy owns the token, rate limits and retries, so this REST needs no
+   * token, keeps no buckets and doesn't retry unless maxRetries says so.
+   */
+  proxy?: string;
   maxRetries?: number;
+  /**
+   * Per-attempt limit in ms — 15000 by default. Through a proxy there is none
+   * by default: the proxy waits out rate limits and retries before it
+   * answers, and a request abandoned here is still sent by the proxy later.
+   */
   timeout?: number;
+  /** Where bucket and global rate-limit state is kept — share one between processes using the same token */
+  rateLimitStore?: RateLimitStore;
+  /** Same as calling use() with each, in order */
+  interceptors?: RESTInterceptor[];
 }
 
 interface RequestOptions {
   body?: unknown;
   query?: Record<string, string | number | boolean | undefined>;
   headers?: Record<string, string>;
+  /** Sent as multipart/form-data, with `body` moved into the `payload_json` part */
+  files?: RawFile[];
+  /** false for routes authorized by a token in the path — sent without the bot token, and work without one */
+  auth?: boolean;
+  /**
+   * Resolve with the final Response, body unread, instead of parsing it.
+   * Error statuses still retry as usual; once retries run out the error
+   * response is resolved rather than thrown.
+   */
+  raw?: boolean;
+  /** Cancels the request — in flight or before a retry — rejecting with the signal's reason */
+  signal?: AbortSignal;
+}
+
+export interface UpdateServerData {
+  name?: string;
+  description?: string;
+}
+
+export interface CreateChannelData {
+  name: string;
+  type: number;
+  topic?: string;
+  position?: number;
+}
+
+export interface UpdateChannelData {
+  name?: string;
+  topic?: string;
+  position?: number;
+}
+
+export interface ListMessagesQuery {
+  limit?: number;
+  before?: string;
+  after?: string;
+  around?: string;
+}
+
+export interface CreateMessageData {
+  content?: string;
+  embeds?: RawEmbed[];
+  files?: RawFile[];
+  /** Makes the message a reply */
+  message_reference?: RawMessageReference;
+  allowed_mentions?: RawAllowedMentions;
+}
+
+export interface UpdateMessageData {
+  content?: string;
+  embeds?: RawEmbed[];
+  files?: RawFile[];
+}
+
+export interface CreateThreadData {
+  name: string;
+  /** Minutes of inactivity before it archives itself: 60, 1440, 4320 or 10080 */
+  auto_archive_duration?: number;
+}
+
+export interface UpdateThreadData {
+  name?: string;
+  archived?: boolean;
+  locked?: boolean;
+  auto_archive_duration?: number;
+}
+
+export interface CreateWebhookData {
+  name: string;
+  /** Image URL used as the default avatar */
+  avatar_url?: string;
+}
+
+export interface ExecuteWebhookData {
+  content?: string;
+  embeds?: RawEmbed[];
+  files?: RawFile[];
+  /** Overrides the webhook's name for this message */
+  username?: string;
+  /** Overrides the webhook's avatar for this message */
+  avatar_url?: string;
+}
+
+export interface ListMembersQuery {
+  /** 1-1000, server default 100 */
+  limit?: number;
+  /** Return members with user ids above this one */
+  after?: string;
+}
+
+export interface ListReactionUsersQuery {
+  /** 1-100, defaults to 25 */
+  limit?: number;
+  /** Return users after this user id */
+  after?: string;
+}
+
+export interface UpdateMemberData {
+  /** null clears the nickname */
+  nickname?: string | null;
 }
 
 interface ErrorResponse {
@@ -37,23 +163,45 @@ interface ErrorResponse {
 
 
 /**
- * REST API client with rate limiting and auto-retry
+ * REST API client with rate limiting and auto-retry.
+ *
+ * Emits `request`, `response`, `rateLimited` and `retry` for every attempt,
+ * and runs interceptors added with use() around each one.
  */
-export class REST {
+export class REST extends EventEmitter {
   private readonly baseURL: string;
   private token?: string;
+  private readonly proxied: boolean;
   private readonly maxRetries: number;
   private readonly timeout: number;
   private readonly buckets: Map<string, RateLimitBucket>;
-  private globalRateLimited: boolean = false;
-  private globalResetAt: number = 0;
+  private readonly store: RateLimitStore;
+  private readonly interceptors: RESTInterceptor[];
 
   constructor(options: RESTOptions = {}) {
-    this.baseURL = options.baseURL ?? 'https://api.intent.chat/v1';
+    super();
+    this.baseURL = options.proxy ?? options.baseURL ?? 'https://api.intent.chat/v1';
     this.token = options.token;
-    this.maxRetries = options.maxRetries ?? 3;
-    this.timeout = options.timeout ?? 15000;
+    this.proxied = options.proxy !== undefined;
+    this.maxRetries = options.maxRetries ?? (this.proxied ? 0 : 3);
+    this.timeout = options.timeout ?? (this.proxied ? Infinity : 15000);
     this.buckets = new Map();
+    this.store = options.rateLimitStore ?? new MemoryRateLimitStore();
+    this.interceptors = [...(options.interceptors ?? [])];
+  }
+
+  // ---- typed event overloads ----
+
+  on<K extends keyof RESTEvents>(event: K, listener: (...args: RESTEvents[K]) => void): this;
+  on(event: string, listener: (...args: unknown[]) => void): this;
+  on(event: string, listener: (...args: unknown[]) => void): this {
+    return super.on(event, listener);
+  }
+
+  emit<K extends keyof RESTEvents>(event: K, ...args: RESTEvents[K]): boolean;
+  emit(event: string, ...args: unknown[]): boolean;
+  emit(event: string, ...args: unknown[]): boolean {
+    return super.emit(event, ...args);
   }
 
   /**
@@ -78,7 +226,7 @@ export class REST {
   private getBucket(route: Route): RateLimitBucket {
     let bucket = this.buckets.get(route.bucketKey);
     if (!bucket) {
-      bucket = new RateLimitBucket();
+      bucket = new RateLimitBucket(route.bucketKey, this.store);
       this.buckets.set(route.bucketKey, bucket);
     }
     return bucket;
@@ -87,18 +235,48 @@ export class REST {
   /**
    * Wait for global rate limit to expire
    */
-  private async waitForGlobalRateLimit(): Promise<void> {
-    if (!this.globalRateLimited) return;
+  private async waitForGlobalRateLimit(route: Route, signal?: AbortSignal): Promise<void> {
+    const reset = await this.store.getGlobalReset();
+    const delay = reset - Date.now();
+    if (delay <= 0) return;
+    this.emit('rateLimited', {
+      method: route.method,
+      path: route.redactedPath,
+      route: route.bucketKey,
+      limit: null,
+      reset,
+      delay,
+      global: true,
+    });
+    await sleep(delay, signal);
+  }
 
-    const now = Date.now();
-    if (now >= this.globalResetAt) {
-      this.globalRateLimited = false;
-      return;
-    }
+  /**
+   * Report a request the bucket is holding back until its window resets
+   */
+  private emitBucketLimited(route: Route, bucket: RateLimitBucket, delay: number): void {
+    const limit = bucket.limit;
+    this.emit('rateLimited', {
+      method: route.method,
+      path: route.redactedPath,
+      route: route.bucketKey,
+      limit: limit !== undefined && Number.isFinite(limit) ? limit : null,
+      reset: Date.now() + delay,
+      delay,
+      global: false,
+    });
+  }
 
-    const delay = this.globalResetAt - now;
-    await new Promise((resolve) => setTimeout(resolve, delay));
-    this.globalRateLimited = false;
+  private emitRetry(route: Route, attempt: number, delay: number, reason: RetryReason, error: Error): void {
+    this.emit('retry', { method: route.method, path: route.redactedPath, route: route.bucketKey, attempt, delay, reason, error });
+  }
+
+  /**
+   * Add an interceptor — it runs after those already added
+   */
+  public use(interceptor: RESTInterceptor): this {
+    this.interceptors.push(interceptor);
+    return this;
   }
 
   /**
@@ -109,53 +287,114 @@ export class REST {
     path: string,
     options: RequestOptions = {}
   ): Promise<T> {
-    if (!this.token) {
+    // The attempt in flight when it failed, for onError interceptors
+    const current: { request: RESTRequest | null } = { request: null };
+    try {
+      return await this.execute<T>(method, path, options, current);
+    } catch (error) {
+      let final = error as Error;
+      for (const interceptor of this.interceptors) {
+        final = (await interceptor.onError?.(final, current.request)) ?? final;
+      }
+      throw final;
+    }
+  }
+
+  private async execute<T>(
+    method: RequestMethod,
+    path: string,
+    options: RequestOptions,
+    current: { request: RESTRequest | null }
+  ): Promise<T> {
+    if (options.auth !== false && !this.token && !this.proxied) {
       throw new IntentError('No auth token set — call setToken() or pass token in constructor');
     }
 
     const route = new Route(method, path);
     const bucket = this.getBucket(route);
+    const files = options.files?.length
+      ? await Promise.all(options.files.map((f, i) => resolveFile(f, i)))
+      : undefined;
 
     let lastError: Error | undefined;
 
     for (let attempt = 0; attempt <= this.maxRetries; attempt++) {
+      // The error response itself, for raw requests that run out of retries
+      let passthrough: Response | undefined;
       try {
-        await this.waitForGlobalRateLimit();
-        await bucket.acquire();
+        options.signal?.throwIfAborted();
+        if (!this.proxied) {
+          await this.waitForGlobalRateLimit(route, options.signal);
+          await bucket.acquire((delay) => this.emitBucketLimited(route, bucket, delay), options.signal);
+        }
 
-        const response = await this.makeRequest(route, options);
-        bucket.update(response.headers);
+        const request = await this.prepareRequest(route, options, attempt, files !== undefined);
+        current.request = request;
+        const sentAt = Date.now();
+        const url = this.buildURL(route.path, options.query);
+        const response = await this.makeRequest(request, url, options.auth !== false, files, options.signal);
+        if (!this.proxied) bucket.update(response.headers);
 
         const global = response.headers.get('x-ratelimit-global') === 'true';
-        if (global) {
-          this.globalRateLimited = true;
+        if (global && !this.proxied) {
           const reset = response.headers.get('x-ratelimit-reset');
-          this.globalResetAt = reset ? parseInt(reset, 10) * 1000 : Date.now() + 1000;
+          await this.store.setGlobalReset(reset ? parseInt(reset, 10) * 1000 : Date.now() + 1000);
         }
 
+        const info: RESTResponse = {
+          request,
+          status: response.status,
+          headers: response.headers,
+          duration: Date.now() - sentAt,
+        };
+        for (const interceptor of this.interceptors) await interceptor.afterResponse?.(info);
+        this.emit('response', info);
+
+        if (options.raw) {
+          // Parse a copy so error statuses throw and retry below — the caller gets the original
+          passthrough = response;
+          if (!response.ok) await this.handleResponse(response.clone(), route, options, attempt);
+          return response as T;
+        }
         return (await this.handleResponse<T>(response, route, options, attempt)) as T;
       } catch (error) {
         lastError = error as Error;
 
         if (error instanceof RateLimitError) {
-          if (error.global) {
-            this.globalRateLimited = true;
-            this.globalResetAt = Date.now() + error.retryAfter * 1000;
+          const delay = error.retryAfter * 1000;
+          if (error.global && !this.proxied) {
+            await this.store.setGlobalReset(Date.now() + delay);
           }
-
-          if (attempt === this.maxRetries) throw error;
-          await new Promise((resolve) =>
-            setTimeout(resolve, error.retryAfter * 1000)
-          );
+          const limit = error.global ? undefined : bucket.limit;
+          this.emit('rateLimited', {
+            method,
+            path: route.redactedPath,
+            route: route.bucketKey,
+            limit: limit !== undefined && Number.isFinite(limit) ? limit : null,
+            reset: Date.now() + delay,
+            delay,
+            global: error.global,
+          });
+
+          if (attempt === this.maxRetries) {
+            if (passthrough) return passthrough as T;
+            throw error;
+          }
+          await passthrough?.body?.cancel();
+          this.emitRetry(route, attempt + 1, delay, 'rateLimited', error);
+          await sleep(delay, options.signal);
           continue;
         }
 
         if (error instanceof ServerError && attempt < this.maxRetries) {
           const delay = Math.pow(2, attempt) * 1000;
-          await new Promise((resolve) => setTimeout(resolve, delay));
+          await passthrough?.body?.cancel();
+          this.emitRetry(route, attempt + 1, delay, 'serverError', error);
+          await sleep(delay, options.signal);
           continue;
         }
 
+        if (passthrough) return passthrough as T;
         throw error;
       }
     }
@@ -164,54 +403,93 @@ export class REST {
   }
 
   /**
-   * Make the actual HTTP request with timeout
+   * Build one attempt and run beforeRequest interceptors on it
    */
-  private async makeRequest(
+  private async prepareRequest(
     route: Route,
-    options: RequestOptions
-  ): Promise<Response> {
-    const url = new URL(route.url(this.baseURL));
+    options: RequestOptions,
+    attempt: number,
+    multipart: boolean
+  ): Promise<RESTRequest> {
+    const request: RESTRequest = {
+      method: route.method,
+      path: route.redactedPath,
+      url: this.buildURL(route.redactedPath, options.query),
+      route: route.bucketKey,
+      // For multipart, fetch sets Content-Type itself so the boundary is included
+      headers: {
+        ...(multipart ? {} : { 'Content-Type': 'application/json' }),
+        ...options.headers,
+      },
+      body: options.body,
+      attempt,
+    };
+
+    for (const interceptor of this.interceptors) await interceptor.beforeRequest?.(request);
+    this.emit('request', request);
+    return request;
+  }
+
+  /**
+   * Full URL for a path, query string included
+   */
+  private buildURL(path: string, query?: RequestOptions['query']): string {
+    const url = new URL(`${this.baseURL}${path}`);
 
-    if (options.query) {
-      for (const [key, value] of Object.entries(options.query)) {
+    if (query) {
+      for (const [key, value] of Object.entries(query)) {
         if (value !== undefined) {
           url.searchParams.set(key, String(value));
         }
       }
     }
+    return url.toString();
+  }
 
-    const headers: Record<string, string> = {
-      'Content-Type': 'application/json',
-      ...options.headers,
-    };
+  /**
+   * Make the actual HTTP request with timeout
+   */
+  private async makeRequest(
+    request: RESTRequest,
+    url: string,
+    auth: boolean,
+    files?: ResolvedFile[],
+    signal?: AbortSignal
+  ): Promise<Response> {
+    const headers: Record<string, string> = { ...request.headers };
 
-    if (this.token) {
+    if (this.token && auth) {
       headers['Authorization'] = `Bearer ${this.token}`;
     }
 
     const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+    const timeoutId = Number.isFinite(this.timeout) ? setTimeout(() => controller.abort(), this.timeout) : undefined;
+    const cancel = (): void => controller.abort();
+    signal?.addEventListener('abort', cancel, { once: true });
 
     const fetchOptions: RequestInit = {
-      method: route.method,
+      method: request.method,
       headers,
       signal: controller.signal,
     };
 
-    if (options.body) {
-      fetchOptions.body = JSON.stringify(options.body);
+    if (files) {
+      fetchOptions.body = buildFormData(request.body, files);
+    } else if (request.body) {
+      fetchOptions.body = JSON.stringify(request.body);
     }
 
     try {
-      const response = await fetch(url.toString(), fetchOptions);
-      clearTimeout(timeoutId);
-      return response;
+      return await fetch(url, fetchOptions);
     } catch (error) {
-      clearTimeout(timeoutId);
+      if (signal?.aborted) throw signal.reason;
       if ((error as Error).name === 'AbortError') {
         throw new Error(`Request timeout after ${this.timeout}ms`);
       }
       throw error;
+    } finally {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', cancel);
     }
   }
 
@@ -225,7 +503,8 @@ export class REST {
     _attempt: number
   ): Promise<T | void> {
     const method = route.method;
-    const url = route.url(this.baseURL);
+    // Errors get logged — keep webhook tokens out of them
+    const url = this.buildURL(route.redactedPath);
 
     if (response.status === 204) {
       return;
@@ -266,6 +545,12 @@ export class REST {
     }
   }
 
+  // Users
+  public async getUser(userId: string): Promise<UserData> {
+    this.validateSnowflake(userId, 'userId');
+    return this.request<UserData>('GET', `/users/${userId}`);
+  }
+
   // Servers
   public async getServer(serverId: string): Promise<ServerData> {
     this.validateSnowflake(serverId, 'serverId');
@@ -280,7 +565,7 @@ export class REST {
     return this.request<ServerData>('POST', '/servers', { body: data });
   }
 
-  public async updateServer(serverId: string, data: { name?: string; description?: string }): Promise<ServerData> {
+  public async updateServer(serverId: string, data: UpdateServerData): Promise<ServerData> {
     this.validateSnowflake(serverId, 'serverId');
     return this.request<ServerData>('PATCH', `/servers/${serverId}`, { body: data });
   }
@@ -301,18 +586,12 @@ export class REST {
     return this.request<ChannelData[]>('GET', `/servers/${serverId}/channels`);
   }
 
-  public async createChannel(
-    serverId: string,
-    data: { name: string; type: number; topic?: string; position?: number }
-  ): Promise<ChannelData> {
+  public async createChannel(serverId: string, data: CreateChannelData): Promise<ChannelData> {
     this.validateSnowflake(serverId, 'serverId');
     return this.request<ChannelData>('POST', `/servers/${serverId}/channels`, { body: data });
   }
 
-  public async updateChannel(
-    channelId: string,
-    data: { name?: string; topic?: string; position?: number }
-  ): Promise<ChannelData> {
+  public async updateChannel(channelId: string, data: UpdateChannelData): Promise<ChannelData> {
     this.validateSnowflake(channelId, 'channelId');
     return this.request<ChannelData>('PATCH', `/channels/${channelId}`, { body: data });
   }
@@ -322,6 +601,76 @@ export class REST {
     return this.request<void>('DELETE', `/channels/${channelId}`);
   }
 
+  // Threads
+  public async createThreadFromMessage(channelId: string, messageId: string, data: CreateThreadData): Promise<ChannelData> {
+    this.validateSnowflake(channelId, 'channelId');
+    this.validateSnowflake(messageId, 'messageId');
+    return this.request<ChannelData>('POST', `/channels/${channelId}/messages/${messageId}/threads`, { body: data });
+  }
+
+  /** Active threads across every channel in the server the bot can see */
+  public async listActiveThreads(serverId: string): Promise<ChannelData[]> {
+    this.validateSnowflake(serverId, 'serverId');
+    return this.request<ChannelData[]>('GET', `/servers/${serverId}/threads/active`);
+  }
+
+  /** Archive, lock or rename — threads take these on top of the usual channel edits */
+  public async updateThread(threadId: string, data: UpdateThreadData): Promise<ChannelData> {
+    this.validateSnowflake(threadId, 'threadId');
+    return this.request<ChannelData>('PATCH', `/channels/${threadId}`, { body: data });
+  }
+
+  public async joinThread(threadId: string): Promise<void> {
+    this.validateSnowflake(threadId, 'threadId');
+    return this.request<void>('PUT', `/channels/${threadId}/thread-members/@me`);
+  }
+
+  public async leaveThread(threadId: string): Promise<void> {
+    this.validateSnowflake(threadId, 'threadId');
+    return this.request<void>('DELETE', `/channels/${threadId}/thread-members/@me`);
+  }
+
+  // Members
+  public async listMembers(serverId: string, options?: ListMembersQuery): Promise<MemberData[]> {
+    this.validateSnowflake(serverId, 'serverId');
+    if (options?.after) this.validateSnowflake(options.after, 'after');
+    return this.request<MemberData[]>('GET', `/servers/${serverId}/members`, {
+      query: { ...options },
+    });
+  }
+
+  public async getMember(serverId: string, userId: string): Promise<MemberData> {
+    this.validateSnowflake(serverId, 'serverId');
+    this.validateSnowflake(userId, 'userId');
+    return this.request<MemberData>('GET', `/servers/${serverId}/members/${userId}`);
+  }
+
+  public async updateMember(serverId: string, userId: string, data: UpdateMemberData): Promise<MemberData> {
+    this.validateSnowflake(serverId, 'serverId');
+    this.validateSnowflake(userId, 'userId');
+    return this.request<MemberData>('PATCH', `/servers/${serverId}/members/${userId}`, { body: data });
+  }
+
+  public async addMemberRole(serverId: string, userId: string, roleId: string): Promise<void> {
+    this.validateSnowflake(serverId, 'serverId');
+    this.validateSnowflake(userId, 'userId');
+    this.validateSnowflake(roleId, 'roleId');
+    return this.request<void>('PUT', `/servers/${serverId}/members/${userId}/roles/${roleId}`);
+  }
+
+  public async removeMemberRole(serverId: string, userId: string, roleId: string): Promise<void> {
+    this.validateSnowflake(serverId, 'serverId');
+    this.validateSnowflake(userId, 'userId');
+    this.validateSnowflake(roleId, 'roleId');
+    return this.request<void>('DELETE', `/servers/${serverId}/members/${userId}/roles/${roleId}`);
+  }
+
+  // Roles
+  public async listRoles(serverId: string): Promise<RoleData[]> {
+    this.validateSnowflake(serverId, 'serverId');
+    return this.request<RoleData[]>('GET', `/servers/${serverId}/roles`);
+  }
+
   // Messages
   public async getMessage(channelId: string, messageId: string): Promise<MessageData> {
     this.validateSnowflake(channelId, 'channelId');
@@ -329,28 +678,30 @@ export class REST {
     return this.request<MessageData>('GET', `/channels/${channelId}/messages/${messageId}`);
   }
 
-  public async listMessages(
-    channelId: string,
-    options?: { limit?: number; before?: string; after?: string }
-  ): Promise<MessageData[]> {
+  public async listMessages(channelId: string, options?: ListMessagesQuery, signal?: AbortSignal): Promise<MessageData[]> {
     this.validateSnowflake(channelId, 'channelId');
     if (options?.before) this.validateSnowflake(options.before, 'before');
     if (options?.after) this.validateSnowflake(options.after, 'after');
+    if (options?.around) this.validateSnowflake(options.around, 'around');
     return this.request<MessageData[]>('GET', `/channels/${channelId}/messages`, {
-      query: options,
+      query: { ...options },
+      signal,
     });
   }
 
-  public async createMessage(channelId: string, data: { content?: string; embeds?: unknown[] }): Promise<MessageData> {
+  public async createMessage(channelId: string, data: CreateMessageData): Promise<MessageData> {
     this.validateSnowflake(channelId, 'channelId');
-    return this.request<MessageData>('POST', `/channels/${channelId}/messages`, { body: data });
+    const { files, ...body } = data;
+    return this.request<MessageData>('POST', `/channels/${channelId}/messages`, { body, files });
   }
 
-  public async updateMessage(channelId: string, messageId: string, data: { content: string }): Promise<MessageData> {
+  public async updateMessage(channelId: string, messageId: string, data: UpdateMessageData): Promise<MessageData> {
     this.validateSnowflake(channelId, 'channelId');
     this.validateSnowflake(messageId, 'messageId');
+    const { files, ...body } = data;
     return this.request<MessageData>('PATCH', `/channels/${channelId}/messages/${messageId}`, {
-      body: data,
+      body,
+      files,
     });
   }
 
@@ -359,4 +710,119 @@ export class REST {
     this.validateSnowflake(messageId, 'messageId');
     return this.request<void>('DELETE', `/channels/${channelId}/messages/${messageId}`);
   }
+
+  // Reactions — `emoji` is a unicode emoji or `name:id` for a custom one
+  public async addReaction(channelId: string, messageId: string, emoji: string): Promise<void> {
+    return this.request<void>('PUT', `${this.reactionsPath(channelId, messageId, emoji)}/@me`);
+  }
+
+  public async removeOwnReaction(channelId: string, messageId: string, emoji: string): Promise<void> {
+    return this.request<void>('DELETE', `${this.reactionsPath(channelId, messageId, emoji)}/@me`);
+  }
+
+  public async removeUserReaction(channelId: string, messageId: string, emoji: string, userId: string): Promise<void> {
+    this.validateSnowflake(userId, 'userId');
+    return this.request<void>('DELETE', `${this.reactionsPath(channelId, messageId, emoji)}/${userId}`);
+  }
+
+  public async listReactionUsers(
+    channelId: string,
+    messageId: string,
+    emoji: string,
+    options?: ListReactionUsersQuery
+  ): Promise<UserData[]> {
+    if (options?.after) this.validateSnowflake(options.after, 'after');
+    return this.request<UserData[]>('GET', this.reactionsPath(channelId, messageId, emoji), {
+      query: { ...options },
+    });
+  }
+
+  /** Remove every reaction, or only those with one emoji */
+  public async clearReactions(channelId: string, messageId: string, emoji?: string): Promise<void> {
+    return this.request<void>('DELETE', this.reactionsPath(channelId, messageId, emoji));
+  }
+
+  // Webhooks — managing them needs the bot token; using one only needs its own token
+  public async createWebhook(channelId: string, data: CreateWebhookData): Promise<WebhookData> {
+    this.validateSnowflake(channelId, 'channelId');
+    return this.request<WebhookData>('POST', `/channels/${channelId}/webhooks`, { body: data });
+  }
+
+  public async listChannelWebhooks(channelId: string): Promise<WebhookData[]> {
+    this.validateSnowflake(channelId, 'channelId');
+    return this.request<WebhookData[]>('GET', `/channels/${channelId}/webhooks`);
+  }
+
+  public async deleteWebhook(webhookId: string): Promise<void> {
+    this.validateSnowflake(webhookId, 'webhookId');
+    return this.request<void>('DELETE', `/webhooks/${webhookId}`);
+  }
+
+  /** Posts as the webhook and waits for the created message */
+  public async executeWebhook(webhookId: string, token: string, data: ExecuteWebhookData): Promise<MessageData> {
+    const { files, ...body } = data;
+    return this.request<MessageData>('POST', this.webhookPath(webhookId, token), {
+      body,
+      files,
+      query: { wait: true },
+      auth: false,
+    });
+  }
+
+  /** Only messages the webhook itself posted */
+  public async updateWebhookMessage(
+    webhookId: string,
+    token: string,
+    messageId: string,
+    data: UpdateMessageData
+  ): Promise<MessageData> {
+    this.validateSnowflake(messageId, 'messageId');
+    const { files, ...body } = data;
+    return this.request<MessageData>('PATCH', `${this.webhookPath(webhookId, token)}/messages/${messageId}`, {
+      body,
+      files,
+      auth: false,
+    });
+  }
+
+  public async deleteWebhookMessage(webhookId: string, token: string, messageId: string): Promise<void> {
+    this.validateSnowflake(messageId, 'messageId');
+    return this.request<void>('DELETE', `${this.webhookPath(webhookId, token)}/messages/${messageId}`, {
+      auth: false,
+    });
+  }
+
+  private webhookPath(webhookId: string, token: string): string {
+    this.validateSnowflake(webhookId, 'webhookId');
+    if (!token) throw new Error('Invalid webhook token: must not be empty');
+    return `/webhooks/${webhookId}/${encodeURIComponent(token)}`;
+  }
+
+  private reactionsPath(channelId: string, messageId: string, emoji?: string): string {
+    this.validateSnowflake(channelId, 'channelId');
+    this.validateSnowflake(messageId, 'messageId');
+    const base = `/channels/${channelId}/messages/${messageId}/reactions`;
+    if (emoji === undefined) return base;
+    if (!emoji) throw new Error('Invalid emoji: must not be empty');
+    return `${base}/${encodeURIComponent(emoji)}`;
+  }
+}
+
+/** Resolve after `ms`, or reject with the signal's reason as soon as it aborts */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = (): void => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
 }
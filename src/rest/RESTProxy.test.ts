@@ -0,0 +1,131 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createServer } from 'http';
+import type { AddressInfo } from 'net';
+import { MockIntentServer } from '../testing/MockIntentServer';
+import type { RawChannel } from '../types';
+import { REST } from './REST';
+import { RESTProxy } from './RESTProxy';
+import { NotFoundError, RateLimitError } from './errors';
+
+describe('RESTProxy', () => {
+  let upstream: MockIntentServer;
+  let proxy: RESTProxy | null;
+  let channel: RawChannel;
+
+  beforeEach(async () => {
+    proxy = null;
+    upstream = new MockIntentServer({ token: 'bot_test' });
+    await upstream.start();
+    channel = upstream.addChannel({ server_id: upstream.addServer({ name: 'Mock' }).id });
+  });
+
+  afterEach(async () => {
+    await proxy?.stop();
+    await upstream.stop();
+  });
+
+  async function startProxy(options: { maxRetries?: number; baseURL?: string } = {}): Promise<RESTProxy> {
+    const baseURL = options.baseURL ?? upstream.restUrl;
+    proxy = new RESTProxy(new REST({ token: 'bot_test', maxRetries: options.maxRetries, baseURL }));
+    await proxy.start();
+    return proxy;
+  }
+
+  it('forwards calls with its own token', async () => {
+    const { url } = await startProxy();
+    const rest = new REST({ proxy: url });
+
+    const sent = await rest.createMessage(channel.id, { content: 'via proxy' });
+    expect(upstream.messages.get(sent.id)).toMatchObject({ content: 'via proxy' });
+    expect(await rest.getChannel(channel.id)).toMatchObject({ id: channel.id });
+  });
+
+  it('forwards query strings and uploads', async () => {
+    const { url } = await startProxy();
+    const rest = new REST({ proxy: url });
+    const ids = Array.from({ length: 3 }, () => upstream.addMessage({ channel_id: channel.id }).id);
+
+    expect((await rest.listMessages(channel.id, { limit: 2 })).map((m) => m.id)).toEqual([ids[2], ids[1]]);
+
+    const sent = await rest.createMessage(channel.id, {
+      content: 'log',
+      files: [{ data: Buffer.from('line 1'), name: 'out.txt' }],
+    });
+    expect(sent.attachments).toMatchObject([{ filename: 'out.txt', content_type: 'text/plain', size: 6 }]);
+    expect(upstream.requests.at(-1)?.files[0].data.toString()).toBe('line 1');
+  });
+
+  it('returns error responses verbatim', async () => {
+    const { url } = await startProxy();
+    const direct = await fetch(`${upstream.restUrl}/channels/1`, { headers: { Authorization: 'Bearer bot_test' } });
+    const proxied = await fetch(`${url}/channels/1`);
+
+    expect(proxied.status).toBe(404);
+    expect(proxied.headers.get('content-type')).toBe(direct.headers.get('content-type'));
+    expect(await proxied.json()).toEqual(await direct.json());
+    await expect(new REST({ proxy: url }).getChannel('1')).rejects.toBeInstanceOf(NotFoundError);
+  });
+
+  it('retries rate limits itself', async () => {
+    const { url } = await startProxy();
+    upstream.failNext({ status: 429, retryAfter: 0, times: 2 });
+
+    await expect(new REST({ proxy: url }).getChannel(channel.id)).resolves.toMatchObject({ id: channel.id });
+    expect(upstream.requests).toHaveLength(3);
+  });
+
+  it('lets callers wait as long as the proxy holds a rate-limited request', async () => {
+    const { url } = await startProxy();
+    upstream.failNext({ status: 429, retryAfter: 20 });
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+    try {
+      const sent = new REST({ proxy: url }).createMessage(channel.id, { content: 'once' });
+      await vi.waitFor(() => expect(upstream.requests).toHaveLength(1), { interval: 5 });
+      // Past the 15s a direct REST allows, up to the 20s the proxy waits
+      await vi.advanceTimersByTimeAsync(20_000);
+      vi.useRealTimers();
+
+      await expect(sent).resolves.toMatchObject({ content: 'once' });
+      expect([...upstream.messages.values()].filter((m) => m.content === 'once')).toHaveLength(1);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('passes the 429 on once its retries run out', async () => {
+    const { url } = await startProxy({ maxRetries: 0 });
+    upstream.failNext({ status: 429, retryAfter: 0 });
+
+    await expect(new REST({ proxy: url }).getChannel(channel.id)).rejects.toBeInstanceOf(RateLimitError);
+    expect(upstream.requests).toHaveLength(1);
+  });
+
+  it('answers 502 when the upstream is unreachable', async () => {
+    const { restUrl } = upstream;
+    await upstream.stop();
+    const { url } = await startProxy({ baseURL: restUrl });
+
+    const response = await fetch(`${url}/channels/${channel.id}`);
+    expect(response.status).toBe(502);
+    expect(await response.json()).toHaveProperty('error');
+  });
+
+  it('answers 502 when the upstream body breaks off', async () => {
+    const broken = createServer((_, res) => {
+      res.writeHead(200, { 'content-type': 'application/json', 'content-length': '100' });
+      res.write('{"id":');
+      setTimeout(() => res.destroy(), 10);
+    });
+    await new Promise<void>((resolve) => broken.listen(0, '127.0.0.1', resolve));
+    try {
+      const { url } = await startProxy({ baseURL: `http://127.0.0.1:${(broken.address() as AddressInfo).port}` });
+
+      const response = await fetch(`${url}/channels/${channel.id}`);
+      expect(response.status).toBe(502);
+      expect(await response.json()).toHaveProperty('error');
+    } finally {
+      broken.closeAllConnections();
+      await new Promise((resolve) => broken.close(resolve));
+    }
+  });
+});
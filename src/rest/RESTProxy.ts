@@ -0,0 +1,155 @@
+import { createServer as createHttpServer, type IncomingMessage, type Server as HttpServer, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import type { REST } from './REST';
+import type { RequestMethod } from './Route';
+import type { RawFile } from './files';
+
+const METHODS = new Set<string>(['GET', 'POST', 'PATCH', 'DELETE', 'PUT']);
+
+// fetch has already decoded and de-chunked the body, so these no longer describe it
+const DROPPED_RESPONSE_HEADERS = new Set(['content-encoding', 'content-length', 'transfer-encoding', 'connection', 'keep-alive']);
+
+interface ProxiedRequest {
+  method: RequestMethod;
+  path: string;
+  query: Record<string, string>;
+  body: unknown;
+  files: RawFile[];
+}
+
+/**
+ * An HTTP server taking the same routes as the Intent API and sending them on
+ * through one REST instance, so every service pointed at it shares that
+ * instance's buckets, global limit and retries. Responses come back verbatim
+ * — status, headers and body — once REST is done retrying.
+ *
+ * Request headers aren't forwarded — the proxy's REST sets its own, and holds
+ * the token. Services use `new REST({ proxy: url })` or
+ * `ClientOptions.restProxy` and need none, so run the proxy on a private
+ * network: anyone who can reach it can act as the bot.
+ *
+ * A proxied call can take as long as the rate limits it waits on, so proxied
+ * REST instances set no timeout unless given one. One that gives up early
+ * doesn't stop the proxy from sending the request — retrying it may send twice.
+ *
+ * @example
+ * const proxy = new RESTProxy(new REST({ token: process.env.TOKEN }))
+ * await proxy.start(8080)
+ * // elsewhere
+ * const rest = new REST({ proxy: 'http://rest-proxy:8080' })
+ */
+export class RESTProxy {
+  readonly rest: REST;
+
+  #http: HttpServer | null = null;
+  #port: number | null = null;
+
+  constructor(rest: REST) {
+    this.rest = rest;
+  }
+
+  /** Pass as RESTOptions.proxy or ClientOptions.restProxy — on this machine; other hosts use its address */
+  get url(): string {
+    if (this.#port === null) throw new Error('RESTProxy is not started — await start() first');
+    return `http://127.0.0.1:${this.#port}`;
+  }
+
+  /** Listen on `port` — 0 picks a free one */
+  async start(port = 0, host = '127.0.0.1'): Promise<void> {
+    if (this.#http) throw new Error('RESTProxy is already started');
+    const http = createHttpServer((req, res) => {
+      void this.#onRequest(req, res);
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      http.once('error', reject);
+      http.listen(port, host, () => resolve());
+    });
+    this.#http = http;
+    this.#port = (http.address() as AddressInfo).port;
+  }
+
+  async stop(): Promise<void> {
+    const http = this.#http;
+    this.#http = null;
+    this.#port = null;
+    if (!http) return;
+    // fetch keeps connections alive — without this close() waits for them to idle out
+    http.closeAllConnections();
+    await new Promise((resolve) => http.close(resolve));
+  }
+
+  async #onRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    let request: ProxiedRequest;
+    try {
+      request = await readRequest(req);
+    } catch (err) {
+      sendError(res, 400, err);
+      return;
+    }
+
+    try {
+      const response = await this.rest.request<Response>(request.method, request.path, {
+        query: request.query,
+        body: request.body,
+        files: request.files,
+        // Webhook token routes carry their own authorization
+        auth: !/^\/webhooks\/\d+\/[^/]+/.test(request.path),
+        raw: true,
+      });
+
+      const headers: Record<string, string> = {};
+      response.headers.forEach((value, key) => {
+        if (!DROPPED_RESPONSE_HEADERS.has(key)) headers[key] = value;
+      });
+      const body = Buffer.from(await response.arrayBuffer());
+      res.writeHead(response.status, headers);
+      res.end(body);
+    } catch (err) {
+      // No upstream response to pass on — a timeout, a refused connection or a body cut short.
+      // Once headers are out the status can't change, so the connection is all that's left to end
+      if (res.headersSent) res.destroy(err instanceof Error ? err : undefined);
+      else sendError(res, 502, err);
+    }
+  }
+}
+
+async function readRequest(req: IncomingMessage): Promise<ProxiedRequest> {
+  const method = req.method ?? 'GET';
+  if (!METHODS.has(method)) throw new Error(`Unsupported method ${method}`);
+
+  // Keep the path as sent — re-encoding it would change emoji and token segments
+  const raw = req.url ?? '/';
+  const queryStart = raw.indexOf('?');
+  const path = queryStart === -1 ? raw : raw.slice(0, queryStart);
+  const query = Object.fromEntries(new URLSearchParams(queryStart === -1 ? '' : raw.slice(queryStart + 1)));
+
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  const data = Buffer.concat(chunks);
+  const contentType = req.headers['content-type'] ?? '';
+
+  const request: ProxiedRequest = { method: method as RequestMethod, path, query, body: undefined, files: [] };
+  if (contentType.startsWith('multipart/form-data')) {
+    // Unpack the upload so REST can rebuild it, and resend it on retries
+    const form = await new Response(data, { headers: { 'content-type': contentType } }).formData();
+    const payload = form.get('payload_json');
+    if (typeof payload === 'string') request.body = JSON.parse(payload);
+    for (const [key, value] of form) {
+      if (!key.startsWith('files[') || typeof value === 'string') continue;
+      request.files.push({
+        data: Buffer.from(await value.arrayBuffer()),
+        name: value.name,
+        contentType: value.type || undefined,
+      });
+    }
+  } else if (data.length > 0) {
+    request.body = JSON.parse(data.toString('utf8'));
+  }
+  return request;
+}
+
+function sendError(res: ServerResponse, status: number, err: unknown): void {
+  res.writeHead(status, { 'content-type': 'application/json' });
+  res.end(JSON.stringify({ error: err instanceof Error ? err.message : String(err) }));
+}
@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { RateLimitBucket } from './RateLimitBucket';
+import { MemoryRateLimitStore } from './RateLimitStore';
 
 // Fake Headers that satisfy the .get() interface
 function fakeHeaders(map: Record<string, string>): Headers {
@@ -113,5 +114,49 @@ describe('RateLimitBucket', () => {
 
       vi.useRealTimers();
     });
+
+    it('rejects requests still queued behind the one asleep', async () => {
+      vi.useFakeTimers();
+
+      bucket.limit = 1;
+      bucket.remaining = 0;
+      bucket.reset = Math.floor(Date.now() / 1000) + 60;
+
+      const asleep = bucket.acquire();
+      const queued = bucket.acquire();
+      await vi.advanceTimersByTimeAsync(0);
+      bucket.clear(new Error('shutdown'));
+
+      await expect(asleep).rejects.toThrow('shutdown');
+      await expect(queued).rejects.toThrow('shutdown');
+
+      vi.useRealTimers();
+    });
+  });
+
+  describe('store', () => {
+    it('writes state through, and reads back what other buckets on the key took', async () => {
+      const store = new MemoryRateLimitStore();
+      const mine = new RateLimitBucket('GET:/test', store);
+      const theirs = new RateLimitBucket('GET:/test', store);
+
+      mine.update(fakeHeaders({ 'x-ratelimit-limit': '5', 'x-ratelimit-remaining': '5' }));
+      await theirs.acquire();
+      await mine.acquire();
+
+      expect(await store.get('GET:/test')).toMatchObject({ limit: 5, remaining: 3 });
+      expect(theirs.remaining).toBe(4);
+      expect(mine.remaining).toBe(3);
+    });
+
+    it('reports a failed write on the next acquire only', async () => {
+      const store = new MemoryRateLimitStore();
+      vi.spyOn(store, 'update').mockRejectedValueOnce(new Error('store down'));
+      bucket = new RateLimitBucket('GET:/test', store);
+
+      bucket.remaining = 5;
+      await expect(bucket.acquire()).rejects.toThrow('store down');
+      await expect(bucket.acquire()).resolves.toBeUndefined();
+    });
   });
 });
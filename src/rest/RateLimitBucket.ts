@@ -1,56 +1,121 @@
-interface QueuedRequest {
-  resolve: () => void;
+import { MemoryRateLimitStore, type RateLimitState, type RateLimitStore } from './RateLimitStore';
+
+interface Sleeper {
+  timer: ReturnType<typeof setTimeout>;
   reject: (error: Error) => void;
 }
 
 /**
  * Rate limit bucket for tracking requests to a specific route.
  *
- * Uses a promise-chain mutex to serialize acquire() calls without
- * busy-polling, and re-checks server state after sleeping so
- * update() headers from in-flight responses aren't ignored.
+ * The budget itself lives in a RateLimitStore, so several processes can
+ * draw from one. Within a process, a promise-chain mutex serializes
+ * acquire() calls without busy-polling, and each wake-up re-takes from the
+ * store so update() headers from in-flight responses — in this process or
+ * another — aren't ignored.
+ *
+ * `limit`, `remaining`, `reset` and `bucket` show the store's state as of
+ * this bucket's last acquire() or update(). Assigning them, like update(),
+ * writes through to the store; acquire() waits for those writes, and
+ * rejects with the error if the last one failed.
  */
 export class RateLimitBucket {
-  public limit: number = Infinity;
-  public remaining: number = Infinity;
-  public reset: number = 0;
-  public bucket?: string;
+  public readonly key: string;
 
-  private queue: QueuedRequest[] = [];
-  private processing = false;
+  private readonly store: RateLimitStore;
+  private state: RateLimitState = { limit: Infinity, remaining: Infinity, reset: 0 };
+  // Store writes, chained so they land in order
+  private writes: Promise<void> = Promise.resolve();
+  private readonly sleepers = new Set<Sleeper>();
+  // Bumped by clear() so acquires already chained behind the mutex fail too
+  private epoch = 0;
+  private clearError?: Error;
 
   // Promise-chain mutex — each acquire() chains on the previous so only
-  // one caller reads/writes remaining at a time. No spin loops needed.
+  // one caller in this process takes from the store at a time. No spin loops needed.
   private _mutex: Promise<void> = Promise.resolve();
 
+  constructor(key = 'default', store: RateLimitStore = new MemoryRateLimitStore()) {
+    this.key = key;
+    this.store = store;
+  }
+
+  public get limit(): number { return this.state.limit; }
+  public set limit(limit: number) { this.write({ limit }); }
+
+  public get remaining(): number { return this.state.remaining; }
+  public set remaining(remaining: number) { this.write({ remaining }); }
+
+  public get reset(): number { return this.state.reset; }
+  public set reset(reset: number) { this.write({ reset }); }
+
+  public get bucket(): string | undefined { return this.state.bucket; }
+  public set bucket(bucket: string | undefined) { this.write({ bucket }); }
+
   /**
    * Wait for rate limit availability before proceeding.
    * Serialized via promise chain so concurrent callers never race on remaining.
+   * `onWait` is told each time the caller is about to sleep, and for how many ms.
+   * Aborting `signal` rejects with its reason, whether the caller is queued or
+   * asleep, and the slot is left for the next caller.
    */
-  public acquire(): Promise<void> {
-    const ticket = this._mutex.then(() => this._acquireSlot());
+  public acquire(onWait?: (delay: number) => void | Promise<void>, signal?: AbortSignal): Promise<void> {
+    const epoch = this.epoch;
+    const ticket = this._mutex.then(() => this._acquireSlot(epoch, onWait, signal));
     // Swallow rejections on the chain so a failed acquire doesn't block future ones
     this._mutex = ticket.catch(() => {});
-    return ticket;
-  }
+    if (!signal) return ticket;
 
-  private async _acquireSlot(): Promise<void> {
-    const now = Date.now();
-    const resetMs = this.reset * 1000;
+    // Don't wait for our turn in the chain to notice the abort
+    return new Promise<void>((resolve, reject) => {
+      const onAbort = (): void => reject(signal.reason);
+      if (signal.aborted) onAbort();
+      else signal.addEventListener('abort', onAbort, { once: true });
+      ticket.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+    });
+  }
 
-    if (now >= resetMs && this.reset > 0) {
-      this.remaining = this.limit;
-    }
+  private async _acquireSlot(
+    epoch: number,
+    onWait?: (delay: number) => void | Promise<void>,
+    signal?: AbortSignal
+  ): Promise<void> {
+    const writes = this.writes;
+    // A failed write is reported once, not to every acquire after it
+    await writes.finally(() => {
+      if (this.writes === writes) this.writes = Promise.resolve();
+    });
 
-    if (this.remaining > 0) {
-      this.remaining--;
-      return;
+    for (;;) {
+      if (epoch !== this.epoch) throw this.clearError;
+      signal?.throwIfAborted();
+      const wait = await this.store.take(this.key);
+      this.state = (await this.store.get(this.key)) ?? this.state;
+      if (wait <= 0) return;
+      // Out of capacity — sleep until the window resets, then take again
+      await onWait?.(wait);
+      await this.sleep(wait, signal);
     }
+  }
 
-    // Out of capacity — hand off to the queue processor
+  private sleep(ms: number, signal?: AbortSignal): Promise<void> {
     return new Promise<void>((resolve, reject) => {
-      this.queue.push({ resolve, reject });
-      this.processQueue();
+      const onAbort = (): void => {
+        clearTimeout(sleeper.timer);
+        this.sleepers.delete(sleeper);
+        reject(signal!.reason);
+      };
+      const sleeper: Sleeper = {
+        timer: setTimeout(() => {
+          this.sleepers.delete(sleeper);
+          signal?.removeEventListener('abort', onAbort);
+          resolve();
+        }, ms),
+        reject,
+      };
+      this.sleepers.add(sleeper);
+      if (signal?.aborted) onAbort();
+      else signal?.addEventListener('abort', onAbort, { once: true });
     });
   }
 
@@ -63,59 +128,32 @@ export class RateLimitBucket {
     const reset = headers.get('x-ratelimit-reset');
     const bucket = headers.get('x-ratelimit-bucket');
 
-    if (limit) this.limit = parseInt(limit, 10);
-    if (remaining) this.remaining = parseInt(remaining, 10);
-    if (reset) this.reset = parseInt(reset, 10);
-    if (bucket) this.bucket = bucket;
+    const state: Partial<RateLimitState> = {};
+    if (limit) state.limit = parseInt(limit, 10);
+    if (remaining) state.remaining = parseInt(remaining, 10);
+    if (reset) state.reset = parseInt(reset, 10);
+    if (bucket) state.bucket = bucket;
+    if (Object.keys(state).length > 0) this.write(state);
   }
 
-  /**
-   * Process queued requests when rate limit resets.
-   * Re-reads this.reset after each sleep so update() changes during
-   * the wait aren't lost — prevents over-releasing on stale state.
-   */
-  private async processQueue(): Promise<void> {
-    if (this.processing) return;
-    this.processing = true;
-
-    while (this.queue.length > 0) {
-      const now = Date.now();
-      const resetMs = this.reset * 1000;
-
-      if (now < resetMs) {
-        await new Promise((r) => setTimeout(r, resetMs - now));
-      }
-
-      // Re-check after waking — update() may have shifted the window
-      const currentResetMs = this.reset * 1000;
-      if (Date.now() >= currentResetMs) {
-        this.remaining = this.limit;
-      } else {
-        // Window moved forward while we slept — back off briefly to avoid a tight loop
-        // if the server keeps sending inconsistent reset headers
-        await new Promise((r) => setTimeout(r, 100));
-        continue;
-      }
-
-      while (this.queue.length > 0 && this.remaining > 0) {
-        const request = this.queue.shift();
-        if (request) {
-          this.remaining--;
-          request.resolve();
-        }
-      }
-    }
-
-    this.processing = false;
+  private write(state: Partial<RateLimitState>): void {
+    this.state = { ...this.state, ...state };
+    const write = this.writes.catch(() => {}).then(() => this.store.update(this.key, state));
+    // Reported by the next acquire()
+    write.catch(() => {});
+    this.writes = write;
   }
 
   /**
    * Clear the queue and reject all pending requests
    */
   public clear(error: Error): void {
-    while (this.queue.length > 0) {
-      const request = this.queue.shift();
-      if (request) request.reject(error);
+    this.epoch++;
+    this.clearError = error;
+    for (const sleeper of this.sleepers) {
+      clearTimeout(sleeper.timer);
+      sleeper.reject(error);
     }
+    this.sleepers.clear();
   }
 }
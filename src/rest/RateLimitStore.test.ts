@@ -0,0 +1,126 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { REST } from './REST';
+import { takeFromState, type RateLimitState, type RateLimitStore } from './RateLimitStore';
+
+const NOW = 1_700_000_000_000;
+
+/**
+ * Stand-in for a Redis-like server. Each connect() is a separate process:
+ * every call crosses an async boundary and state only travels as JSON, so
+ * nothing is shared by reference.
+ */
+class FakeSharedStore {
+  readonly data = new Map<string, string>();
+
+  connect(): RateLimitStore {
+    const roundTrip = async <T>(fn: () => T): Promise<T> => {
+      await Promise.resolve();
+      return fn();
+    };
+    const read = (key: string): RateLimitState | undefined => {
+      const raw = this.data.get(key);
+      return raw === undefined ? undefined : JSON.parse(raw) as RateLimitState;
+    };
+
+    return {
+      take: (key) => roundTrip(() => {
+        const state = read(key);
+        if (!state) return 0;
+        const wait = takeFromState(state);
+        this.data.set(key, JSON.stringify(state));
+        return wait;
+      }),
+      update: (key, state) => roundTrip(() => {
+        this.data.set(key, JSON.stringify({ limit: 0, remaining: 0, reset: 0, ...read(key), ...state }));
+      }),
+      get: (key) => roundTrip(() => read(key)),
+      getGlobalReset: () => roundTrip(() => Number(this.data.get('global') ?? 0)),
+      setGlobalReset: (until) => roundTrip(() => {
+        this.data.set('global', String(until));
+      }),
+    };
+  }
+}
+
+describe('RateLimitStore', () => {
+  let shared: FakeSharedStore;
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.useFakeTimers({ now: NOW });
+    shared = new FakeSharedStore();
+    fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  function worker(): REST {
+    return new REST({ token: 'bot_test', baseURL: 'http://api.test', rateLimitStore: shared.connect() });
+  }
+
+  function ok(headers: Record<string, string> = {}): Response {
+    return new Response(JSON.stringify({ id: '200' }), {
+      status: 200,
+      headers: { 'content-type': 'application/json', ...headers },
+    });
+  }
+
+  it('makes one worker wait out a bucket another worker exhausted', async () => {
+    fetchMock.mockResolvedValueOnce(ok({
+      'x-ratelimit-limit': '1',
+      'x-ratelimit-remaining': '0',
+      'x-ratelimit-reset': String(NOW / 1000 + 2),
+    }));
+    fetchMock.mockImplementation(async () => ok());
+
+    await worker().getChannel('200');
+    let done = false;
+    const second = worker().getChannel('200').then(() => { done = true; });
+
+    await vi.advanceTimersByTimeAsync(1500);
+    expect(done).toBe(false);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(600);
+    await second;
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps separate buckets apart', async () => {
+    fetchMock.mockResolvedValueOnce(ok({
+      'x-ratelimit-limit': '1',
+      'x-ratelimit-remaining': '0',
+      'x-ratelimit-reset': String(NOW / 1000 + 60),
+    }));
+    fetchMock.mockImplementation(async () => ok());
+
+    await worker().getChannel('200');
+    await worker().getChannel('201');
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('shares the global lock', async () => {
+    fetchMock.mockResolvedValueOnce(new Response(JSON.stringify({ error: 'slow down', retry_after: 1, global: true }), {
+      status: 429,
+      headers: { 'content-type': 'application/json' },
+    }));
+    fetchMock.mockImplementation(async () => ok());
+
+    const first = worker().getChannel('200');
+    await vi.advanceTimersByTimeAsync(0);
+    expect(Number(shared.data.get('global'))).toBe(NOW + 1000);
+
+    let done = false;
+    const other = worker().listServers().then(() => { done = true; });
+    await vi.advanceTimersByTimeAsync(900);
+    expect(done).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(200);
+    await Promise.all([first, other]);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+});
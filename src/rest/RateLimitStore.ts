@@ -0,0 +1,78 @@
+/** What the server last reported for one bucket */
+export interface RateLimitState {
+  limit: number;
+  remaining: number;
+  /** Unix seconds when `remaining` refills to `limit` — 0 until the server says */
+  reset: number;
+  /** Server-side bucket id, when sent */
+  bucket?: string;
+}
+
+/**
+ * Where rate-limit state lives. REST keeps it in process memory by default;
+ * workers that share a token can share one store (Redis or similar) so they
+ * draw from the same budgets instead of each assuming the full limit.
+ *
+ * Keys are REST route bucket keys, so share a store only between processes
+ * using the same token. Every method may be called concurrently from several
+ * processes — take() in particular must be atomic (a Lua script or a
+ * transaction on Redis).
+ */
+export interface RateLimitStore {
+  /**
+   * Spend one request from `key`'s budget, refilling it first if its window
+   * has passed. Resolves with 0 when the request may go ahead, otherwise the
+   * ms until the window resets. A key with no state yet is unlimited.
+   */
+  take(key: string): Promise<number>;
+  /** Merge in what the server reported for `key` */
+  update(key: string, state: Partial<RateLimitState>): Promise<void>;
+  /** Current state for `key`, or undefined before it has any */
+  get(key: string): Promise<RateLimitState | undefined>;
+  /** Unix ms every request must wait until — 0 or past when not globally limited */
+  getGlobalReset(): Promise<number>;
+  setGlobalReset(until: number): Promise<void>;
+}
+
+/** Spend one request from `state` in place — the take() algorithm every store implements */
+export function takeFromState(state: RateLimitState, now = Date.now()): number {
+  const resetMs = state.reset * 1000;
+  // A past reset refills the window; so does an exhausted budget the server never dated
+  if (now >= resetMs && (state.reset > 0 || state.remaining <= 0)) {
+    state.remaining = state.limit;
+  }
+  if (state.remaining > 0) {
+    state.remaining--;
+    return 0;
+  }
+  return Math.max(resetMs - now, 1);
+}
+
+/** Default store — state for this process only */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private readonly states = new Map<string, RateLimitState>();
+  private globalReset = 0;
+
+  public async take(key: string): Promise<number> {
+    const state = this.states.get(key);
+    return state ? takeFromState(state) : 0;
+  }
+
+  public async update(key: string, state: Partial<RateLimitState>): Promise<void> {
+    const current = this.states.get(key) ?? { limit: Infinity, remaining: Infinity, reset: 0 };
+    this.states.set(key, { ...current, ...state });
+  }
+
+  public async get(key: string): Promise<RateLimitState | undefined> {
+    const state = this.states.get(key);
+    return state && { ...state };
+  }
+
+  public async getGlobalReset(): Promise<number> {
+    return this.globalReset;
+  }
+
+  public async setGlobalReset(until: number): Promise<void> {
+    this.globalReset = until;
+  }
+}
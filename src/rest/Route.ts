@@ -6,12 +6,16 @@ export type RequestMethod = 'GET' | 'POST' | 'PATCH' | 'DELETE' | 'PUT';
 export class Route {
   public readonly method: RequestMethod;
   public readonly path: string;
+  /** `path` with any webhook token replaced by `:token` — the form events and errors show */
+  public readonly redactedPath: string;
   public readonly bucketKey: string;
 
   constructor(method: RequestMethod, path: string) {
     this.method = method;
     this.path = path;
-    this.bucketKey = this.generateBucketKey(method, path);
+    // Webhook tokens are secrets — the id alone identifies the webhook
+    this.redactedPath = path.replace(/^\/webhooks\/(\d+)\/[^/]+/, '/webhooks/$1/:token');
+    this.bucketKey = this.generateBucketKey(method, this.redactedPath);
   }
 
   /**
@@ -21,8 +25,12 @@ export class Route {
    */
   private generateBucketKey(method: string, path: string): string {
     // Keep major parameters (server_id, channel_id, webhook_id) as-is for separate buckets
-    // Only normalize minor parameters (message_id) to share buckets
-    const normalized = path.replace(/\/messages\/\d+/, '/messages/:id');
+    // Only normalize minor parameters (message_id, emoji, user_id) to share buckets.
+    // `path` arrives with any webhook token already redacted
+    const normalized = path
+      .replace(/\/messages\/\d+/, '/messages/:id')
+      .replace(/\/reactions\/[^/]+/, '/reactions/:emoji')
+      .replace(/\/reactions\/:emoji\/\d+$/, '/reactions/:emoji/:user');
 
     return `${method}:${normalized}`;
   }
@@ -0,0 +1,88 @@
+import type { RequestMethod } from './Route';
+
+/**
+ * One attempt at a request, as interceptors and events see it. Retries are
+ * new attempts with their own RESTRequest.
+ */
+export interface RESTRequest {
+  readonly method: RequestMethod;
+  /** Relative to the base URL, without the query string. Webhook tokens read `:token` */
+  readonly path: string;
+  /** Full URL, query string included — webhook tokens redacted as in `path` */
+  readonly url: string;
+  /** Rate-limit bucket key — requests that share it share a limit */
+  readonly route: string;
+  /**
+   * Sent as-is — beforeRequest interceptors may add or change entries. The
+   * Authorization header is added afterwards and never appears here.
+   */
+  headers: Record<string, string>;
+  /** JSON body; for uploads, the part sent as payload_json */
+  readonly body: unknown;
+  /** 0 for the first try, counting up with each retry */
+  readonly attempt: number;
+}
+
+export interface RESTResponse {
+  readonly request: RESTRequest;
+  readonly status: number;
+  readonly headers: Headers;
+  /** ms from sending the request to receiving the response headers */
+  readonly duration: number;
+}
+
+/**
+ * Hooks into every request REST makes. Interceptors run in the order they
+ * were added and may be async — the request waits for them.
+ */
+export interface RESTInterceptor {
+  /** Before each attempt is sent — add tracing headers here */
+  beforeRequest?(request: RESTRequest): void | Promise<void>;
+  /** After each response arrives, error statuses included, before its body is read */
+  afterResponse?(response: RESTResponse): void | Promise<void>;
+  /**
+   * Once a request has finally failed, retries exhausted — not for attempts
+   * that get retried. Return an error to throw it in place of the original.
+   * `request` is null when the request failed before an attempt was made.
+   */
+  onError?(error: Error, request: RESTRequest | null): void | Error | Promise<void | Error>;
+}
+
+/** A request is held back by a rate limit — by this client before sending, or by a 429 */
+export interface RateLimitInfo {
+  readonly method: RequestMethod;
+  readonly path: string;
+  /** Bucket key the limit applies to */
+  readonly route: string;
+  /** Requests allowed per window — null when the server hasn't said, as with global limits */
+  readonly limit: number | null;
+  /** Unix ms when the limit lifts */
+  readonly reset: number;
+  /** ms until the request may go ahead */
+  readonly delay: number;
+  readonly global: boolean;
+}
+
+export type RetryReason = 'rateLimited' | 'serverError';
+
+export interface RetryInfo {
+  readonly method: RequestMethod;
+  readonly path: string;
+  readonly route: string;
+  /** The attempt about to be made — 1 for the first retry */
+  readonly attempt: number;
+  /** ms before it is sent */
+  readonly delay: number;
+  readonly reason: RetryReason;
+  /** What the previous attempt failed with */
+  readonly error: Error;
+}
+
+export interface RESTEvents {
+  /** An attempt is about to be sent, after beforeRequest interceptors ran */
+  request: [request: RESTRequest];
+  /** A response arrived, after afterResponse interceptors ran */
+  response: [response: RESTResponse];
+  rateLimited: [info: RateLimitInfo];
+  retry: [info: RetryInfo];
+}
@@ -0,0 +1,73 @@
+import { readFile } from 'fs/promises';
+import { basename, extname } from 'path';
+import type { Readable } from 'stream';
+
+/**
+ * A file to upload with a request. `data` may be in-memory bytes, a readable
+ * stream, or a path on disk; `name` defaults to the path's basename.
+ */
+export interface RawFile {
+  data: Buffer | Uint8Array | Readable | string;
+  name?: string;
+  contentType?: string;
+}
+
+export interface ResolvedFile {
+  name: string;
+  contentType: string;
+  data: Uint8Array;
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.png':  'image/png',
+  '.jpg':  'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif':  'image/gif',
+  '.webp': 'image/webp',
+  '.svg':  'image/svg+xml',
+  '.txt':  'text/plain',
+  '.log':  'text/plain',
+  '.csv':  'text/csv',
+  '.json': 'application/json',
+  '.pdf':  'application/pdf',
+  '.zip':  'application/zip',
+  '.mp4':  'video/mp4',
+  '.mp3':  'audio/mpeg',
+};
+
+/**
+ * Read a file fully into memory. Done once per request, before the retry
+ * loop — a stream can only be consumed once, but a 429 retry must resend it.
+ */
+export async function resolveFile(file: RawFile, index: number): Promise<ResolvedFile> {
+  const name = file.name ?? (typeof file.data === 'string' ? basename(file.data) : `file${index}`);
+  const contentType = file.contentType
+    ?? CONTENT_TYPES[extname(name).toLowerCase()]
+    ?? 'application/octet-stream';
+
+  let data: Uint8Array;
+  if (typeof file.data === 'string') data = await readFile(file.data);
+  else if (file.data instanceof Uint8Array) data = file.data;
+  else {
+    const chunks: Buffer[] = [];
+    for await (const chunk of file.data) {
+      chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+    }
+    data = Buffer.concat(chunks);
+  }
+
+  return { name, contentType, data };
+}
+
+/**
+ * Build the multipart body: JSON fields go in `payload_json`, files in
+ * `files[n]`, matching what the API expects for uploads.
+ */
+export function buildFormData(body: unknown, files: ResolvedFile[]): FormData {
+  const form = new FormData();
+  if (body !== undefined) form.append('payload_json', JSON.stringify(body));
+  files.forEach((file, i) => {
+    form.append(`files[${i}]`, new Blob([file.data], { type: file.contentType }), file.name);
+  });
+  return form;
+}
@@ -1,6 +1,34 @@
 export { REST } from './REST';
+export { RESTProxy } from './RESTProxy';
+export type {
+  UpdateServerData,
+  CreateChannelData,
+  UpdateChannelData,
+  ListMessagesQuery,
+  CreateMessageData,
+  UpdateMessageData,
+  CreateThreadData,
+  UpdateThreadData,
+  ListMembersQuery,
+  UpdateMemberData,
+  ListReactionUsersQuery,
+  CreateWebhookData,
+  ExecuteWebhookData,
+} from './REST';
 export { Route, type RequestMethod } from './Route';
+export type {
+  RESTEvents,
+  RESTInterceptor,
+  RESTRequest,
+  RESTResponse,
+  RateLimitInfo,
+  RetryInfo,
+  RetryReason,
+} from './events';
 export { RateLimitBucket } from './RateLimitBucket';
+export { MemoryRateLimitStore, takeFromState } from './RateLimitStore';
+export type { RateLimitStore, RateLimitState } from './RateLimitStore';
+export type { RawFile } from './files';
 export {
   IntentError,
   HTTPError,
@@ -0,0 +1,133 @@
+import { EventEmitter } from 'events';
+import { fork, type ChildProcess } from 'child_process';
+import { Worker } from 'worker_threads';
+import { ClusterEnv, deserializeError, isIPCMessage, nonce, type IPCMessage } from './ipc';
+
+export type ClusterMode = 'process' | 'worker';
+
+export interface ClusterOptions {
+  id: number;
+  file: string;
+  mode: ClusterMode;
+  shardIds: number[];
+  shardCount: number;
+  /** Passed to the worker, whose broadcastEval waits this long on the parent */
+  evalTimeout?: number;
+  execArgv?: string[];
+  env?: NodeJS.ProcessEnv;
+}
+
+interface PendingEval {
+  resolve: (value: unknown) => void;
+  reject: (err: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * One worker — a child process or worker thread — running a subset of shards.
+ *
+ * Owned by ClusterManager, which decides when to respawn. Emits `spawn`,
+ * `exit` (code, intentional) and every IPC message as `message`.
+ */
+export class Cluster extends EventEmitter {
+  readonly id: number;
+  readonly shardIds: readonly number[];
+
+  readonly #options: ClusterOptions;
+  #child: ChildProcess | Worker | null = null;
+  #killing = false;
+  readonly #pending = new Map<string, PendingEval>();
+
+  constructor(options: ClusterOptions) {
+    super();
+    this.id       = options.id;
+    this.shardIds = options.shardIds;
+    this.#options = options;
+  }
+
+  get alive(): boolean {
+    return this.#child !== null;
+  }
+
+  spawn(): void {
+    if (this.#child) return;
+    this.#killing = false;
+
+    const { file, mode, execArgv } = this.#options;
+    const env = {
+      ...process.env,
+      ...this.#options.env,
+      [ClusterEnv.CLUSTER_ID]:  String(this.id),
+      [ClusterEnv.SHARDS]:      this.shardIds.join(','),
+      [ClusterEnv.SHARD_COUNT]: String(this.#options.shardCount),
+      ...(this.#options.evalTimeout !== undefined && {
+        [ClusterEnv.EVAL_TIMEOUT]: String(this.#options.evalTimeout),
+      }),
+    };
+
+    const child = mode === 'worker'
+      ? new Worker(file, { env, execArgv })
+      // advanced serialization so eval results can carry Maps, BigInts and Dates
+      : fork(file, [], { env, execArgv, serialization: 'advanced' });
+
+    child.on('message', (msg: unknown) => this.#onMessage(msg));
+    child.on('error', (err: Error) => this.emit('error', err));
+    child.once('exit', (code: number | null) => this.#onExit(code ?? 0));
+    this.#child = child;
+    this.emit('spawn');
+  }
+
+  /** Stop the worker without triggering a respawn */
+  kill(): void {
+    if (!this.#child) return;
+    this.#killing = true;
+    if (this.#child instanceof Worker) void this.#child.terminate();
+    else this.#child.kill();
+  }
+
+  send(message: IPCMessage): void {
+    if (!this.#child) return;
+    if (this.#child instanceof Worker) this.#child.postMessage(message);
+    else this.#child.send(message);
+  }
+
+  /** Run a serialized function against this worker's Client */
+  eval(script: string, context: unknown, timeout: number): Promise<unknown> {
+    if (!this.#child) {
+      return Promise.reject(new Error(`Cluster ${this.id} is not running`));
+    }
+    const id = nonce();
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.#pending.delete(id);
+        reject(new Error(`Eval on cluster ${this.id} timed out after ${timeout}ms`));
+      }, timeout);
+      this.#pending.set(id, { resolve, reject, timer });
+      this.send({ _intent: 'eval', nonce: id, script, context });
+    });
+  }
+
+  #onMessage(msg: unknown): void {
+    if (!isIPCMessage(msg)) return;
+    if (msg._intent === 'evalResult') {
+      const pending = this.#pending.get(msg.nonce);
+      if (!pending) return;
+      this.#pending.delete(msg.nonce);
+      clearTimeout(pending.timer);
+      if (msg.error) pending.reject(deserializeError(msg.error));
+      else pending.resolve(msg.result);
+      return;
+    }
+    this.emit('message', msg);
+  }
+
+  #onExit(code: number): void {
+    this.#child = null;
+    for (const [id, pending] of this.#pending) {
+      clearTimeout(pending.timer);
+      pending.reject(new Error(`Cluster ${this.id} exited with code ${code} before eval completed`));
+      this.#pending.delete(id);
+    }
+    this.emit('exit', code, this.#killing);
+  }
+}
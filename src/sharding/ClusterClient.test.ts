@@ -0,0 +1,131 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { EventEmitter } from 'events';
+import { ClusterClient, type ClusterTransport } from './ClusterClient';
+import type { IPCMessage } from './ipc';
+import type { Client } from '../client/Client';
+
+class FakeTransport implements ClusterTransport {
+  sent: IPCMessage[] = [];
+  closed = false;
+  #listeners: ((message: unknown) => void)[] = [];
+  #disconnectListeners: (() => void)[] = [];
+
+  send(message: IPCMessage): void {
+    if (this.closed) throw new Error('channel closed');
+    this.sent.push(message);
+  }
+
+  onMessage(listener: (message: unknown) => void): void {
+    this.#listeners.push(listener);
+  }
+
+  onDisconnect(listener: () => void): void {
+    this.#disconnectListeners.push(listener);
+  }
+
+  disconnect(): void {
+    this.closed = true;
+    for (const l of this.#disconnectListeners) l();
+  }
+
+  receive(message: IPCMessage): void {
+    for (const l of this.#listeners) l(message);
+  }
+
+  async reply(intent: IPCMessage['_intent']): Promise<IPCMessage> {
+    for (let i = 0; i < 50; i++) {
+      const found = this.sent.find((m) => m._intent === intent);
+      if (found) return found;
+      await new Promise((r) => setTimeout(r, 1));
+    }
+    throw new Error(`no ${intent} message sent`);
+  }
+}
+
+function fakeClient(): Client {
+  const client = new EventEmitter() as EventEmitter & { servers: { size: number } };
+  client.servers = { size: 7 };
+  return client as unknown as Client;
+}
+
+describe('ClusterClient', () => {
+  afterEach(() => {
+    delete process.env.INTENT_SHARDS;
+    delete process.env.INTENT_SHARD_COUNT;
+    delete process.env.INTENT_EVAL_TIMEOUT;
+  });
+
+  it('reads the shard assignment from the worker env', () => {
+    process.env.INTENT_SHARDS = '2,3';
+    process.env.INTENT_SHARD_COUNT = '4';
+    expect(ClusterClient.shardOptions()).toEqual({ shards: [2, 3], shardCount: 4 });
+  });
+
+  it('throws outside a cluster worker', () => {
+    expect(() => ClusterClient.shardOptions()).toThrow('inside a ClusterManager worker');
+  });
+
+  it('forwards ready, error and disconnect to the parent', () => {
+    const transport = new FakeTransport();
+    const client = fakeClient();
+    new ClusterClient(client, transport);
+
+    client.emit('ready', {});
+    client.emit('error', new TypeError('bad'));
+    client.emit('disconnect', 1006, 3);
+
+    expect(transport.sent).toEqual([
+      { _intent: 'ready' },
+      { _intent: 'error', error: expect.objectContaining({ name: 'TypeError', message: 'bad' }) },
+      { _intent: 'disconnect', code: 1006, shardId: 3 },
+    ]);
+  });
+
+  it('answers evals from the parent against its client', async () => {
+    const transport = new FakeTransport();
+    new ClusterClient(fakeClient(), transport);
+
+    transport.receive({ _intent: 'eval', nonce: 'n1', script: '(c, k) => c.servers.size * k', context: 2 });
+    expect(await transport.reply('evalResult')).toEqual({ _intent: 'evalResult', nonce: 'n1', result: 14 });
+  });
+
+  it('reports eval failures as serialized errors', async () => {
+    const transport = new FakeTransport();
+    new ClusterClient(fakeClient(), transport);
+
+    transport.receive({ _intent: 'eval', nonce: 'n2', script: '() => { throw new Error("kaput") }', context: undefined });
+    const reply = await transport.reply('evalResult');
+    expect(reply).toMatchObject({ nonce: 'n2', error: { message: 'kaput' } });
+  });
+
+  it('resolves broadcastEval with the results the parent collects', async () => {
+    const transport = new FakeTransport();
+    const cluster = new ClusterClient(fakeClient(), transport);
+
+    const results = cluster.fetchClientValues('servers.size');
+    const request = await transport.reply('broadcastEval');
+    expect(request).toMatchObject({ context: 'servers.size' });
+
+    transport.receive({ _intent: 'broadcastEvalResult', nonce: (request as { nonce: string }).nonce, results: [7, 9] });
+    expect(await results).toEqual([7, 9]);
+  });
+
+  it('rejects pending broadcastEval calls when the parent goes away', async () => {
+    const transport = new FakeTransport();
+    const cluster = new ClusterClient(fakeClient(), transport);
+
+    const results = cluster.fetchClientValues('servers.size');
+    await transport.reply('broadcastEval');
+    transport.disconnect();
+
+    await expect(results).rejects.toThrow('lost its parent');
+    await expect(cluster.fetchClientValues('servers.size')).rejects.toThrow('channel closed');
+  });
+
+  it('times out a broadcastEval the parent never answers', async () => {
+    process.env.INTENT_EVAL_TIMEOUT = '20';
+    const cluster = new ClusterClient(fakeClient(), new FakeTransport());
+
+    await expect(cluster.fetchClientValues('servers.size')).rejects.toThrow('timed out after 20ms');
+  });
+});
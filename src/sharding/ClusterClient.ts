@@ -0,0 +1,154 @@
+import { parentPort } from 'worker_threads';
+import {
+  ClusterEnv,
+  EVAL_TIMEOUT_MS,
+  FETCH_PROP_SCRIPT,
+  deserializeError,
+  isIPCMessage,
+  nonce,
+  serializeError,
+  type EvalFunction,
+  type IPCMessage,
+} from './ipc';
+import type { Client } from '../client/Client';
+
+/** The channel to the parent — process.send or parentPort, depending on cluster mode */
+export interface ClusterTransport {
+  send(message: IPCMessage): void;
+  onMessage(listener: (message: unknown) => void): void;
+  /** Called once the parent is gone — pending broadcasts are rejected then instead of waiting out their timeout */
+  onDisconnect?(listener: () => void): void;
+}
+
+interface PendingBroadcast {
+  resolve: (results: unknown[]) => void;
+  reject: (err: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Worker-side half of ClusterManager. Construct one next to the Client in the
+ * bot entry script:
+ *
+ * @example
+ * const client = new Client({ token, ...ClusterClient.shardOptions() })
+ * const cluster = new ClusterClient(client)
+ * client.login()
+ *
+ * Forwards the Client's `ready`, `error` and `disconnect` events to the parent,
+ * answers its evals, and lets the worker run broadcastEval across all clusters.
+ */
+export class ClusterClient {
+  readonly id: number;
+  readonly #client: Client;
+  readonly #transport: ClusterTransport;
+  readonly #pending = new Map<string, PendingBroadcast>();
+  readonly #evalTimeout: number;
+
+  /**
+   * Shard assignment the parent handed this worker, in ClientOptions shape.
+   * Throws outside a ClusterManager worker.
+   */
+  static shardOptions(): { shards: number[]; shardCount: number } {
+    const shards = process.env[ClusterEnv.SHARDS];
+    const count  = process.env[ClusterEnv.SHARD_COUNT];
+    if (shards === undefined || count === undefined) {
+      throw new Error('ClusterClient.shardOptions() must be called inside a ClusterManager worker');
+    }
+    return { shards: shards.split(',').map(Number), shardCount: Number(count) };
+  }
+
+  /** `transport` defaults to the parent process or thread this worker was spawned from */
+  constructor(client: Client, transport: ClusterTransport = defaultTransport()) {
+    this.id         = Number(process.env[ClusterEnv.CLUSTER_ID] ?? 0);
+    this.#client    = client;
+    this.#transport = transport;
+    this.#evalTimeout = Number(process.env[ClusterEnv.EVAL_TIMEOUT] ?? EVAL_TIMEOUT_MS);
+
+    client.on('ready', () => this.#transport.send({ _intent: 'ready' }));
+    client.on('error', (err) => this.#transport.send({ _intent: 'error', error: serializeError(err) }));
+    client.on('disconnect', (code, shardId) => {
+      this.#transport.send({ _intent: 'disconnect', code, shardId });
+    });
+    transport.onMessage((msg) => {
+      if (isIPCMessage(msg)) void this.#onMessage(msg);
+    });
+    transport.onDisconnect?.(() => {
+      for (const [id, pending] of this.#pending) {
+        clearTimeout(pending.timer);
+        pending.reject(new Error(`Cluster ${this.id} lost its parent before broadcastEval completed`));
+        this.#pending.delete(id);
+      }
+    });
+  }
+
+  /** Run `fn` against the Client in every cluster, this one included */
+  broadcastEval<R, Ctx = undefined>(fn: EvalFunction<Client, R, Ctx>, context?: Ctx): Promise<Awaited<R>[]> {
+    return this.#broadcast(fn.toString(), context) as Promise<Awaited<R>[]>;
+  }
+
+  /** Read a (dot-separated) property off every cluster's Client, e.g. `'servers.size'` */
+  fetchClientValues(prop: string): Promise<unknown[]> {
+    return this.#broadcast(FETCH_PROP_SCRIPT, prop);
+  }
+
+  #broadcast(script: string, context: unknown): Promise<unknown[]> {
+    const id = nonce();
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.#pending.delete(id);
+        reject(new Error(`broadcastEval from cluster ${this.id} timed out after ${this.#evalTimeout}ms`));
+      }, this.#evalTimeout);
+      this.#pending.set(id, { resolve, reject, timer });
+      try {
+        this.#transport.send({ _intent: 'broadcastEval', nonce: id, script, context });
+      } catch (err) {
+        clearTimeout(timer);
+        this.#pending.delete(id);
+        reject(err instanceof Error ? err : new Error(String(err)));
+      }
+    });
+  }
+
+  async #onMessage(msg: IPCMessage): Promise<void> {
+    if (msg._intent === 'eval') {
+      try {
+        // Scripts come from our own parent process, never from the network
+        const run = new Function('client', 'context', `return (${msg.script})(client, context);`);
+        const result: unknown = await run(this.#client, msg.context);
+        this.#transport.send({ _intent: 'evalResult', nonce: msg.nonce, result });
+      } catch (err) {
+        this.#transport.send({ _intent: 'evalResult', nonce: msg.nonce, error: serializeError(err) });
+      }
+      return;
+    }
+
+    if (msg._intent === 'broadcastEvalResult') {
+      const pending = this.#pending.get(msg.nonce);
+      if (!pending) return;
+      this.#pending.delete(msg.nonce);
+      clearTimeout(pending.timer);
+      if (msg.error) pending.reject(deserializeError(msg.error));
+      else pending.resolve(msg.results ?? []);
+    }
+  }
+}
+
+function defaultTransport(): ClusterTransport {
+  if (parentPort) {
+    const port = parentPort;
+    return {
+      send: (message) => port.postMessage(message),
+      onMessage: (listener) => port.on('message', listener),
+      onDisconnect: (listener) => port.once('close', listener),
+    };
+  }
+  if (process.send) {
+    return {
+      send: (message) => process.send!(message),
+      onMessage: (listener) => process.on('message', listener),
+      onDisconnect: (listener) => process.once('disconnect', listener),
+    };
+  }
+  throw new Error('ClusterClient must run inside a ClusterManager worker');
+}
@@ -0,0 +1,160 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ClusterManager, type ClusterManagerOptions } from './ClusterManager';
+import type { Cluster } from './Cluster';
+
+// Stand-in for a bot entry script: speaks the ClusterClient side of the IPC
+// protocol by hand, around a fake client, so no TypeScript needs loading.
+const WORKER_SOURCE = `
+const { parentPort } = require('worker_threads');
+const send = parentPort ? (m) => parentPort.postMessage(m) : (m) => process.send(m);
+const onMessage = parentPort ? (fn) => parentPort.on('message', fn) : (fn) => process.on('message', fn);
+const id = Number(process.env.INTENT_CLUSTER_ID);
+const client = {
+  shards: process.env.INTENT_SHARDS.split(',').map(Number),
+  shardCount: Number(process.env.INTENT_SHARD_COUNT),
+  servers: { size: (id + 1) * 10 },
+  fail(message) { send({ _intent: 'error', error: { name: 'Error', message } }); },
+  drop(code) { send({ _intent: 'disconnect', code, shardId: this.shards[0] }); },
+};
+onMessage(async (msg) => {
+  if (msg._intent !== 'eval') return;
+  try {
+    const run = new Function('client', 'context', 'return (' + msg.script + ')(client, context);');
+    send({ _intent: 'evalResult', nonce: msg.nonce, result: await run(client, msg.context) });
+  } catch (err) {
+    send({ _intent: 'evalResult', nonce: msg.nonce, error: { name: err.name, message: err.message } });
+  }
+});
+send({ _intent: 'ready' });
+`;
+
+interface FakeClient {
+  shards: number[];
+  shardCount: number;
+  servers: { size: number };
+  fail(message: string): void;
+  drop(code: number): void;
+}
+
+describe('ClusterManager', () => {
+  let dir: string;
+  let file: string;
+  let manager: ClusterManager | null = null;
+
+  beforeAll(() => {
+    dir  = mkdtempSync(join(tmpdir(), 'intent-cluster-'));
+    file = join(dir, 'worker.cjs');
+    writeFileSync(file, WORKER_SOURCE);
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  afterEach(() => {
+    manager?.destroy();
+    manager = null;
+  });
+
+  async function spawnReady(options: Partial<ClusterManagerOptions> = {}): Promise<ClusterManager> {
+    manager = new ClusterManager({ file, totalShards: 4, totalClusters: 2, ...options });
+    let ready = 0;
+    const allReady = new Promise<void>((resolve) => {
+      manager!.on('clusterReady', () => { if (++ready === manager!.clusters.size) resolve(); });
+    });
+    manager.spawn();
+    await allReady;
+    return manager;
+  }
+
+  it('splits shards into contiguous ranges per cluster', () => {
+    manager = new ClusterManager({ file, totalShards: 5, totalClusters: 2 });
+    expect([...manager.clusters.values()].map((c) => c.shardIds)).toEqual([[0, 1, 2], [3, 4]]);
+  });
+
+  it('rejects a shard count below one', () => {
+    expect(() => new ClusterManager({ file, totalShards: 0 })).toThrow('Invalid totalShards');
+  });
+
+  it('rejects a cluster count below one', () => {
+    expect(() => new ClusterManager({ file, totalShards: 4, totalClusters: 0 })).toThrow('Invalid totalClusters');
+    expect(() => new ClusterManager({ file, totalShards: 4, totalClusters: -2 })).toThrow('Invalid totalClusters');
+  });
+
+  for (const mode of ['process', 'worker'] as const) {
+    describe(`${mode} mode`, () => {
+      it('hands each worker its shard assignment', async () => {
+        const m = await spawnReady({ mode });
+        const assigned = await m.broadcastEval((c: unknown) => {
+          const client = c as FakeClient;
+          return [client.shards, client.shardCount];
+        });
+        expect(assigned).toEqual([[[0, 1], 4], [[2, 3], 4]]);
+      });
+
+      it('aggregates values with fetchClientValues and broadcastEval context', async () => {
+        const m = await spawnReady({ mode });
+        expect(await m.fetchClientValues('servers.size')).toEqual([10, 20]);
+
+        const scaled = await m.broadcastEval(
+          (c: unknown, factor: number) => (c as FakeClient).servers.size * factor,
+          { context: 3 },
+        );
+        expect(scaled).toEqual([30, 60]);
+      });
+
+      it('rejects with the worker error when an eval throws', async () => {
+        const m = await spawnReady({ mode });
+        await expect(
+          m.broadcastEval(() => { throw new Error('nope'); }, { cluster: 1 }),
+        ).rejects.toThrow('nope');
+      });
+    });
+  }
+
+  it('forwards worker client error and disconnect events', async () => {
+    const m = await spawnReady();
+    const error = new Promise<[Error, number]>((resolve) => m.on('error', (err, id) => resolve([err, id])));
+    const disconnect = new Promise<number[]>((resolve) => {
+      m.on('disconnect', (code, shardId, id) => resolve([code, shardId, id]));
+    });
+
+    await m.broadcastEval((c: unknown) => (c as FakeClient).fail('boom'), { cluster: 0 });
+    await m.broadcastEval((c: unknown) => (c as FakeClient).drop(4000), { cluster: 1 });
+
+    const [err, clusterId] = await error;
+    expect(err.message).toBe('boom');
+    expect(clusterId).toBe(0);
+    expect(await disconnect).toEqual([4000, 2, 1]);
+  });
+
+  it('respawns a worker that crashes', async () => {
+    const m = await spawnReady({ respawnDelay: 10 });
+    const exited = new Promise<[Cluster, number, boolean]>((resolve) => {
+      m.on('clusterExit', (cluster, code, respawning) => resolve([cluster, code, respawning]));
+    });
+    const respawned = new Promise<Cluster>((resolve) => m.on('clusterReady', resolve));
+
+    // the eval never answers — the worker dies mid-call
+    await expect(m.broadcastEval(() => process.exit(3), { cluster: 1 })).rejects.toThrow('exited with code 3');
+
+    const [cluster, code, respawning] = await exited;
+    expect([cluster.id, code, respawning]).toEqual([1, 3, true]);
+    expect((await respawned).id).toBe(1);
+    expect(await m.fetchClientValues('servers.size')).toEqual([10, 20]);
+  });
+
+  it('does not respawn workers stopped by destroy()', async () => {
+    const m = await spawnReady({ respawnDelay: 10 });
+    const exits: boolean[] = [];
+    m.on('clusterExit', (_cluster, _code, respawning) => exits.push(respawning));
+
+    m.destroy();
+    await new Promise((r) => setTimeout(r, 200));
+    expect(exits).toEqual([false, false]);
+    expect([...m.clusters.values()].some((c) => c.alive)).toBe(false);
+  });
+});
@@ -0,0 +1,200 @@
+import { EventEmitter } from 'events';
+import { cpus } from 'os';
+import { Cluster, type ClusterMode } from './Cluster';
+import {
+  EVAL_TIMEOUT_MS,
+  FETCH_PROP_SCRIPT,
+  deserializeError,
+  serializeError,
+  type EvalFunction,
+  type IPCMessage,
+} from './ipc';
+import type { Client } from '../client/Client';
+
+const RESPAWN_DELAY_MS = 5_000;
+
+export interface ClusterManagerOptions {
+  /** Bot entry script each worker runs — must create a Client and a ClusterClient */
+  file: string;
+  /** Total shards across every cluster */
+  totalShards: number;
+  /** Workers to spread the shards over — defaults to one per CPU, capped at totalShards */
+  totalClusters?: number;
+  /** Child processes (default) or worker threads */
+  mode?: ClusterMode;
+  /** Restart workers that exit unexpectedly — defaults to true */
+  respawn?: boolean;
+  /** Wait before restarting a crashed worker, in ms */
+  respawnDelay?: number;
+  /** How long broadcastEval waits on each worker, in ms */
+  evalTimeout?: number;
+  execArgv?: string[];
+  env?: NodeJS.ProcessEnv;
+}
+
+export interface BroadcastEvalOptions<Ctx> {
+  /** Serializable value passed to the function as its second argument */
+  context?: Ctx;
+  /** Only run on this cluster */
+  cluster?: number;
+}
+
+export interface ClusterManagerEvents {
+  clusterSpawn: [cluster: Cluster];
+  clusterReady: [cluster: Cluster];
+  /** A worker exited — `respawning` is false for kills and when respawn is disabled */
+  clusterExit: [cluster: Cluster, code: number, respawning: boolean];
+  /** A worker's Client emitted `error` */
+  error: [err: Error, clusterId: number];
+  /** A worker's Client emitted `disconnect` */
+  disconnect: [code: number, shardId: number, clusterId: number];
+}
+
+/**
+ * Parent-side coordinator for running shards across several workers.
+ *
+ * Splits `totalShards` into contiguous ranges, one per Cluster, and restarts
+ * workers that crash. Client `error` and `disconnect` events from every worker
+ * are re-emitted here, and broadcastEval() fans a function out to every
+ * worker's Client and collects the results in cluster order.
+ *
+ * @example
+ * const manager = new ClusterManager({ file: './bot.js', totalShards: 8, totalClusters: 2 })
+ * manager.spawn()
+ * const counts = await manager.fetchClientValues('servers.size')
+ */
+export class ClusterManager extends EventEmitter {
+  readonly clusters = new Map<number, Cluster>();
+
+  readonly #respawn: boolean;
+  readonly #respawnDelay: number;
+  readonly #evalTimeout: number;
+  readonly #respawnTimers = new Set<ReturnType<typeof setTimeout>>();
+
+  constructor(options: ClusterManagerOptions) {
+    super();
+    this.#respawn      = options.respawn ?? true;
+    this.#respawnDelay = options.respawnDelay ?? RESPAWN_DELAY_MS;
+    this.#evalTimeout  = options.evalTimeout ?? EVAL_TIMEOUT_MS;
+
+    if (!Number.isInteger(options.totalShards) || options.totalShards < 1) {
+      throw new Error(`Invalid totalShards ${options.totalShards}: must be a positive integer`);
+    }
+    if (options.totalClusters !== undefined && (!Number.isInteger(options.totalClusters) || options.totalClusters < 1)) {
+      throw new Error(`Invalid totalClusters ${options.totalClusters}: must be a positive integer`);
+    }
+
+    const totalClusters = Math.min(options.totalClusters ?? cpus().length, options.totalShards);
+    const perCluster    = Math.ceil(options.totalShards / totalClusters);
+
+    for (let id = 0; id < totalClusters; id++) {
+      const first    = id * perCluster;
+      const shardIds = Array.from(
+        { length: Math.min(perCluster, options.totalShards - first) },
+        (_, i) => first + i,
+      );
+      if (shardIds.length === 0) break;
+
+      const cluster = new Cluster({
+        id,
+        file: options.file,
+        mode: options.mode ?? 'process',
+        shardIds,
+        shardCount: options.totalShards,
+        evalTimeout: this.#evalTimeout,
+        execArgv: options.execArgv,
+        env: options.env,
+      });
+      this.#wire(cluster);
+      this.clusters.set(id, cluster);
+    }
+  }
+
+  /** Start every worker */
+  spawn(): void {
+    for (const cluster of this.clusters.values()) cluster.spawn();
+  }
+
+  /** Stop every worker and cancel pending respawns */
+  destroy(): void {
+    for (const timer of this.#respawnTimers) clearTimeout(timer);
+    this.#respawnTimers.clear();
+    for (const cluster of this.clusters.values()) cluster.kill();
+  }
+
+  /**
+   * Run `fn` against the Client in every worker. The function is sent as
+   * source text, so it cannot close over variables — pass them via `context`.
+   */
+  broadcastEval<R, Ctx = undefined>(
+    fn: EvalFunction<Client, R, Ctx>,
+    options: BroadcastEvalOptions<Ctx> = {},
+  ): Promise<Awaited<R>[]> {
+    return this.#broadcast(fn.toString(), options.context, options.cluster) as Promise<Awaited<R>[]>;
+  }
+
+  /** Read a (dot-separated) property off every worker's Client, e.g. `'servers.size'` */
+  fetchClientValues(prop: string, cluster?: number): Promise<unknown[]> {
+    return this.#broadcast(FETCH_PROP_SCRIPT, prop, cluster);
+  }
+
+  // ---- typed event overloads ----
+
+  on<K extends keyof ClusterManagerEvents>(event: K, listener: (...args: ClusterManagerEvents[K]) => void): this;
+  on(event: string, listener: (...args: unknown[]) => void): this;
+  on(event: string, listener: (...args: unknown[]) => void): this {
+    return super.on(event, listener);
+  }
+
+  emit<K extends keyof ClusterManagerEvents>(event: K, ...args: ClusterManagerEvents[K]): boolean;
+  emit(event: string, ...args: unknown[]): boolean;
+  emit(event: string, ...args: unknown[]): boolean {
+    return super.emit(event, ...args);
+  }
+
+  #broadcast(script: string, context: unknown, only?: number): Promise<unknown[]> {
+    const targets = only === undefined ? [...this.clusters.values()] : [this.clusters.get(only)];
+    if (targets.some((c) => c === undefined)) {
+      return Promise.reject(new Error(`Unknown cluster ${only}`));
+    }
+    return Promise.all(targets.map((c) => c!.eval(script, context, this.#evalTimeout)));
+  }
+
+  #wire(cluster: Cluster): void {
+    cluster.on('spawn', () => this.emit('clusterSpawn', cluster));
+    cluster.on('error', (err: Error) => this.emit('error', err, cluster.id));
+    cluster.on('message', (msg: IPCMessage) => this.#onMessage(cluster, msg));
+    cluster.on('exit', (code: number, intentional: boolean) => {
+      const respawning = this.#respawn && !intentional;
+      this.emit('clusterExit', cluster, code, respawning);
+      if (!respawning) return;
+
+      const timer = setTimeout(() => {
+        this.#respawnTimers.delete(timer);
+        cluster.spawn();
+      }, this.#respawnDelay);
+      this.#respawnTimers.add(timer);
+    });
+  }
+
+  #onMessage(cluster: Cluster, msg: IPCMessage): void {
+    switch (msg._intent) {
+      case 'ready':
+        this.emit('clusterReady', cluster);
+        break;
+      case 'error':
+        this.emit('error', deserializeError(msg.error), cluster.id);
+        break;
+      case 'disconnect':
+        this.emit('disconnect', msg.code, msg.shardId, cluster.id);
+        break;
+      case 'broadcastEval':
+        // A worker asking for a cross-cluster eval — run it everywhere, answer the asker
+        this.#broadcast(msg.script, msg.context).then(
+          (results) => cluster.send({ _intent: 'broadcastEvalResult', nonce: msg.nonce, results }),
+          (err) => cluster.send({ _intent: 'broadcastEvalResult', nonce: msg.nonce, error: serializeError(err) }),
+        );
+        break;
+    }
+  }
+}
@@ -0,0 +1,157 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { WebSocketServer, type WebSocket } from 'ws';
+import type { AddressInfo } from 'net';
+import { ShardManager } from './ShardManager';
+import { encode, decode } from '../gateway/encoding';
+import { GatewayState, Opcodes } from '../gateway/types';
+import type { GatewayPayload, IdentifyData, ReadyData } from '../gateway/types';
+
+interface Identify {
+  shard: [number, number] | undefined;
+  at: number;
+  socket: WebSocket;
+}
+
+const readyData: ReadyData = {
+  user: { id: '100', username: 'testbot', display_name: 'Test Bot', created_at: '2025-01-01T00:00:00Z' },
+  servers: [],
+  session_id: 'sess',
+  heartbeat_interval: 60_000,
+};
+
+describe('ShardManager', () => {
+  let wss: WebSocketServer;
+  let url: string;
+  let identifies: Identify[];
+  let manager: ShardManager | null;
+
+  beforeEach(async () => {
+    identifies = [];
+    manager = null;
+    wss = new WebSocketServer({ port: 0 });
+    // Minimal gateway: READY on IDENTIFY, ACK on HEARTBEAT
+    wss.on('connection', (socket) => {
+      socket.on('message', (data) => {
+        const payload = decode(data as Buffer);
+        if (payload.op === Opcodes.IDENTIFY) {
+          const d = payload.d as IdentifyData;
+          identifies.push({ shard: d.shard, at: Date.now(), socket });
+          socket.send(encode({ op: Opcodes.READY, d: readyData }));
+        } else if (payload.op === Opcodes.HEARTBEAT) {
+          socket.send(encode({ op: Opcodes.HEARTBEAT_ACK }));
+        }
+      });
+    });
+    await new Promise((resolve) => wss.once('listening', resolve));
+    url = `ws://127.0.0.1:${(wss.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    manager?.disconnect();
+    for (const client of wss.clients) client.terminate();
+    await new Promise((resolve) => wss.close(resolve));
+  });
+
+  function readyCount(target: ShardManager, n: number): Promise<number[]> {
+    const ids: number[] = [];
+    return new Promise((resolve) => {
+      target.on('READY', (_data: ReadyData, shardId: number) => {
+        ids.push(shardId);
+        if (ids.length === n) resolve(ids);
+      });
+    });
+  }
+
+  it('identifies every shard with [id, count]', async () => {
+    manager = new ShardManager({ token: 'bot_test', url, shardCount: 3, identifyInterval: 10 });
+    const ready = readyCount(manager, 3);
+    manager.connect();
+
+    expect((await ready).sort()).toEqual([0, 1, 2]);
+    expect(identifies.map((i) => i.shard).sort()).toEqual([[0, 3], [1, 3], [2, 3]]);
+  });
+
+  it('runs only the requested shard ids', async () => {
+    manager = new ShardManager({ token: 'bot_test', url, shardCount: 4, shardIds: [1, 3], identifyInterval: 10 });
+    const ready = readyCount(manager, 2);
+    manager.connect();
+
+    expect((await ready).sort()).toEqual([1, 3]);
+    expect(manager.statuses.map((s) => s.id)).toEqual([1, 3]);
+  });
+
+  it('omits shard info for an unsharded connection', async () => {
+    manager = new ShardManager({ token: 'bot_test', url });
+    const ready = readyCount(manager, 1);
+    manager.connect();
+
+    expect(await ready).toEqual([0]);
+    expect(identifies[0].shard).toBeUndefined();
+  });
+
+  it('staggers identifies one at a time with maxConcurrency 1', async () => {
+    manager = new ShardManager({ token: 'bot_test', url, shardCount: 3, identifyInterval: 100 });
+    const ready = readyCount(manager, 3);
+    manager.connect();
+    await ready;
+
+    const times = identifies.map((i) => i.at).sort((a, b) => a - b);
+    expect(times[1] - times[0]).toBeGreaterThanOrEqual(90);
+    expect(times[2] - times[1]).toBeGreaterThanOrEqual(90);
+  });
+
+  it('lets maxConcurrency shards identify in parallel', async () => {
+    manager = new ShardManager({
+      token: 'bot_test',
+      url,
+      shardCount: 4,
+      maxConcurrency: 2,
+      identifyInterval: 150,
+    });
+    const ready = readyCount(manager, 4);
+    manager.connect();
+    await ready;
+
+    const at = (id: number) => identifies.find((i) => i.shard?.[0] === id)!.at;
+    // shards 0 and 1 use different slots; 2 waits behind 0, 3 behind 1
+    expect(Math.abs(at(1) - at(0))).toBeLessThan(100);
+    expect(at(2) - at(0)).toBeGreaterThanOrEqual(140);
+    expect(at(3) - at(1)).toBeGreaterThanOrEqual(140);
+  });
+
+  it('routes dispatches tagged with the shard they arrived on', async () => {
+    manager = new ShardManager({ token: 'bot_test', url, shardCount: 2, identifyInterval: 10 });
+    const ready = readyCount(manager, 2);
+    manager.connect();
+    await ready;
+
+    const received = new Promise<[unknown, number]>((resolve) => {
+      manager!.once('MESSAGE_CREATE', (d: unknown, shardId: number) => resolve([d, shardId]));
+    });
+    const shard1 = identifies.find((i) => i.shard?.[0] === 1)!.socket;
+    const dispatch: GatewayPayload = { op: Opcodes.DISPATCH, t: 'MESSAGE_CREATE', s: 1, d: { id: '1' } };
+    shard1.send(encode(dispatch));
+
+    expect(await received).toEqual([{ id: '1' }, 1]);
+  });
+
+  it('exposes per-shard state and heartbeat ping', async () => {
+    manager = new ShardManager({ token: 'bot_test', url, shardCount: 2, identifyInterval: 10 });
+    const ready = readyCount(manager, 2);
+    manager.connect();
+    await ready;
+    // wait for the post-READY heartbeat to be acknowledged
+    await new Promise((r) => setTimeout(r, 50));
+
+    for (const status of manager.statuses) {
+      expect(status.state).toBe(GatewayState.CONNECTED);
+      expect(status.ping).toBeGreaterThanOrEqual(0);
+    }
+    expect(manager.ping).toBeGreaterThanOrEqual(0);
+    expect(manager.status(5)).toBeUndefined();
+  });
+
+  it('rejects shard ids outside the shard count', () => {
+    expect(() => new ShardManager({ token: 'bot_test', shardCount: 2, shardIds: [2] })).toThrow('Invalid shard id 2');
+  });
+});
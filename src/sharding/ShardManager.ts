@@ -0,0 +1,177 @@
+import { EventEmitter } from 'events';
+import { Gateway, type ReconnectPolicy } from '../gateway/Gateway';
+import { GatewayState } from '../gateway/types';
+import type { GatewayEvents, PresenceUpdateData } from '../gateway/types';
+import type { GatewayEncoding } from '../gateway/encoding';
+import type { GatewayCompression } from '../gateway/compression';
+import type { SendQueueOptions } from '../gateway/SendQueue';
+
+const IDENTIFY_INTERVAL_MS = 5_000;
+
+export interface ShardManagerOptions {
+  token: string;
+  url?: string;
+  /** Total shards across every process. Omit for a single unsharded connection. */
+  shardCount?: number;
+  /** Shard ids this manager runs — defaults to every id in 0..shardCount-1 */
+  shardIds?: number[];
+  /** Identifies the server allows in parallel — shards share a slot when `id % maxConcurrency` matches */
+  maxConcurrency?: number;
+  /** Minimum gap between two identifies in the same slot, in ms */
+  identifyInterval?: number;
+  encoding?: GatewayEncoding;
+  compress?: GatewayCompression;
+  /** Intent bitfield every shard identifies with */
+  intents?: number;
+  /** Initial presence every shard identifies with */
+  presence?: PresenceUpdateData;
+  /** Outbound frame limit, applied to each shard on its own */
+  sendLimit?: SendQueueOptions;
+  /** Applies to each shard on its own */
+  reconnect?: ReconnectPolicy;
+}
+
+/** Every Gateway event, with the id of the shard it came from appended */
+export type ShardManagerEvents = {
+  [K in keyof GatewayEvents]: [...GatewayEvents[K], shardId: number];
+};
+
+export interface ShardStatus {
+  id: number;
+  state: GatewayState;
+  /** Last heartbeat round-trip in ms — null until the first ACK */
+  ping: number | null;
+  /** Outbound frames held by the send rate limiter */
+  queued: number;
+}
+
+/**
+ * Runs one Gateway per shard in this process and merges their events.
+ *
+ * Every Gateway event is re-emitted with the shard id appended as the last
+ * argument, so `on('MESSAGE_CREATE', (raw, shardId) => ...)` works across all
+ * shards. Identifies — including re-identifies after an invalid session — are
+ * queued per concurrency slot so the server never sees more than
+ * `maxConcurrency` at once.
+ */
+export class ShardManager extends EventEmitter {
+  readonly shardCount: number;
+  readonly shardIds: readonly number[];
+
+  readonly #gateways = new Map<number, Gateway>();
+  readonly #throttle: IdentifyThrottle;
+
+  constructor(options: ShardManagerOptions) {
+    super();
+    const sharded   = options.shardCount !== undefined;
+    this.shardCount = options.shardCount ?? 1;
+    this.shardIds   = options.shardIds ?? Array.from({ length: this.shardCount }, (_, i) => i);
+    this.#throttle  = new IdentifyThrottle(
+      options.maxConcurrency ?? 1,
+      options.identifyInterval ?? IDENTIFY_INTERVAL_MS,
+    );
+
+    for (const id of this.shardIds) {
+      if (!Number.isInteger(id) || id < 0 || id >= this.shardCount) {
+        throw new Error(`Invalid shard id ${id}: must be an integer in [0, ${this.shardCount})`);
+      }
+      const gateway = new Gateway({
+        token: options.token,
+        url: options.url,
+        // An unsharded bot sends no shard field at all rather than [0, 1]
+        shard: sharded ? [id, this.shardCount] : undefined,
+        identifyGate: () => this.#throttle.acquire(id),
+        encoding: options.encoding,
+        compress: options.compress,
+        intents: options.intents,
+        presence: options.presence,
+        sendLimit: options.sendLimit,
+        reconnect: options.reconnect,
+      });
+      this.#forward(gateway, id);
+      this.#gateways.set(id, gateway);
+    }
+  }
+
+  /** Open every shard. Identifies are staggered by the throttle, not here. */
+  connect(): void {
+    for (const gateway of this.#gateways.values()) gateway.connect();
+  }
+
+  disconnect(): void {
+    for (const gateway of this.#gateways.values()) gateway.disconnect();
+  }
+
+  /** Set the presence on every shard — presence is per-session, so each one needs it */
+  setPresence(presence: PresenceUpdateData): void {
+    for (const gateway of this.#gateways.values()) gateway.updatePresence(presence);
+  }
+
+  /** State and latency of a single shard */
+  status(id: number): ShardStatus | undefined {
+    const gateway = this.#gateways.get(id);
+    return gateway && { id, state: gateway.state, ping: gateway.ping, queued: gateway.queued };
+  }
+
+  get statuses(): ShardStatus[] {
+    return this.shardIds.map((id) => this.status(id)!);
+  }
+
+  /** Average heartbeat latency across shards that have one */
+  get ping(): number | null {
+    const pings = this.statuses.map((s) => s.ping).filter((p): p is number => p !== null);
+    if (pings.length === 0) return null;
+    return pings.reduce((a, b) => a + b, 0) / pings.length;
+  }
+
+  on<K extends keyof ShardManagerEvents>(event: K, listener: (...args: ShardManagerEvents[K]) => void): this;
+  on(event: string, listener: (...args: unknown[]) => void): this;
+  on(event: string, listener: (...args: unknown[]) => void): this {
+    return super.on(event, listener);
+  }
+
+  emit<K extends keyof ShardManagerEvents>(event: K, ...args: ShardManagerEvents[K]): boolean;
+  emit(event: string, ...args: unknown[]): boolean;
+  emit(event: string, ...args: unknown[]): boolean {
+    return super.emit(event, ...args);
+  }
+
+  #forward(gateway: Gateway, id: number): void {
+    gateway.on('READY', (data) => this.emit('READY', data, id));
+    gateway.on('dispatch', (payload) => {
+      this.emit('dispatch', payload, id);
+      if (payload.t) this.emit(payload.t, payload.d, id);
+    });
+    gateway.on('resumed', (replayed) => this.emit('resumed', replayed, id));
+    gateway.on('invalidated', (resumable) => this.emit('invalidated', resumable, id));
+    gateway.on('disconnect', (code) => this.emit('disconnect', code, id));
+    gateway.on('reconnecting', (attempt, delay) => this.emit('reconnecting', attempt, delay, id));
+    gateway.on('fatal', (err) => this.emit('fatal', err, id));
+    gateway.on('error', (err) => this.emit('error', err, id));
+  }
+}
+
+/**
+ * Per-slot identify queue. Uses the same promise-chain approach as
+ * RateLimitBucket so concurrent acquires within a slot are serialized.
+ */
+class IdentifyThrottle {
+  readonly #chains = new Map<number, Promise<void>>();
+  readonly #nextAt = new Map<number, number>();
+
+  constructor(
+    private readonly maxConcurrency: number,
+    private readonly interval: number,
+  ) {}
+
+  acquire(shardId: number): Promise<void> {
+    const slot   = shardId % this.maxConcurrency;
+    const ticket = (this.#chains.get(slot) ?? Promise.resolve()).then(async () => {
+      const wait = (this.#nextAt.get(slot) ?? 0) - Date.now();
+      if (wait > 0) await new Promise((r) => setTimeout(r, wait));
+      this.#nextAt.set(slot, Date.now() + this.interval);
+    });
+    this.#chains.set(slot, ticket);
+    return ticket;
+  }
+}
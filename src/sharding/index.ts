@@ -0,0 +1,15 @@
+export {
+  ShardManager,
+  type ShardManagerOptions,
+  type ShardManagerEvents,
+  type ShardStatus,
+} from './ShardManager';
+export { Cluster, type ClusterMode, type ClusterOptions } from './Cluster';
+export {
+  ClusterManager,
+  type ClusterManagerOptions,
+  type ClusterManagerEvents,
+  type BroadcastEvalOptions,
+} from './ClusterManager';
+export { ClusterClient, type ClusterTransport } from './ClusterClient';
+export type { EvalFunction, IPCMessage } from './ipc';
@@ -0,0 +1,59 @@
+/**
+ * IPC protocol between ClusterManager (parent) and ClusterClient (worker).
+ * Every message carries `_intent` so our traffic can share a channel with
+ * whatever else the bot sends over process.send / parentPort.
+ */
+
+/** Env vars a Cluster sets for its worker — read back by ClusterClient */
+export const ClusterEnv = {
+  CLUSTER_ID:   'INTENT_CLUSTER_ID',
+  SHARDS:       'INTENT_SHARDS',
+  SHARD_COUNT:  'INTENT_SHARD_COUNT',
+  EVAL_TIMEOUT: 'INTENT_EVAL_TIMEOUT',
+} as const;
+
+/** How long an eval waits on a worker by default, in ms */
+export const EVAL_TIMEOUT_MS = 30_000;
+
+export interface SerializedError {
+  name: string;
+  message: string;
+  stack?: string;
+}
+
+export type IPCMessage =
+  | { _intent: 'ready' }
+  | { _intent: 'error'; error: SerializedError }
+  | { _intent: 'disconnect'; code: number; shardId: number }
+  | { _intent: 'eval'; nonce: string; script: string; context: unknown }
+  | { _intent: 'evalResult'; nonce: string; result?: unknown; error?: SerializedError }
+  | { _intent: 'broadcastEval'; nonce: string; script: string; context: unknown }
+  | { _intent: 'broadcastEvalResult'; nonce: string; results?: unknown[]; error?: SerializedError };
+
+/** A function run inside every worker with that worker's Client */
+export type EvalFunction<C, R, Ctx = undefined> = (client: C, context: Ctx) => R | Promise<R>;
+
+/** Walks a dot path on the client — sent as source, so it must be self-contained */
+export const FETCH_PROP_SCRIPT =
+  '(client, prop) => prop.split(".").reduce((value, key) => value == null ? value : value[key], client)';
+
+export function isIPCMessage(value: unknown): value is IPCMessage {
+  return typeof value === 'object' && value !== null && '_intent' in value;
+}
+
+export function serializeError(err: unknown): SerializedError {
+  const e = err instanceof Error ? err : new Error(String(err));
+  return { name: e.name, message: e.message, stack: e.stack };
+}
+
+export function deserializeError(data: SerializedError): Error {
+  const err = new Error(data.message);
+  err.name  = data.name;
+  if (data.stack) err.stack = data.stack;
+  return err;
+}
+
+let nonceCounter = 0;
+export function nonce(): string {
+  return `${process.pid}:${Date.now()}:${++nonceCounter}`;
+}
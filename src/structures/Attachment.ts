@@ -0,0 +1,28 @@
+import type { RawAttachment } from '../types';
+
+/** A file uploaded with a message */
+export class Attachment {
+  readonly id: string;
+  readonly name: string;
+  readonly contentType: string | null;
+  /** Bytes */
+  readonly size: number;
+  readonly url: string;
+  readonly width: number | null;
+  readonly height: number | null;
+
+  constructor(data: RawAttachment) {
+    this.id          = data.id;
+    this.name        = data.filename;
+    this.contentType = data.content_type ?? null;
+    this.size        = data.size;
+    this.url         = data.url;
+    this.width       = data.width ?? null;
+    this.height      = data.height ?? null;
+  }
+
+  /** True for image/* content types */
+  get isImage(): boolean {
+    return this.contentType?.startsWith('image/') ?? false;
+  }
+}
@@ -1,5 +1,25 @@
 import type { ClientRef } from '../client/ClientRef';
 import type { RawChannel } from '../types';
+import type { UpdateChannelData } from '../rest';
+import type { Server } from './Server';
+import type { Member } from './Member';
+import type { ThreadChannel } from './ThreadChannel';
+import { Message } from './Message';
+import { MessageManager } from '../managers/MessageManager';
+import { resolveMessageOptions, type MessageOptions } from '../builders/MessagePayload';
+import { Permissions, computePermissions, type PermissionOverwrite } from '../util/Permissions';
+
+/** Values of `channel.type` */
+export const ChannelTypes = {
+  TEXT:           0,
+  CATEGORY:       4,
+  PUBLIC_THREAD:  11,
+  PRIVATE_THREAD: 12,
+} as const;
+
+export function isThreadType(type: number): boolean {
+  return type === ChannelTypes.PUBLIC_THREAD || type === ChannelTypes.PRIVATE_THREAD;
+}
 
 export class Channel {
   readonly id: string;
@@ -9,9 +29,15 @@ export class Channel {
   readonly topic: string | null;
   readonly position: number;
   readonly parentId: string | null;
+  /** This channel's own overwrites — the parent category's apply underneath */
+  readonly permissionOverwrites: readonly PermissionOverwrite[];
   readonly createdAt: Date;
+  readonly messages: MessageManager;
 
-  constructor(data: RawChannel, _client: ClientRef) {
+  readonly #client: ClientRef;
+
+  constructor(data: RawChannel, client: ClientRef) {
+    this.#client   = client;
     this.id        = data.id;
     this.serverId  = data.server_id;
     this.name      = data.name;
@@ -19,6 +45,67 @@ export class Channel {
     this.topic     = data.topic ?? null;
     this.position  = data.position;
     this.parentId  = data.parent_id ?? null;
+    this.permissionOverwrites = (data.permission_overwrites ?? []).map((o) => ({
+      id:    o.id,
+      type:  o.type === 1 ? 'member' : 'role',
+      allow: new Permissions(BigInt(o.allow)),
+      deny:  new Permissions(BigInt(o.deny)),
+    }));
     this.createdAt = new Date(data.created_at);
+    this.messages  = new MessageManager(this.id, client);
+  }
+
+  /** The server this channel belongs to, if cached */
+  get server(): Server | null {
+    return this.#client.servers.get(this.serverId) ?? null;
+  }
+
+  isThread(): this is ThreadChannel {
+    return isThreadType(this.type);
+  }
+
+  /** The parent category, or for threads the channel the thread lives in — if any and cached */
+  get parent(): Channel | null {
+    return this.parentId ? this.#client.channels.get(this.parentId) ?? null : null;
+  }
+
+  /**
+   * A member's effective permissions here, from their roles, the parent
+   * category's overwrites and this channel's overwrites. Takes a member or a
+   * user id; null when the member or the server isn't cached.
+   */
+  permissionsFor(member: Member | string): Permissions | null {
+    const server = this.server;
+    if (!server) return null;
+    const resolved = typeof member !== 'string' && member.serverId === this.serverId
+      ? member
+      : server.members.get(typeof member === 'string' ? member : member.id);
+    if (!resolved) return null;
+
+    const parent = this.parent;
+    return computePermissions({
+      serverId:        this.serverId,
+      ownerId:         server.ownerId,
+      userId:          resolved.id,
+      roleIds:         resolved.roleIds,
+      rolePermissions: (id) => server.roles.get(id)?.permissions,
+      overwrites:      parent ? [parent.permissionOverwrites, this.permissionOverwrites] : [this.permissionOverwrites],
+    });
+  }
+
+  async send(content: string | MessageOptions): Promise<Message> {
+    const raw = await this.#client.rest.createMessage(this.id, resolveMessageOptions(content));
+    return new Message(raw, this.#client);
+  }
+
+  /** Structures are immutable — resolves with a new Channel reflecting the edit */
+  async edit(data: UpdateChannelData): Promise<Channel> {
+    const raw = await this.#client.rest.updateChannel(this.id, data);
+    return this.#client.channels._add(raw);
+  }
+
+  async delete(): Promise<void> {
+    await this.#client.rest.deleteChannel(this.id);
+    this.#client.channels.delete(this.id);
   }
 }
@@ -0,0 +1,29 @@
+import type { Client, ActivityOptions, PresenceData } from '../client/Client';
+import type { PresenceStatus } from '../gateway/types';
+import type { RawUser } from '../types';
+import { User } from './User';
+
+/** The bot's own user, as `client.user` — adds presence controls */
+export class ClientUser extends User {
+  readonly #client: Client;
+
+  constructor(data: RawUser, client: Client) {
+    super(data, client);
+    this.#client = client;
+  }
+
+  /** Same as client.setPresence() */
+  setPresence(presence: PresenceData): void {
+    this.#client.setPresence(presence);
+  }
+
+  /** Change the status, keeping the current activity */
+  setStatus(status: PresenceStatus): void {
+    this.#client.setPresence({ status });
+  }
+
+  /** Change the activity, keeping the current status — null clears it */
+  setActivity(activity: ActivityOptions | null): void {
+    this.#client.setPresence({ activity });
+  }
+}
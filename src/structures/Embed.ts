@@ -0,0 +1,65 @@
+import type { RawEmbed } from '../types';
+
+export interface EmbedField {
+  name: string;
+  value: string;
+  inline: boolean;
+}
+
+export interface EmbedAuthor {
+  name: string;
+  url: string | null;
+  iconUrl: string | null;
+}
+
+export interface EmbedFooter {
+  text: string;
+  iconUrl: string | null;
+}
+
+export interface EmbedImage {
+  url: string;
+  width: number | null;
+  height: number | null;
+}
+
+/** A received embed. Read-only — use EmbedBuilder.from(embed) to modify and resend one. */
+export class Embed {
+  readonly title: string | null;
+  readonly description: string | null;
+  readonly url: string | null;
+  readonly color: number | null;
+  readonly timestamp: Date | null;
+  readonly fields: readonly EmbedField[];
+  readonly author: EmbedAuthor | null;
+  readonly footer: EmbedFooter | null;
+  readonly image: EmbedImage | null;
+  readonly thumbnail: EmbedImage | null;
+
+  readonly #data: RawEmbed;
+
+  constructor(data: RawEmbed) {
+    this.#data       = data;
+    this.title       = data.title ?? null;
+    this.description = data.description ?? null;
+    this.url         = data.url ?? null;
+    this.color       = data.color ?? null;
+    this.timestamp   = data.timestamp ? new Date(data.timestamp) : null;
+    this.fields      = (data.fields ?? []).map((f) => ({ name: f.name, value: f.value, inline: f.inline ?? false }));
+    this.author      = data.author
+      ? { name: data.author.name, url: data.author.url ?? null, iconUrl: data.author.icon_url ?? null }
+      : null;
+    this.footer      = data.footer ? { text: data.footer.text, iconUrl: data.footer.icon_url ?? null } : null;
+    this.image       = data.image ? toImage(data.image) : null;
+    this.thumbnail   = data.thumbnail ? toImage(data.thumbnail) : null;
+  }
+
+  /** The wire shape this embed was built from — a copy, so editing it leaves this embed alone */
+  toJSON(): RawEmbed {
+    return structuredClone(this.#data);
+  }
+}
+
+function toImage(data: NonNullable<RawEmbed['image']>): EmbedImage {
+  return { url: data.url, width: data.width ?? null, height: data.height ?? null };
+}
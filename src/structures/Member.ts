@@ -0,0 +1,84 @@
+import type { ClientRef } from '../client/ClientRef';
+import type { RawMember } from '../types';
+import type { UpdateMemberData } from '../rest';
+import { User } from './User';
+import type { Role } from './Role';
+import type { Server } from './Server';
+
+/** A user's membership in one server */
+export class Member {
+  readonly user: User;
+  readonly serverId: string;
+  readonly nickname: string | null;
+  readonly roleIds: readonly string[];
+  readonly joinedAt: Date;
+
+  readonly #client: ClientRef;
+  readonly #data: RawMember;
+
+  constructor(data: RawMember, client: ClientRef) {
+    this.#client  = client;
+    this.#data    = data;
+    this.user     = new User(data.user, client);
+    this.serverId = data.server_id;
+    this.nickname = data.nickname ?? null;
+    this.roleIds  = [...data.role_ids];
+    this.joinedAt = new Date(data.joined_at);
+  }
+
+  /** Same as the user's id */
+  get id(): string {
+    return this.user.id;
+  }
+
+  /** Nickname if set, otherwise the user's display name */
+  get displayName(): string {
+    return this.nickname ?? this.user.displayName;
+  }
+
+  /** The server this membership belongs to, if cached */
+  get server(): Server | null {
+    return this.#client.servers.get(this.serverId) ?? null;
+  }
+
+  /** This member's roles that are cached, highest first */
+  get roles(): Role[] {
+    return this.roleIds
+      .map((id) => this.#client.roles.get(id))
+      .filter((r): r is Role => r !== undefined)
+      .sort((a, b) => b.position - a.position);
+  }
+
+  /** Structures are immutable — resolves with a new Member reflecting the edit */
+  async edit(data: UpdateMemberData): Promise<Member> {
+    const raw = await this.#client.rest.updateMember(this.serverId, this.id, data);
+    return this.#client.members._add(raw);
+  }
+
+  setNickname(nickname: string | null): Promise<Member> {
+    return this.edit({ nickname });
+  }
+
+  async addRole(role: Role | string): Promise<Member> {
+    const roleId = typeof role === 'string' ? role : role.id;
+    await this.#client.rest.addMemberRole(this.serverId, this.id, roleId);
+    if (this.roleIds.includes(roleId)) return this;
+    return this.#client.members._add({ ...this.#data, role_ids: [...this.roleIds, roleId] });
+  }
+
+  async removeRole(role: Role | string): Promise<Member> {
+    const roleId = typeof role === 'string' ? role : role.id;
+    await this.#client.rest.removeMemberRole(this.serverId, this.id, roleId);
+    return this.#client.members._add({ ...this.#data, role_ids: this.roleIds.filter((id) => id !== roleId) });
+  }
+
+  /** The raw data this structure was built from */
+  toJSON(): RawMember {
+    return { ...this.#data, role_ids: [...this.#data.role_ids] };
+  }
+
+  /** `<@id>` — mentions the member */
+  toString(): string {
+    return `<@${this.id}>`;
+  }
+}
@@ -1,6 +1,22 @@
 import type { ClientRef } from '../client/ClientRef';
 import type { RawMessage } from '../types';
+import type { CreateThreadData } from '../rest';
 import { User } from './User';
+import { Embed } from './Embed';
+import { Attachment } from './Attachment';
+import { Reaction, resolveEmoji, type EmojiResolvable } from './Reaction';
+import { Member } from './Member';
+import { MemberManager } from '../managers/MemberManager';
+import type { Channel } from './Channel';
+import type { ThreadChannel } from './ThreadChannel';
+import { resolveMessageOptions, type MessageOptions, type ReplyOptions } from '../builders/MessagePayload';
+
+/** Where a reply points */
+export interface MessageReference {
+  messageId: string;
+  channelId: string;
+  serverId: string | null;
+}
 
 export class Message {
   readonly id: string;
@@ -9,8 +25,15 @@ export class Message {
   readonly author: User;
   readonly createdAt: Date;
   readonly editedAt: Date | null;
+  readonly embeds: Embed[];
+  readonly attachments: Attachment[];
+  /** Reaction counts as of when this message was received — not kept live by reaction events */
+  readonly reactions: Reaction[];
+  /** The message this one replies to — null when it isn't a reply */
+  readonly reference: MessageReference | null;
 
   readonly #client: ClientRef;
+  readonly #member: Member | null;
 
   constructor(data: RawMessage, client: ClientRef) {
     this.#client   = client;
@@ -20,19 +43,73 @@ export class Message {
     this.author    = new User(data.author, client);
     this.createdAt = new Date(data.created_at);
     this.editedAt  = data.edited_at ? new Date(data.edited_at) : null;
+    this.embeds    = (data.embeds ?? []).map((e) => new Embed(e));
+    this.attachments = (data.attachments ?? []).map((a) => new Attachment(a));
+    this.reactions = (data.reactions ?? []).map((r) => new Reaction(r, this, client));
+    this.reference = data.message_reference
+      ? {
+        messageId: data.message_reference.message_id,
+        channelId: data.message_reference.channel_id ?? data.channel_id,
+        serverId:  data.message_reference.server_id ?? null,
+      }
+      : null;
+    this.#member   = data.member ? new Member(data.member, client) : null;
+  }
+
+  /** The channel this message was sent in, if cached */
+  get channel(): Channel | null {
+    return this.#client.channels.get(this.channelId) ?? null;
+  }
+
+  /**
+   * The author as a server member — from the message itself when the server
+   * sent it, otherwise from the member cache. Null outside servers.
+   */
+  get member(): Member | null {
+    if (this.#member) return this.#member;
+    const serverId = this.channel?.serverId;
+    if (!serverId) return null;
+    return this.#client.members.get(MemberManager.key(serverId, this.author.id)) ?? null;
+  }
+
+  /** Fetch the message this one replies to */
+  async fetchReference(): Promise<Message> {
+    if (!this.reference) throw new Error(`Message ${this.id} is not a reply`);
+    const raw = await this.#client.rest.getMessage(this.reference.channelId, this.reference.messageId);
+    return new Message(raw, this.#client);
+  }
+
+  /** Reply to this message — pass `ping: false` to reply without notifying the author */
+  async reply(content: string | ReplyOptions): Promise<Message> {
+    const ping = typeof content === 'string' ? true : content.ping ?? true;
+    const raw = await this.#client.rest.createMessage(this.channelId, {
+      ...resolveMessageOptions(content),
+      message_reference: { message_id: this.id },
+      allowed_mentions:  { replied_user: ping },
+    });
+    return new Message(raw, this.#client);
+  }
+
+  /** Start a thread from this message — takes the thread name or full options */
+  async startThread(options: string | CreateThreadData): Promise<ThreadChannel> {
+    const data = typeof options === 'string' ? { name: options } : options;
+    const raw = await this.#client.rest.createThreadFromMessage(this.channelId, this.id, data);
+    return this.#client.channels._add(raw) as ThreadChannel;
+  }
+
+  async edit(content: string | MessageOptions): Promise<Message> {
+    const raw = await this.#client.rest.updateMessage(this.channelId, this.id, resolveMessageOptions(content));
+    return new Message(raw, this.#client);
   }
 
-  // Phase 1 spec has no reply_to_id — posts to the same channel without threading
-  reply(content: string): Promise<Message> {
-    return this.#client.rest
-      .createMessage(this.channelId, { content })
-      .then((raw) => new Message(raw, this.#client));
+  /** React as the bot — a unicode emoji, `name:id`, `<:name:id>`, or an existing emoji/reaction */
+  react(emoji: EmojiResolvable): Promise<void> {
+    return this.#client.rest.addReaction(this.channelId, this.id, resolveEmoji(emoji));
   }
 
-  edit(content: string): Promise<Message> {
-    return this.#client.rest
-      .updateMessage(this.channelId, this.id, { content })
-      .then((raw) => new Message(raw, this.#client));
+  /** Remove every reaction, or only those for one emoji */
+  clearReactions(emoji?: EmojiResolvable): Promise<void> {
+    return this.#client.rest.clearReactions(this.channelId, this.id, emoji === undefined ? undefined : resolveEmoji(emoji));
   }
 
   delete(): Promise<void> {
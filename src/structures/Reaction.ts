@@ -0,0 +1,76 @@
+import type { ClientRef } from '../client/ClientRef';
+import type { RawEmoji, RawReaction } from '../types';
+import type { ListReactionUsersQuery } from '../rest';
+import type { User } from './User';
+import type { Message } from './Message';
+
+/** A unicode emoji, a custom emoji, or either one's `name:id` identifier */
+export type EmojiResolvable = string | ReactionEmoji | Reaction;
+
+/** The emoji a reaction was made with */
+export class ReactionEmoji {
+  /** null for unicode emoji */
+  readonly id: string | null;
+  readonly name: string;
+  readonly animated: boolean;
+
+  constructor(data: RawEmoji) {
+    this.id       = data.id;
+    this.name     = data.name;
+    this.animated = data.animated ?? false;
+  }
+
+  /** How the API names this emoji in reaction routes — the character itself, or `name:id` */
+  get identifier(): string {
+    return this.id ? `${this.name}:${this.id}` : this.name;
+  }
+
+  /** Renders the emoji in message content */
+  toString(): string {
+    return this.id ? `<${this.animated ? 'a' : ''}:${this.name}:${this.id}>` : this.name;
+  }
+}
+
+/** One emoji's reactions on a message */
+export class Reaction {
+  readonly message: Message;
+  readonly emoji: ReactionEmoji;
+  readonly count: number;
+  /** Whether the bot is one of the reactors */
+  readonly me: boolean;
+
+  readonly #client: ClientRef;
+
+  constructor(data: RawReaction, message: Message, client: ClientRef) {
+    this.#client = client;
+    this.message = message;
+    this.emoji   = new ReactionEmoji(data.emoji);
+    this.count   = data.count;
+    this.me      = data.me;
+  }
+
+  /** One page of the users who reacted, oldest first — page with `after` */
+  async fetchUsers(query?: ListReactionUsersQuery): Promise<User[]> {
+    const raw = await this.#client.rest.listReactionUsers(
+      this.message.channelId, this.message.id, this.emoji.identifier, query,
+    );
+    return raw.map((u) => this.#client.users._add(u));
+  }
+
+  /** Remove the bot's reaction, or another user's by id */
+  remove(userId?: string): Promise<void> {
+    const { channelId, id } = this.message;
+    return userId === undefined
+      ? this.#client.rest.removeOwnReaction(channelId, id, this.emoji.identifier)
+      : this.#client.rest.removeUserReaction(channelId, id, this.emoji.identifier, userId);
+  }
+}
+
+/** Turn anything emoji-like into the identifier reaction routes take */
+export function resolveEmoji(emoji: EmojiResolvable): string {
+  if (emoji instanceof Reaction) return emoji.emoji.identifier;
+  if (emoji instanceof ReactionEmoji) return emoji.identifier;
+  // `<:name:id>` / `<a:name:id>` as copied from message content
+  const custom = /^<a?:(\w+):(\d+)>$/.exec(emoji);
+  return custom ? `${custom[1]}:${custom[2]}` : emoji;
+}
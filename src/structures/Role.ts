@@ -0,0 +1,42 @@
+import type { ClientRef } from '../client/ClientRef';
+import type { RawRole } from '../types';
+import type { Server } from './Server';
+import { Permissions } from '../util/Permissions';
+
+export class Role {
+  readonly id: string;
+  readonly serverId: string;
+  readonly name: string;
+  /** 24-bit RGB, 0 when the role has no color */
+  readonly color: number;
+  readonly position: number;
+  readonly permissions: Permissions;
+  readonly hoist: boolean;
+  readonly mentionable: boolean;
+  readonly createdAt: Date;
+
+  readonly #client: ClientRef;
+
+  constructor(data: RawRole, client: ClientRef) {
+    this.#client     = client;
+    this.id          = data.id;
+    this.serverId    = data.server_id;
+    this.name        = data.name;
+    this.color       = data.color;
+    this.position    = data.position;
+    this.permissions = new Permissions(BigInt(data.permissions));
+    this.hoist       = data.hoist ?? false;
+    this.mentionable = data.mentionable ?? false;
+    this.createdAt   = new Date(data.created_at);
+  }
+
+  /** The server this role belongs to, if cached */
+  get server(): Server | null {
+    return this.#client.servers.get(this.serverId) ?? null;
+  }
+
+  /** `<@&id>` — pings the role when it's mentionable */
+  toString(): string {
+    return `<@&${this.id}>`;
+  }
+}
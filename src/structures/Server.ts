@@ -1,5 +1,9 @@
 import type { ClientRef } from '../client/ClientRef';
 import type { RawServer } from '../types';
+import type { UpdateServerData } from '../rest';
+import { ServerChannelManager } from '../managers/ServerChannelManager';
+import { ServerMemberManager } from '../managers/ServerMemberManager';
+import { ServerRoleManager } from '../managers/ServerRoleManager';
 
 export class Server {
   readonly id: string;
@@ -9,8 +13,18 @@ export class Server {
   readonly description: string | null;
   readonly memberCount: number;
   readonly createdAt: Date;
+  /** Server is in an outage — see the client's serverUnavailable event */
+  readonly unavailable: boolean;
+  readonly channels: ServerChannelManager;
+  readonly members: ServerMemberManager;
+  readonly roles: ServerRoleManager;
 
-  constructor(data: RawServer, _client: ClientRef) {
+  readonly #client: ClientRef;
+  readonly #data: RawServer;
+
+  constructor(data: RawServer, client: ClientRef) {
+    this.#client     = client;
+    this.#data       = data;
     this.id          = data.id;
     this.name        = data.name;
     this.ownerId     = data.owner_id;
@@ -18,5 +32,25 @@ export class Server {
     this.description = data.description ?? null;
     this.memberCount = data.member_count;
     this.createdAt   = new Date(data.created_at);
+    this.unavailable = data.unavailable ?? false;
+    this.channels    = new ServerChannelManager(this.id, client);
+    this.members     = new ServerMemberManager(this.id, client);
+    this.roles       = new ServerRoleManager(this.id, client);
+  }
+
+  /** Structures are immutable — resolves with a new Server reflecting the edit */
+  async edit(data: UpdateServerData): Promise<Server> {
+    const raw = await this.#client.rest.updateServer(this.id, data);
+    return this.#client.servers._add(raw);
+  }
+
+  /** Re-fetch this server from the API, bypassing the cache */
+  fetch(): Promise<Server> {
+    return this.#client.servers.fetch(this.id, { force: true });
+  }
+
+  /** The raw data this structure was built from */
+  toJSON(): RawServer {
+    return { ...this.#data };
   }
 }
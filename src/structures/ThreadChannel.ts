@@ -0,0 +1,65 @@
+import type { ClientRef } from '../client/ClientRef';
+import type { RawChannel } from '../types';
+import type { UpdateThreadData } from '../rest';
+import type { Member } from './Member';
+import type { Permissions } from '../util/Permissions';
+import { Channel } from './Channel';
+
+/**
+ * A thread — a channel hanging off a message in its parent channel.
+ * `parentId` is that channel; permissions are the parent's.
+ */
+export class ThreadChannel extends Channel {
+  /** Who started the thread */
+  readonly ownerId: string | null;
+  readonly archived: boolean;
+  readonly locked: boolean;
+  /** Minutes of inactivity before the thread archives itself */
+  readonly autoArchiveDuration: number;
+  readonly archivedAt: Date | null;
+  /** Approximate, stops counting at 50 */
+  readonly messageCount: number;
+  /** Approximate, stops counting at 50 */
+  readonly memberCount: number;
+
+  readonly #client: ClientRef;
+
+  constructor(data: RawChannel, client: ClientRef) {
+    super(data, client);
+    this.#client  = client;
+    this.ownerId  = data.owner_id ?? null;
+    this.archived = data.thread_metadata?.archived ?? false;
+    this.locked   = data.thread_metadata?.locked ?? false;
+    this.autoArchiveDuration = data.thread_metadata?.auto_archive_duration ?? 1440;
+    this.archivedAt   = data.thread_metadata?.archived_at ? new Date(data.thread_metadata.archived_at) : null;
+    this.messageCount = data.message_count ?? 0;
+    this.memberCount  = data.member_count ?? 0;
+  }
+
+  /** Threads have no overwrites of their own — null when the parent isn't cached */
+  override permissionsFor(member: Member | string): Permissions | null {
+    return this.parent?.permissionsFor(member) ?? null;
+  }
+
+  /** Structures are immutable — resolves with a new ThreadChannel reflecting the edit */
+  override async edit(data: UpdateThreadData): Promise<ThreadChannel> {
+    const raw = await this.#client.rest.updateThread(this.id, data);
+    return this.#client.channels._add(raw) as ThreadChannel;
+  }
+
+  setArchived(archived = true): Promise<ThreadChannel> {
+    return this.edit({ archived });
+  }
+
+  setLocked(locked = true): Promise<ThreadChannel> {
+    return this.edit({ locked });
+  }
+
+  join(): Promise<void> {
+    return this.#client.rest.joinThread(this.id);
+  }
+
+  leave(): Promise<void> {
+    return this.#client.rest.leaveThread(this.id);
+  }
+}
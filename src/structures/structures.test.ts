@@ -1,14 +1,29 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi, afterEach } from 'vitest';
 import { Channel } from './Channel';
 import { Server } from './Server';
 import { User } from './User';
 import { Message } from './Message';
+import { Embed } from './Embed';
+import { Attachment } from './Attachment';
+import { Member } from './Member';
+import { Reaction, ReactionEmoji, resolveEmoji } from './Reaction';
 import type { ClientRef } from '../client/ClientRef';
 import type { RawChannel, RawServer, RawUser, RawMessage } from '../types';
 import { REST } from '../rest';
+import { ServerManager } from '../managers/ServerManager';
+import { ChannelManager } from '../managers/ChannelManager';
+import { UserManager } from '../managers/UserManager';
+import { MemberManager } from '../managers/MemberManager';
+import { RoleManager } from '../managers/RoleManager';
 
 function makeClientRef(): ClientRef {
-  return { rest: new REST({ token: 'test' }) };
+  const client = { rest: new REST({ token: 'test' }) } as { -readonly [K in keyof ClientRef]: ClientRef[K] };
+  client.servers  = new ServerManager(client);
+  client.channels = new ChannelManager(client);
+  client.users    = new UserManager(client);
+  client.members  = new MemberManager(client);
+  client.roles    = new RoleManager(client);
+  return client;
 }
 
 const rawUser: RawUser = {
@@ -72,6 +87,43 @@ describe('structures', () => {
       expect(ch.topic).toBe('welcome');
       expect(ch.parentId).toBeNull();
     });
+
+    it('computes permissionsFor() from cached roles and category overwrites', () => {
+      const ref = makeClientRef();
+      const role = { server_id: '1', name: 'role', color: 0, position: 0, created_at: '2025-01-01T00:00:00Z' };
+      ref.servers._add({ ...rawServer, owner_id: '999', roles: [
+        { ...role, id: '1', permissions: String(1 << 10 | 1 << 11) },
+        { ...role, id: '500', permissions: String(1 << 13) },
+      ] });
+      ref.channels._add({ ...rawChannel, id: '150', type: 4, permission_overwrites: [{ id: '1', type: 0, allow: '0', deny: String(1 << 11) }] });
+      const channel = ref.channels._add({ ...rawChannel, parent_id: '150', permission_overwrites: [{ id: '100', type: 1, allow: String(1 << 11), deny: '0' }] });
+      const member = ref.members._add({ user: rawUser, server_id: '1', role_ids: ['500'], joined_at: '2025-01-01T00:00:00Z' });
+      ref.members._add({ user: { ...rawUser, id: '101' }, server_id: '1', role_ids: [], joined_at: '2025-01-01T00:00:00Z' });
+
+      expect(channel.permissionsFor(member)?.toArray()).toEqual(['VIEW_CHANNEL', 'SEND_MESSAGES', 'MANAGE_MESSAGES']);
+      expect(channel.permissionsFor('101')?.toArray()).toEqual(['VIEW_CHANNEL']);
+      expect(channel.permissionsFor('102')).toBeNull();
+      expect(new Channel({ ...rawChannel, server_id: '2' }, ref).permissionsFor(member)).toBeNull();
+    });
+
+    it('gives threads their parent channel permissions', () => {
+      const ref = makeClientRef();
+      ref.servers._add({ ...rawServer, roles: [{ id: '1', server_id: '1', name: '@everyone', color: 0, position: 0, permissions: String(1 << 10 | 1 << 11), created_at: rawServer.created_at }] });
+      ref.members._add({ user: { ...rawUser, id: '101' }, server_id: '1', role_ids: [], joined_at: rawServer.created_at });
+      const thread = ref.channels._add({ ...rawChannel, id: '250', type: 11, parent_id: '200' });
+      expect(thread.permissionsFor('101')).toBeNull();
+
+      ref.channels._add({ ...rawChannel, permission_overwrites: [{ id: '1', type: 0, allow: '0', deny: String(1 << 11) }] });
+      expect(thread.isThread()).toBe(true);
+      expect(thread.permissionsFor('101')?.toArray()).toEqual(['VIEW_CHANNEL']);
+    });
+
+    it('resolves its server from the client cache', () => {
+      const ref = makeClientRef();
+      ref.servers._add(rawServer);
+      expect(new Channel(rawChannel, ref).server?.name).toBe('Test Server');
+      expect(new Channel({ ...rawChannel, server_id: '999' }, ref).server).toBeNull();
+    });
   });
 
   describe('Server', () => {
@@ -84,6 +136,21 @@ describe('structures', () => {
     });
   });
 
+  describe('Member', () => {
+    it('orders its cached roles highest first', () => {
+      const ref = makeClientRef();
+      const role = { server_id: '1', color: 0, permissions: '0', created_at: '2025-01-01T00:00:00Z' };
+      ref.roles._add({ ...role, id: '500', name: 'Low', position: 1 });
+      ref.roles._add({ ...role, id: '501', name: 'High', position: 5 });
+      const member = new Member({ user: rawUser, server_id: '1', role_ids: ['500', '501', '502'], joined_at: '2025-01-01T00:00:00Z' }, ref);
+
+      expect(member.roles.map((r) => r.name)).toEqual(['High', 'Low']);
+      expect(member.displayName).toBe('Test Bot');
+      expect(member.toString()).toBe('<@100>');
+      expect(ref.roles.get('501')?.toString()).toBe('<@&501>');
+    });
+  });
+
   describe('Message', () => {
     it('maps raw wire data and wraps author as User', () => {
       const msg = new Message(rawMessage, client);
@@ -94,5 +161,97 @@ describe('structures', () => {
       expect(msg.author.username).toBe('testbot');
       expect(msg.editedAt).toBeNull();
     });
+
+    it('wraps raw embeds as Embed structures', () => {
+      const msg = new Message({
+        ...rawMessage,
+        embeds: [{ title: 'Status', color: 0xff0000, footer: { text: 'ok' }, timestamp: '2025-01-01T00:00:00Z' }],
+      }, client);
+      expect(msg.embeds).toHaveLength(1);
+      expect(msg.embeds[0]).toBeInstanceOf(Embed);
+      expect(msg.embeds[0].title).toBe('Status');
+      expect(msg.embeds[0].footer).toEqual({ text: 'ok', iconUrl: null });
+      expect(msg.embeds[0].timestamp).toBeInstanceOf(Date);
+      expect(msg.embeds[0].fields).toEqual([]);
+      expect(new Message(rawMessage, client).embeds).toEqual([]);
+    });
+
+    it('wraps raw attachments as Attachment structures', () => {
+      const msg = new Message({
+        ...rawMessage,
+        attachments: [{ id: '900', filename: 'cat.png', content_type: 'image/png', size: 1024, url: 'https://cdn.test/cat.png', width: 64, height: 48 }],
+      }, client);
+      expect(msg.attachments).toHaveLength(1);
+      expect(msg.attachments[0]).toBeInstanceOf(Attachment);
+      expect(msg.attachments[0]).toMatchObject({ name: 'cat.png', contentType: 'image/png', size: 1024, width: 64, isImage: true });
+      expect(new Message(rawMessage, client).attachments).toEqual([]);
+    });
+
+    it('exposes the author as a member in server channels', () => {
+      const ref = makeClientRef();
+      const member = { user: rawUser, server_id: '1', nickname: 'Nick', role_ids: [], joined_at: '2025-01-01T00:00:00Z' };
+      expect(new Message({ ...rawMessage, member }, ref).member?.displayName).toBe('Nick');
+      expect(new Message(rawMessage, ref).member).toBeNull();
+
+      ref.channels._add(rawChannel);
+      ref.members._add(member);
+      expect(new Message(rawMessage, ref).member?.nickname).toBe('Nick');
+    });
+
+    it('resolves its channel from the client cache', () => {
+      const ref = makeClientRef();
+      expect(new Message(rawMessage, ref).channel).toBeNull();
+      ref.channels._add(rawChannel);
+      expect(new Message(rawMessage, ref).channel?.name).toBe('general');
+    });
+  });
+
+  describe('Reaction', () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    const reactions = [
+      { emoji: { id: null, name: '👍' }, count: 3, me: true },
+      { emoji: { id: '42', name: 'party', animated: true }, count: 1, me: false },
+    ];
+
+    it('wraps raw reactions on a message', () => {
+      const msg = new Message({ ...rawMessage, reactions }, client);
+      expect(msg.reactions.map((r) => r.emoji.identifier)).toEqual(['👍', 'party:42']);
+      expect(msg.reactions[0]).toMatchObject({ count: 3, me: true, message: msg });
+      expect(String(msg.reactions[1].emoji)).toBe('<a:party:42>');
+      expect(new Message(rawMessage, client).reactions).toEqual([]);
+    });
+
+    it('resolves emoji from strings, mentions and structures', () => {
+      const msg = new Message({ ...rawMessage, reactions }, client);
+      expect(resolveEmoji('👍')).toBe('👍');
+      expect(resolveEmoji('<:party:42>')).toBe('party:42');
+      expect(resolveEmoji(new ReactionEmoji({ id: '7', name: 'cat' }))).toBe('cat:7');
+      expect(resolveEmoji(msg.reactions[1])).toBe('party:42');
+    });
+
+    it('reacts and pages reactors through REST', async () => {
+      const fetchMock = vi.fn(async (url: string) => (url.includes('?')
+        ? new Response(JSON.stringify([rawUser]), { status: 200, headers: { 'content-type': 'application/json' } })
+        : new Response(null, { status: 204 })));
+      vi.stubGlobal('fetch', fetchMock);
+      const ref = makeClientRef();
+      const msg = new Message({ ...rawMessage, reactions }, ref);
+
+      await msg.react('<:party:42>');
+      const users = await msg.reactions[0].fetchUsers({ limit: 10 });
+      await msg.reactions[0].remove('100');
+
+      expect(fetchMock.mock.calls.map(([url]) => url.replace(/^.*\/reactions/, ''))).toEqual([
+        '/party%3A42/@me',
+        '/%F0%9F%91%8D?limit=10',
+        '/%F0%9F%91%8D/100',
+      ]);
+      expect(users[0]).toBeInstanceOf(User);
+      expect(ref.users.get('100')?.username).toBe('testbot');
+      expect(msg.reactions[0]).toBeInstanceOf(Reaction);
+    });
   });
 });
@@ -0,0 +1,250 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Client } from '../client/Client';
+import { WebhookClient } from '../client/WebhookClient';
+import { REST } from '../rest/REST';
+import { NotFoundError, RateLimitError, ServerError, UnauthorizedError } from '../rest/errors';
+import type { Message } from '../structures/Message';
+import type { ThreadChannel } from '../structures/ThreadChannel';
+import { MockIntentServer } from './MockIntentServer';
+import type { RawChannel } from '../types';
+
+describe('MockIntentServer', () => {
+  let server: MockIntentServer;
+  let client: Client | null;
+  let channel: RawChannel;
+
+  beforeEach(async () => {
+    client = null;
+    server = new MockIntentServer({ token: 'bot_test' });
+    await server.start();
+    channel = server.addChannel({ server_id: server.addServer({ name: 'Mock' }).id });
+  });
+
+  afterEach(async () => {
+    client?.destroy();
+    await server.stop();
+  });
+
+  async function login(): Promise<Client> {
+    client = new Client({ token: 'bot_test', ...server.clientOptions });
+    await client.login();
+    return client;
+  }
+
+  function nextMessage(c: Client): Promise<Message> {
+    return new Promise((resolve) => c.once('messageCreate', resolve));
+  }
+
+  function rest(options: { token?: string; maxRetries?: number } = {}): REST {
+    return new REST({ token: 'bot_test', baseURL: server.restUrl, ...options });
+  }
+
+  describe('gateway', () => {
+    it('answers IDENTIFY with READY carrying the seeded servers', async () => {
+      const identified = new Promise((resolve) => server.once('identify', resolve));
+      const c = await login();
+      expect(await identified).toMatchObject({ token: 'bot_test' });
+      expect(c.user?.id).toBe(server.user.id);
+      expect([...c.servers.values()].map((s) => s.name)).toEqual(['Mock']);
+      expect(server.connections).toBe(1);
+    });
+
+    it('delivers injected dispatches', async () => {
+      const c = await login();
+      const received = nextMessage(c);
+      server.dispatch('MESSAGE_CREATE', server.addMessage({ channel_id: channel.id, content: '!ping' }));
+      expect((await received).content).toBe('!ping');
+    });
+
+    it('replays missed dispatches when a dropped client resumes', async () => {
+      const c = await login();
+      // Resuming needs a sequence number, so the client must have seen one dispatch
+      const first = nextMessage(c);
+      server.dispatch('MESSAGE_CREATE', server.addMessage({ channel_id: channel.id, content: 'before' }));
+      await first;
+
+      const resumed = new Promise<number>((resolve) => c.once('resumed', resolve));
+      const received = nextMessage(c);
+
+      server.dropConnections();
+      server.dispatch('MESSAGE_CREATE', server.addMessage({ channel_id: channel.id, content: 'while away' }));
+
+      expect(await resumed).toBe(1);
+      expect((await received).content).toBe('while away');
+    });
+
+    it('speaks the encoding and compression the client negotiates', async () => {
+      client = new Client({ token: 'bot_test', ...server.clientOptions, encoding: 'json', compress: 'zlib-stream' });
+      await client.login();
+
+      for (const content of ['one', 'two']) {
+        const received = nextMessage(client);
+        server.dispatch('MESSAGE_CREATE', server.addMessage({ channel_id: channel.id, content }));
+        expect((await received).content).toBe(content);
+      }
+    });
+
+    it('reports presence updates', async () => {
+      const c = await login();
+      const presence = new Promise((resolve) => server.once('presence', (data, shardId) => resolve([data, shardId])));
+      c.setPresence({ status: 'idle' });
+      expect(await presence).toEqual([{ status: 'idle', activity: null }, 0]);
+    });
+
+    it('rejects a bad token on IDENTIFY', async () => {
+      client = new Client({ token: 'wrong', ...server.clientOptions });
+      const closed = new Promise((resolve) => client!.once('disconnect', resolve));
+      await expect(client.login()).rejects.toMatchObject({ name: 'GatewayError', code: 4004 });
+      expect(await closed).toBe(4004);
+    });
+  });
+
+  describe('REST', () => {
+    it('stores sent messages and dispatches them back to the bot', async () => {
+      const c = await login();
+      const echoed = nextMessage(c);
+      const sent = await c.rest.createMessage(channel.id, { content: 'hello' });
+
+      expect((await echoed).id).toBe(sent.id);
+      expect(server.messages.get(sent.id)).toMatchObject({ content: 'hello', author: { id: server.user.id } });
+      expect(server.requests.at(-1)).toMatchObject({ method: 'POST', path: `/channels/${channel.id}/messages` });
+    });
+
+    it('threads replies to the message they answer', async () => {
+      const c = await login();
+      const original = server.addMessage({ channel_id: channel.id, content: 'question' });
+      const echoed = nextMessage(c);
+      await c.rest.createMessage(channel.id, { content: 'answer', message_reference: { message_id: original.id } });
+
+      const reply = await echoed;
+      expect(reply.reference).toMatchObject({ messageId: original.id, channelId: channel.id });
+      expect((await reply.fetchReference()).content).toBe('question');
+    });
+
+    it('serves members and roles, dispatching member updates', async () => {
+      const role = server.addRole({ server_id: channel.server_id, name: 'mod' });
+      const member = server.addMember({ server_id: channel.server_id });
+      server.addMember({ server_id: channel.server_id });
+      const c = await login();
+      const guild = c.servers.get(channel.server_id)!;
+
+      expect(await guild.members.fetch()).toHaveLength(2);
+      expect((await guild.members.fetch({ limit: 1, after: member.user.id }))[0].id).not.toBe(member.user.id);
+      expect((await guild.roles.fetch()).map((r) => r.name)).toEqual(['mod']);
+
+      const updated = new Promise((resolve) => c.once('memberUpdate', (_, m) => resolve(m.roleIds)));
+      await (await guild.members.fetch(member.user.id)).addRole(role);
+      expect(await updated).toEqual([role.id]);
+      expect(server.members.get(`${channel.server_id}:${member.user.id}`)?.role_ids).toEqual([role.id]);
+
+      await expect(rest().getMember(channel.server_id, '1')).rejects.toThrow('Unknown member');
+    });
+
+    it('tracks reactions and dispatches them', async () => {
+      const other = server.addUser();
+      const c = await login();
+      const message = await c.rest.createMessage(channel.id, { content: 'vote' });
+
+      const added = new Promise((resolve) => c.once('messageReactionAdd', resolve));
+      await c.rest.addReaction(channel.id, message.id, 'party:123');
+      expect(await added).toMatchObject({ messageId: message.id, userId: server.user.id, emoji: { id: '123', name: 'party' } });
+
+      server.addReaction(message.id, 'party:123', other.id);
+      expect(server.messages.get(message.id)?.reactions).toEqual([{ emoji: { id: '123', name: 'party' }, count: 2, me: true }]);
+      expect((await c.rest.listReactionUsers(channel.id, message.id, 'party:123')).map((u) => u.id).sort())
+        .toEqual([server.user.id, other.id].sort());
+
+      const removed = new Promise((resolve) => c.once('messageReactionRemove', resolve));
+      await c.rest.removeUserReaction(channel.id, message.id, 'party:123', other.id);
+      expect(await removed).toMatchObject({ userId: other.id });
+
+      await c.rest.clearReactions(channel.id, message.id);
+      expect(server.messages.get(message.id)?.reactions).toEqual([]);
+    });
+
+    it('runs threads from creation to deletion', async () => {
+      const c = await login();
+      const starter = await c.rest.createMessage(channel.id, { content: 'topic' });
+
+      const created = new Promise<ThreadChannel>((resolve) => c.once('threadCreate', resolve));
+      const thread = await c.rest.createThreadFromMessage(channel.id, starter.id, { name: 'talk' });
+      expect((await created).parentId).toBe(channel.id);
+      expect((await c.servers.get(channel.server_id)!.channels.fetchActiveThreads()).map((t) => t.id)).toEqual([thread.id]);
+
+      await c.rest.leaveThread(thread.id);
+      expect(server.channels.get(thread.id)?.member_count).toBe(0);
+      await c.rest.joinThread(thread.id);
+      expect(server.channels.get(thread.id)?.member_count).toBe(1);
+
+      const updated = new Promise<ThreadChannel>((resolve) => c.once('threadUpdate', (_, t) => resolve(t)));
+      await c.rest.updateThread(thread.id, { archived: true });
+      expect((await updated).archived).toBe(true);
+      expect(await c.rest.listActiveThreads(channel.server_id)).toEqual([]);
+
+      const deleted = new Promise<ThreadChannel>((resolve) => c.once('threadDelete', resolve));
+      await c.rest.deleteChannel(thread.id);
+      expect((await deleted).id).toBe(thread.id);
+    });
+
+    it('creates webhooks and posts through them with the token alone', async () => {
+      const c = await login();
+      const webhook = await c.rest.createWebhook(channel.id, { name: 'Deploys' });
+      expect(await c.rest.listChannelWebhooks(channel.id)).toEqual([webhook]);
+
+      const hook = new WebhookClient({ url: `${server.restUrl}/webhooks/${webhook.id}/${webhook.token}` });
+      const echoed = nextMessage(c);
+      const sent = await hook.send({ content: 'started', username: 'CI' });
+      expect((await echoed).author.username).toBe('CI');
+      expect((await hook.editMessage(sent.id, 'finished')).content).toBe('finished');
+      await hook.deleteMessage(sent.id);
+      expect(server.messages.has(sent.id)).toBe(false);
+
+      await expect(new WebhookClient({ id: webhook.id, token: 'wrong' }, { restUrl: server.restUrl }).send('hi'))
+        .rejects.toBeInstanceOf(NotFoundError);
+      await c.rest.deleteWebhook(webhook.id);
+      expect(server.webhooks.size).toBe(0);
+    });
+
+    it('pages message history newest first', async () => {
+      const ids = Array.from({ length: 5 }, () => server.addMessage({ channel_id: channel.id }).id);
+      const api = rest();
+
+      expect((await api.listMessages(channel.id, { limit: 2 })).map((m) => m.id)).toEqual([ids[4], ids[3]]);
+      expect((await api.listMessages(channel.id, { before: ids[2] })).map((m) => m.id)).toEqual([ids[1], ids[0]]);
+      expect((await api.listMessages(channel.id, { after: ids[0], limit: 2 })).map((m) => m.id)).toEqual([ids[2], ids[1]]);
+    });
+
+    it('records uploads as attachments', async () => {
+      const sent = await rest().createMessage(channel.id, {
+        content: 'log',
+        files: [{ data: Buffer.from('line 1'), name: 'out.txt' }],
+      });
+      expect(sent.attachments).toMatchObject([{ filename: 'out.txt', content_type: 'text/plain', size: 6 }]);
+      expect(server.requests.at(-1)?.files[0].data.toString()).toBe('line 1');
+    });
+
+    it('returns 404 for unknown entities', async () => {
+      await expect(rest().getChannel('1')).rejects.toThrow('Unknown channel');
+    });
+
+    it('requires the configured token', async () => {
+      await expect(rest({ token: 'wrong' }).getChannel(channel.id)).rejects.toBeInstanceOf(UnauthorizedError);
+    });
+
+    it('forces rate limits the client retries through', async () => {
+      server.failNext({ status: 429, times: 2, route: `GET /channels/${channel.id}` });
+      await expect(rest().getChannel(channel.id)).resolves.toMatchObject({ id: channel.id });
+      expect(server.requests).toHaveLength(3);
+
+      server.failNext({ status: 429, retryAfter: 0 });
+      await expect(rest({ maxRetries: 0 }).getChannel(channel.id)).rejects.toBeInstanceOf(RateLimitError);
+    });
+
+    it('forces server errors', async () => {
+      server.failNext({ status: 503 });
+      const err = await rest({ maxRetries: 0 }).getChannel(channel.id).catch((e: unknown) => e);
+      expect(err).toBeInstanceOf(ServerError);
+      expect((err as ServerError).status).toBe(503);
+    });
+  });
+});
@@ -0,0 +1,994 @@
+import { EventEmitter } from 'events';
+import { createServer as createHttpServer, type IncomingMessage, type Server as HttpServer, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import * as zlib from 'zlib';
+import { WebSocketServer, WebSocket, type RawData } from 'ws';
+import { resolveCodec, type GatewayCodec } from '../gateway/encoding';
+import { Opcodes } from '../gateway/types';
+import { ChannelTypes, isThreadType } from '../structures/Channel';
+import type {
+  GatewayPayload,
+  GatewayDispatchEvent,
+  GatewayDispatchEvents,
+  IdentifyData,
+  ReadyData,
+  ResumeData,
+  PresenceUpdateData,
+} from '../gateway/types';
+import type {
+  RawUser,
+  RawServer,
+  RawChannel,
+  RawMessage,
+  RawMessageReference,
+  RawAttachment,
+  RawMember,
+  RawRole,
+  RawEmoji,
+  RawWebhook,
+} from '../types';
+import {
+  createUser,
+  createServer,
+  createChannel,
+  createMessage,
+  createMember,
+  createRole,
+  createWebhook,
+  nextSnowflake,
+} from './fixtures';
+
+export interface MockIntentServerOptions {
+  /** Token clients must present on IDENTIFY and REST calls — any token is accepted when omitted */
+  token?: string;
+  /** The bot user sent in READY and used as the author of messages created over REST */
+  user?: RawUser;
+  /** heartbeat_interval sent in READY, in ms — defaults to 45000 */
+  heartbeatInterval?: number;
+}
+
+export interface ForcedFailure {
+  status: number;
+  /** Requests to fail before answering normally again — defaults to 1 */
+  times?: number;
+  /** Only fail requests whose `METHOD /path` matches, e.g. `'POST /channels/1/messages'` */
+  route?: string | RegExp;
+  /** 429 only: seconds sent as retry_after — defaults to 0 so the client retries at once */
+  retryAfter?: number;
+  /** 429 only */
+  global?: boolean;
+}
+
+export interface UploadedFile {
+  name: string;
+  contentType: string;
+  data: Buffer;
+}
+
+/** A REST call as the mock server saw it */
+export interface RecordedRequest {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  /** Parsed JSON body, or `payload_json` for multipart requests */
+  body: unknown;
+  files: UploadedFile[];
+}
+
+export interface DispatchOptions {
+  /** Send to this shard only, instead of routing by the payload's server */
+  shardId?: number;
+}
+
+export interface MockIntentServerEvents {
+  identify: [data: IdentifyData];
+  resume: [data: ResumeData];
+  heartbeat: [seq: number | null];
+  /** A PRESENCE_UPDATE sent after identify — the initial presence is on the identify event */
+  presence: [data: PresenceUpdateData, shardId: number];
+  request: [request: RecordedRequest];
+}
+
+interface Session {
+  id: string;
+  shard: [number, number];
+  seq: number;
+  /** Every dispatch sent on this session, replayed on RESUME */
+  log: GatewayPayload[];
+  connection: MockConnection | null;
+}
+
+interface MockResponse {
+  status: number;
+  body?: unknown;
+}
+
+type RouteHandler = (req: RecordedRequest, params: string[]) => MockResponse | Promise<MockResponse>;
+
+/**
+ * In-process stand-in for the Intent API, for end-to-end bot tests with no network.
+ *
+ * Serves the gateway (IDENTIFY → READY, heartbeats, RESUME with replay) in
+ * whichever encoding the client asks for, optionally zlib-stream compressed,
+ * and every REST route REST knows about on one local port, backed by plain
+ * Maps of servers, channels, users, messages, members, roles and webhooks.
+ * REST writes update that state and dispatch the matching gateway event, so a
+ * bot sees its own actions the way it would in production.
+ *
+ * Seed state with addServer/addChannel/addUser/addMessage/addMember/addRole,
+ * addReaction and addWebhook — these are silent; use dispatch() to deliver an event. dropConnections(),
+ * invalidateSessions() and failNext() simulate the failures a bot has to
+ * survive.
+ *
+ * @example
+ * const server = new MockIntentServer()
+ * await server.start()
+ * const channel = server.addChannel({ server_id: server.addServer().id })
+ * const client = new Client({ token: 'test', ...server.clientOptions })
+ * await client.login()
+ * server.dispatch('MESSAGE_CREATE', server.addMessage({ channel_id: channel.id, content: '!ping' }))
+ */
+export class MockIntentServer extends EventEmitter {
+  readonly user: RawUser;
+  readonly servers  = new Map<string, RawServer>();
+  readonly channels = new Map<string, RawChannel>();
+  readonly users    = new Map<string, RawUser>();
+  readonly messages = new Map<string, RawMessage>();
+  /** Keyed `serverId:userId` */
+  readonly members  = new Map<string, RawMember>();
+  readonly roles    = new Map<string, RawRole>();
+  readonly webhooks = new Map<string, RawWebhook>();
+  /** Every REST call received, oldest first */
+  readonly requests: RecordedRequest[] = [];
+
+  readonly #token: string | null;
+  readonly #heartbeatInterval: number;
+  readonly #sessions = new Map<string, Session>();
+  readonly #connections = new Set<MockConnection>();
+  readonly #failures: ForcedFailure[] = [];
+  // Who joined each thread, by thread id
+  readonly #threadMembers = new Map<string, Set<string>>();
+  // Who reacted, keyed `messageId:emoji` with the emoji as it appears in the route
+  readonly #reactors = new Map<string, Set<string>>();
+  readonly #routes: [method: string, pattern: RegExp, handler: RouteHandler][];
+  #http: HttpServer | null = null;
+  #wss: WebSocketServer | null = null;
+  #port: number | null = null;
+
+  constructor(options: MockIntentServerOptions = {}) {
+    super();
+    this.#token = options.token ?? null;
+    this.#heartbeatInterval = options.heartbeatInterval ?? 45_000;
+    this.user = options.user ?? createUser({ username: 'testbot', display_name: 'Test Bot' });
+    this.users.set(this.user.id, this.user);
+    this.#routes = this.#buildRoutes();
+  }
+
+  /** Base URL for REST — pass as ClientOptions.restUrl */
+  get restUrl(): string {
+    return `http://127.0.0.1:${this.#requirePort()}`;
+  }
+
+  /** Pass as ClientOptions.gatewayUrl */
+  get gatewayUrl(): string {
+    return `ws://127.0.0.1:${this.#requirePort()}`;
+  }
+
+  /** Spread into ClientOptions to point a Client at this server */
+  get clientOptions(): { restUrl: string; gatewayUrl: string } {
+    return { restUrl: this.restUrl, gatewayUrl: this.gatewayUrl };
+  }
+
+  /** Gateway connections currently open */
+  get connections(): number {
+    return this.#connections.size;
+  }
+
+  /** Listen on `port`, or a free port when omitted */
+  async start(port = 0): Promise<void> {
+    if (this.#http) throw new Error('MockIntentServer is already started');
+    const http = createHttpServer((req, res) => {
+      void this.#onRequest(req, res);
+    });
+    const wss = new WebSocketServer({ server: http });
+    wss.on('connection', (socket, req) => this.#onConnection(socket, req));
+
+    await new Promise<void>((resolve, reject) => {
+      http.once('error', reject);
+      http.listen(port, '127.0.0.1', () => resolve());
+    });
+    this.#http = http;
+    this.#wss  = wss;
+    this.#port = (http.address() as AddressInfo).port;
+  }
+
+  async stop(): Promise<void> {
+    for (const conn of this.#connections) conn.socket.terminate();
+    this.#connections.clear();
+    const http = this.#http;
+    const wss  = this.#wss;
+    this.#http = null;
+    this.#wss  = null;
+    this.#port = null;
+    if (!http || !wss) return;
+    await new Promise((resolve) => wss.close(resolve));
+    // fetch keeps connections alive — without this close() waits for them to idle out
+    http.closeAllConnections();
+    await new Promise((resolve) => http.close(resolve));
+  }
+
+  // ---- state ----
+
+  addServer(overrides: Partial<RawServer> = {}): RawServer {
+    const server = createServer({ owner_id: this.user.id, ...overrides });
+    this.servers.set(server.id, server);
+    return server;
+  }
+
+  addChannel(overrides: Partial<RawChannel> = {}): RawChannel {
+    const channel = createChannel(overrides);
+    this.channels.set(channel.id, channel);
+    return channel;
+  }
+
+  addUser(overrides: Partial<RawUser> = {}): RawUser {
+    const user = createUser(overrides);
+    this.users.set(user.id, user);
+    return user;
+  }
+
+  addMember(overrides: Partial<RawMember> & { server_id: string }): RawMember {
+    const member = createMember(overrides);
+    this.users.set(member.user.id, member.user);
+    this.members.set(`${member.server_id}:${member.user.id}`, member);
+    return member;
+  }
+
+  addRole(overrides: Partial<RawRole> & { server_id: string }): RawRole {
+    const role = createRole(overrides);
+    this.roles.set(role.id, role);
+    return role;
+  }
+
+  addMessage(overrides: Partial<RawMessage> = {}): RawMessage {
+    const message = createMessage(overrides);
+    this.users.set(message.author.id, message.author);
+    this.messages.set(message.id, message);
+    return message;
+  }
+
+  addWebhook(overrides: Partial<RawWebhook> & { channel_id: string }): RawWebhook {
+    const webhook = createWebhook({ server_id: this.channels.get(overrides.channel_id)?.server_id, ...overrides });
+    this.webhooks.set(webhook.id, webhook);
+    return webhook;
+  }
+
+  /** React to a seeded message — `emoji` is unicode or `name:id`, as in REST routes */
+  addReaction(messageId: string, emoji: string, userId: string = this.user.id): RawMessage {
+    const message = this.messages.get(messageId);
+    if (!message) throw new Error(`Unknown message ${messageId}`);
+    return this.#setReaction(message, emoji, userId, true);
+  }
+
+  // ---- gateway ----
+
+  /**
+   * Send a dispatch to every session on the shard that owns its server — found
+   * from the payload's `server_id`, or its channel's — using the usual
+   * `(server_id >> 22) % shard_count`. Events with no server go to shard 0.
+   * Sessions whose socket has dropped queue the event for replay on RESUME.
+   */
+  dispatch<K extends GatewayDispatchEvent>(t: K, d: GatewayDispatchEvents[K], options?: DispatchOptions): void;
+  dispatch(t: string, d: unknown, options?: DispatchOptions): void;
+  dispatch(t: string, d: unknown, options: DispatchOptions = {}): void {
+    const serverId = this.#serverIdOf(t, d);
+    for (const session of this.#sessions.values()) {
+      const [shardId, shardCount] = session.shard;
+      const target = options.shardId ?? (serverId === null ? 0 : shardFor(serverId, shardCount));
+      if (target !== shardId) continue;
+
+      const payload: GatewayPayload = { op: Opcodes.DISPATCH, t, s: ++session.seq, d };
+      session.log.push(payload);
+      session.connection?.send(payload);
+    }
+  }
+
+  /**
+   * Close every gateway connection. With no code the sockets are destroyed
+   * outright, like a network failure (close code 1006). Sessions survive, so
+   * clients can resume.
+   */
+  dropConnections(code?: number): void {
+    for (const { socket } of this.#connections) {
+      if (code === undefined) socket.terminate();
+      else socket.close(code);
+    }
+  }
+
+  /** Forget every session — the next RESUME gets INVALID_SESSION and must re-identify */
+  invalidateSessions(): void {
+    this.#sessions.clear();
+  }
+
+  // ---- REST ----
+
+  /** Answer the next matching REST call(s) with an error instead of handling them */
+  failNext(failure: ForcedFailure): void {
+    this.#failures.push({ ...failure, times: failure.times ?? 1 });
+  }
+
+  on<K extends keyof MockIntentServerEvents>(event: K, listener: (...args: MockIntentServerEvents[K]) => void): this;
+  on(event: string, listener: (...args: unknown[]) => void): this;
+  on(event: string, listener: (...args: unknown[]) => void): this {
+    return super.on(event, listener);
+  }
+
+  once<K extends keyof MockIntentServerEvents>(event: K, listener: (...args: MockIntentServerEvents[K]) => void): this;
+  once(event: string, listener: (...args: unknown[]) => void): this;
+  once(event: string, listener: (...args: unknown[]) => void): this {
+    return super.once(event, listener);
+  }
+
+  emit<K extends keyof MockIntentServerEvents>(event: K, ...args: MockIntentServerEvents[K]): boolean;
+  emit(event: string, ...args: unknown[]): boolean;
+  emit(event: string, ...args: unknown[]): boolean {
+    return super.emit(event, ...args);
+  }
+
+  #requirePort(): number {
+    if (this.#port === null) throw new Error('MockIntentServer is not started — await start() first');
+    return this.#port;
+  }
+
+  #authorized(token: string | undefined): boolean {
+    return this.#token === null || token === this.#token;
+  }
+
+  // ---- gateway internals ----
+
+  #onConnection(socket: WebSocket, req: IncomingMessage): void {
+    const query = new URL(req.url ?? '/', 'ws://mock').searchParams;
+    let codec: GatewayCodec;
+    try {
+      codec = resolveCodec((query.get('encoding') ?? 'msgpack') as 'msgpack' | 'json');
+    } catch {
+      socket.close(4012, 'Unknown encoding');
+      return;
+    }
+    const compress = query.get('compress');
+    if (compress !== null && compress !== 'zlib-stream') {
+      socket.close(4013, 'Unsupported compression');
+      return;
+    }
+
+    const conn = new MockConnection(socket, codec, compress !== null);
+    this.#connections.add(conn);
+    let session: Session | null = null;
+
+    socket.on('close', () => {
+      this.#connections.delete(conn);
+      conn.close();
+      if (session?.connection === conn) session.connection = null;
+    });
+
+    socket.on('message', (data) => {
+      let payload: GatewayPayload;
+      try {
+        payload = codec.decode(toBuffer(data));
+      } catch {
+        socket.close(4002, 'Decode error');
+        return;
+      }
+
+      switch (payload.op) {
+        case Opcodes.HEARTBEAT:
+          this.emit('heartbeat', (payload.d as number | null) ?? null);
+          conn.send({ op: Opcodes.HEARTBEAT_ACK });
+          break;
+
+        case Opcodes.PRESENCE_UPDATE:
+          if (session) this.emit('presence', payload.d as PresenceUpdateData, session.shard[0]);
+          break;
+
+        case Opcodes.IDENTIFY: {
+          const identify = payload.d as IdentifyData;
+          if (!this.#authorized(identify.token)) {
+            socket.close(4004, 'Authentication failed');
+            return;
+          }
+          session = { id: nextSnowflake(), shard: identify.shard ?? [0, 1], seq: 0, log: [], connection: conn };
+          this.#sessions.set(session.id, session);
+          this.emit('identify', identify);
+
+          const [shardId, shardCount] = session.shard;
+          const ready: ReadyData = {
+            user: this.user,
+            servers: [...this.servers.values()].filter((s) => shardFor(s.id, shardCount) === shardId),
+            session_id: session.id,
+            heartbeat_interval: this.#heartbeatInterval,
+          };
+          conn.send({ op: Opcodes.READY, d: ready });
+          break;
+        }
+
+        case Opcodes.RESUME: {
+          const resume = payload.d as ResumeData;
+          const existing = this.#sessions.get(resume.session_id);
+          if (!existing || !this.#authorized(resume.token)) {
+            conn.send({ op: Opcodes.INVALID_SESSION, d: false });
+            return;
+          }
+          if (existing.connection && existing.connection !== conn) existing.connection.socket.terminate();
+          existing.connection = conn;
+          session = existing;
+          this.emit('resume', resume);
+
+          for (const missed of existing.log) {
+            if (missed.s! > resume.seq) conn.send(missed);
+          }
+          conn.send({ op: Opcodes.RESUMED });
+          break;
+        }
+      }
+    });
+  }
+
+  #serverIdOf(t: string, d: unknown): string | null {
+    if (!d || typeof d !== 'object') return null;
+    const data = d as Record<string, unknown>;
+    // Member and role events carry server_id; the server events themselves only their id
+    if (typeof data.server_id === 'string') return data.server_id;
+    if (t.startsWith('SERVER_')) return typeof data.id === 'string' ? data.id : null;
+    if (typeof data.channel_id === 'string') return this.channels.get(data.channel_id)?.server_id ?? null;
+    return null;
+  }
+
+  // ---- REST internals ----
+
+  async #onRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    let reply: MockResponse;
+    try {
+      const recorded = await readRequest(req);
+      this.requests.push(recorded);
+      this.emit('request', recorded);
+      reply = await this.#handle(recorded, req.headers.authorization);
+    } catch (err) {
+      reply = { status: 500, body: { error: err instanceof Error ? err.message : String(err) } };
+    }
+
+    if (reply.status === 204) {
+      res.writeHead(204).end();
+      return;
+    }
+    res.writeHead(reply.status, { 'content-type': 'application/json' });
+    res.end(JSON.stringify(reply.body ?? {}));
+  }
+
+  async #handle(req: RecordedRequest, authorization: string | undefined): Promise<MockResponse> {
+    // Webhook token routes authorize with the token in the path instead
+    const webhookRoute = /^\/webhooks\/\d+\/[^/]+/.test(req.path);
+    if (!webhookRoute && this.#token !== null && authorization !== `Bearer ${this.#token}`) {
+      return { status: 401, body: { error: 'Unauthorized' } };
+    }
+
+    const forced = this.#takeFailure(`${req.method} ${req.path}`);
+    if (forced) {
+      if (forced.status === 429) {
+        return {
+          status: 429,
+          body: { error: 'You are being rate limited', retry_after: forced.retryAfter ?? 0, global: forced.global ?? false },
+        };
+      }
+      return { status: forced.status, body: { error: `Forced ${forced.status}` } };
+    }
+
+    for (const [method, pattern, handler] of this.#routes) {
+      if (method !== req.method) continue;
+      const match = pattern.exec(req.path);
+      if (match) return handler(req, match.slice(1));
+    }
+    return { status: 404, body: { error: `No route for ${req.method} ${req.path}` } };
+  }
+
+  #takeFailure(route: string): ForcedFailure | null {
+    const index = this.#failures.findIndex((f) =>
+      f.route === undefined || (typeof f.route === 'string' ? f.route === route : f.route.test(route)));
+    if (index === -1) return null;
+    const failure = this.#failures[index];
+    if (--failure.times! <= 0) this.#failures.splice(index, 1);
+    return failure;
+  }
+
+  #buildRoutes(): [string, RegExp, RouteHandler][] {
+    const ok = (body: unknown): MockResponse => ({ status: 200, body });
+    const noContent: MockResponse = { status: 204 };
+    const unknown = (what: string): MockResponse => ({ status: 404, body: { error: `Unknown ${what}` } });
+    const body = (req: RecordedRequest): Record<string, unknown> => (req.body ?? {}) as Record<string, unknown>;
+
+    return [
+      ['GET', /^\/users\/(\d+)$/, (_, [id]) => {
+        const user = this.users.get(id);
+        return user ? ok(user) : unknown('user');
+      }],
+
+      ['GET', /^\/servers$/, () => ok([...this.servers.values()])],
+      ['POST', /^\/servers$/, (req) => {
+        const server = this.addServer(pick(body(req), ['name', 'description']));
+        this.dispatch('SERVER_CREATE', server);
+        return ok(server);
+      }],
+      ['GET', /^\/servers\/(\d+)$/, (_, [id]) => {
+        const server = this.servers.get(id);
+        return server ? ok(server) : unknown('server');
+      }],
+      ['PATCH', /^\/servers\/(\d+)$/, (req, [id]) => {
+        const server = this.servers.get(id);
+        if (!server) return unknown('server');
+        const updated = { ...server, ...pick(body(req), ['name', 'description']) };
+        this.servers.set(id, updated);
+        this.dispatch('SERVER_UPDATE', updated);
+        return ok(updated);
+      }],
+      ['DELETE', /^\/servers\/(\d+)$/, (_, [id]) => {
+        if (!this.servers.has(id)) return unknown('server');
+        this.dispatch('SERVER_DELETE', { id });
+        this.servers.delete(id);
+        for (const channel of this.channels.values()) {
+          if (channel.server_id === id) this.channels.delete(channel.id);
+        }
+        for (const [key, member] of this.members) {
+          if (member.server_id === id) this.members.delete(key);
+        }
+        for (const role of this.roles.values()) {
+          if (role.server_id === id) this.roles.delete(role.id);
+        }
+        return noContent;
+      }],
+
+      ['GET', /^\/servers\/(\d+)\/members$/, (req, [id]) => {
+        if (!this.servers.has(id)) return unknown('server');
+        const limit = Math.min(Number(req.query.get('limit') ?? 100), 1000);
+        const after = BigInt(req.query.get('after') ?? 0);
+        return ok([...this.members.values()]
+          .filter((m) => m.server_id === id && BigInt(m.user.id) > after)
+          .sort((a, b) => (BigInt(a.user.id) > BigInt(b.user.id) ? 1 : -1))
+          .slice(0, limit));
+      }],
+      ['GET', /^\/servers\/(\d+)\/members\/(\d+)$/, (_, [id, userId]) => {
+        const member = this.members.get(`${id}:${userId}`);
+        return member ? ok(member) : unknown('member');
+      }],
+      ['PATCH', /^\/servers\/(\d+)\/members\/(\d+)$/, (req, [id, userId]) => {
+        const member = this.members.get(`${id}:${userId}`);
+        if (!member) return unknown('member');
+        return ok(this.#updateMember({ ...member, ...pick(body(req), ['nickname']) }));
+      }],
+      ['PUT', /^\/servers\/(\d+)\/members\/(\d+)\/roles\/(\d+)$/, (_, [id, userId, roleId]) => {
+        const member = this.members.get(`${id}:${userId}`);
+        if (!member) return unknown('member');
+        if (this.roles.get(roleId)?.server_id !== id) return unknown('role');
+        if (!member.role_ids.includes(roleId)) this.#updateMember({ ...member, role_ids: [...member.role_ids, roleId] });
+        return noContent;
+      }],
+      ['DELETE', /^\/servers\/(\d+)\/members\/(\d+)\/roles\/(\d+)$/, (_, [id, userId, roleId]) => {
+        const member = this.members.get(`${id}:${userId}`);
+        if (!member) return unknown('member');
+        if (member.role_ids.includes(roleId)) {
+          this.#updateMember({ ...member, role_ids: member.role_ids.filter((r) => r !== roleId) });
+        }
+        return noContent;
+      }],
+      ['GET', /^\/servers\/(\d+)\/roles$/, (_, [id]) => {
+        if (!this.servers.has(id)) return unknown('server');
+        return ok([...this.roles.values()].filter((r) => r.server_id === id));
+      }],
+
+      ['GET', /^\/servers\/(\d+)\/channels$/, (_, [id]) => {
+        if (!this.servers.has(id)) return unknown('server');
+        return ok([...this.channels.values()].filter((c) => c.server_id === id));
+      }],
+      ['POST', /^\/servers\/(\d+)\/channels$/, (req, [id]) => {
+        if (!this.servers.has(id)) return unknown('server');
+        const data = body(req);
+        if (typeof data.name !== 'string') return { status: 400, body: { error: 'name is required' } };
+        const channel = this.addChannel({ ...pick(data, ['name', 'type', 'topic', 'position']), server_id: id });
+        this.dispatch('CHANNEL_CREATE', channel);
+        return ok(channel);
+      }],
+      ['GET', /^\/channels\/(\d+)$/, (_, [id]) => {
+        const channel = this.channels.get(id);
+        return channel ? ok(channel) : unknown('channel');
+      }],
+      ['PATCH', /^\/channels\/(\d+)$/, (req, [id]) => {
+        const channel = this.channels.get(id);
+        if (!channel) return unknown('channel');
+        if (isThreadType(channel.type)) {
+          const data = body(req);
+          const metadata = { ...channel.thread_metadata!, ...pick(data, ['archived', 'locked', 'auto_archive_duration']) };
+          if (data.archived !== undefined) metadata.archived_at = data.archived ? new Date().toISOString() : null;
+          const updated = { ...channel, ...pick(data, ['name']), thread_metadata: metadata };
+          this.channels.set(id, updated);
+          this.dispatch('THREAD_UPDATE', updated);
+          return ok(updated);
+        }
+        const updated = { ...channel, ...pick(body(req), ['name', 'topic', 'position']) };
+        this.channels.set(id, updated);
+        this.dispatch('CHANNEL_UPDATE', updated);
+        return ok(updated);
+      }],
+      ['DELETE', /^\/channels\/(\d+)$/, (_, [id]) => {
+        const channel = this.channels.get(id);
+        if (!channel) return unknown('channel');
+        this.dispatch(isThreadType(channel.type) ? 'THREAD_DELETE' : 'CHANNEL_DELETE', channel);
+        this.channels.delete(id);
+        this.#threadMembers.delete(id);
+        return noContent;
+      }],
+
+      ['POST', /^\/channels\/(\d+)\/messages\/(\d+)\/threads$/, (req, [channelId, id]) => {
+        const parent = this.channels.get(channelId);
+        if (!parent || this.messages.get(id)?.channel_id !== channelId) return unknown('message');
+        const data = body(req);
+        if (typeof data.name !== 'string') return { status: 400, body: { error: 'name is required' } };
+        const thread = this.addChannel({
+          server_id: parent.server_id,
+          parent_id: channelId,
+          name: data.name,
+          type: ChannelTypes.PUBLIC_THREAD,
+          owner_id: this.user.id,
+          thread_metadata: {
+            archived: false,
+            locked: false,
+            auto_archive_duration: typeof data.auto_archive_duration === 'number' ? data.auto_archive_duration : 1440,
+          },
+          message_count: 0,
+          member_count: 1,
+        });
+        this.#threadMembers.set(thread.id, new Set([this.user.id]));
+        this.dispatch('THREAD_CREATE', thread);
+        return ok(thread);
+      }],
+      ['GET', /^\/servers\/(\d+)\/threads\/active$/, (_, [id]) => {
+        if (!this.servers.has(id)) return unknown('server');
+        return ok([...this.channels.values()].filter((c) =>
+          c.server_id === id && isThreadType(c.type) && !c.thread_metadata?.archived));
+      }],
+      ['PUT', /^\/channels\/(\d+)\/thread-members\/@me$/, (_, [id]) => this.#joinThread(id, true)],
+      ['DELETE', /^\/channels\/(\d+)\/thread-members\/@me$/, (_, [id]) => this.#joinThread(id, false)],
+
+      ['GET', /^\/channels\/(\d+)\/messages$/, (req, [id]) => {
+        if (!this.channels.has(id)) return unknown('channel');
+        return ok(this.#listMessages(id, req.query));
+      }],
+      ['POST', /^\/channels\/(\d+)\/messages$/, (req, [id]) => {
+        if (!this.channels.has(id)) return unknown('channel');
+        const data = body(req);
+        if (!data.content && !(data.embeds as unknown[] | undefined)?.length && !req.files.length) {
+          return { status: 400, body: { error: 'Cannot send an empty message' } };
+        }
+        const reference = data.message_reference as RawMessageReference | undefined;
+        const message = this.addMessage({
+          ...pick(data, ['content', 'embeds']),
+          ...(reference && { message_reference: { ...reference, channel_id: id } }),
+          channel_id: id,
+          author: this.user,
+          attachments: this.#attachments(req.files),
+        });
+        this.dispatch('MESSAGE_CREATE', message);
+        return ok(message);
+      }],
+      ['GET', /^\/channels\/(\d+)\/messages\/(\d+)$/, (_, [channelId, id]) => {
+        const message = this.messages.get(id);
+        return message?.channel_id === channelId ? ok(message) : unknown('message');
+      }],
+      ['PATCH', /^\/channels\/(\d+)\/messages\/(\d+)$/, (req, [channelId, id]) => {
+        const message = this.messages.get(id);
+        if (message?.channel_id !== channelId) return unknown('message');
+        const updated: RawMessage = {
+          ...message,
+          ...pick(body(req), ['content', 'embeds']),
+          edited_at: new Date().toISOString(),
+        };
+        if (req.files.length) updated.attachments = [...(message.attachments ?? []), ...this.#attachments(req.files)];
+        this.messages.set(id, updated);
+        this.dispatch('MESSAGE_UPDATE', updated);
+        return ok(updated);
+      }],
+      ['DELETE', /^\/channels\/(\d+)\/messages\/(\d+)$/, (_, [channelId, id]) => {
+        const message = this.messages.get(id);
+        if (message?.channel_id !== channelId) return unknown('message');
+        this.dispatch('MESSAGE_DELETE', { id, channel_id: channelId });
+        this.messages.delete(id);
+        return noContent;
+      }],
+
+      ['GET', /^\/channels\/(\d+)\/messages\/(\d+)\/reactions\/([^/]+)$/, (req, [channelId, id, emoji]) => {
+        const message = this.messages.get(id);
+        if (message?.channel_id !== channelId) return unknown('message');
+        const limit = Math.min(Number(req.query.get('limit') ?? 25), 100);
+        const after = BigInt(req.query.get('after') ?? 0);
+        return ok([...this.#reactors.get(`${id}:${decodeURIComponent(emoji)}`) ?? []]
+          .filter((userId) => BigInt(userId) > after)
+          .sort((a, b) => (BigInt(a) > BigInt(b) ? 1 : -1))
+          .slice(0, limit)
+          .map((userId) => this.users.get(userId) ?? createUser({ id: userId })));
+      }],
+      ['PUT', /^\/channels\/(\d+)\/messages\/(\d+)\/reactions\/([^/]+)\/@me$/, (_, [channelId, id, emoji]) => {
+        const message = this.messages.get(id);
+        if (message?.channel_id !== channelId) return unknown('message');
+        this.#react(message, decodeURIComponent(emoji), this.user.id, true);
+        return noContent;
+      }],
+      ['DELETE', /^\/channels\/(\d+)\/messages\/(\d+)\/reactions\/([^/]+)\/(@me|\d+)$/, (_, [channelId, id, emoji, user]) => {
+        const message = this.messages.get(id);
+        if (message?.channel_id !== channelId) return unknown('message');
+        this.#react(message, decodeURIComponent(emoji), user === '@me' ? this.user.id : user, false);
+        return noContent;
+      }],
+      ['DELETE', /^\/channels\/(\d+)\/messages\/(\d+)\/reactions(?:\/([^/]+))?$/, (_, [channelId, id, emoji]) => {
+        const message = this.messages.get(id);
+        if (message?.channel_id !== channelId) return unknown('message');
+        const key = emoji === undefined ? null : `${id}:${decodeURIComponent(emoji)}`;
+        for (const reactors of this.#reactors.keys()) {
+          if (key === null ? reactors.startsWith(`${id}:`) : reactors === key) this.#reactors.delete(reactors);
+        }
+        this.messages.set(id, { ...message, reactions: this.#reactionsOf(id) });
+        return noContent;
+      }],
+
+      ['GET', /^\/channels\/(\d+)\/webhooks$/, (_, [id]) => {
+        if (!this.channels.has(id)) return unknown('channel');
+        return ok([...this.webhooks.values()].filter((w) => w.channel_id === id));
+      }],
+      ['POST', /^\/channels\/(\d+)\/webhooks$/, (req, [id]) => {
+        if (!this.channels.has(id)) return unknown('channel');
+        const data = body(req);
+        if (typeof data.name !== 'string') return { status: 400, body: { error: 'name is required' } };
+        return ok(this.addWebhook({ ...pick(data, ['name', 'avatar_url']), channel_id: id, user: this.user }));
+      }],
+      ['DELETE', /^\/webhooks\/(\d+)$/, (_, [id]) => {
+        if (!this.webhooks.delete(id)) return unknown('webhook');
+        return noContent;
+      }],
+      ['POST', /^\/webhooks\/(\d+)\/([^/]+)$/, (req, [id, token]) => {
+        const webhook = this.#webhook(id, token);
+        if (!webhook) return unknown('webhook');
+        const data = body(req);
+        if (!data.content && !(data.embeds as unknown[] | undefined)?.length && !req.files.length) {
+          return { status: 400, body: { error: 'Cannot send an empty message' } };
+        }
+        const message = this.addMessage({
+          ...pick(data, ['content', 'embeds']),
+          channel_id: webhook.channel_id,
+          // Posts under the webhook's id, with this message's name and avatar overrides
+          author: createUser({
+            id: webhook.id,
+            username: typeof data.username === 'string' ? data.username : webhook.name,
+            display_name: typeof data.username === 'string' ? data.username : webhook.name,
+            avatar_url: typeof data.avatar_url === 'string' ? data.avatar_url : webhook.avatar_url ?? null,
+          }),
+          attachments: this.#attachments(req.files),
+        });
+        this.dispatch('MESSAGE_CREATE', message);
+        return req.query.get('wait') === 'true' ? ok(message) : noContent;
+      }],
+      ['PATCH', /^\/webhooks\/(\d+)\/([^/]+)\/messages\/(\d+)$/, (req, [id, token, messageId]) => {
+        const webhook = this.#webhook(id, token);
+        if (!webhook) return unknown('webhook');
+        const message = this.messages.get(messageId);
+        if (message?.author.id !== webhook.id) return unknown('message');
+        const updated: RawMessage = {
+          ...message,
+          ...pick(body(req), ['content', 'embeds']),
+          edited_at: new Date().toISOString(),
+        };
+        if (req.files.length) updated.attachments = [...(message.attachments ?? []), ...this.#attachments(req.files)];
+        this.messages.set(messageId, updated);
+        this.dispatch('MESSAGE_UPDATE', updated);
+        return ok(updated);
+      }],
+      ['DELETE', /^\/webhooks\/(\d+)\/([^/]+)\/messages\/(\d+)$/, (_, [id, token, messageId]) => {
+        const webhook = this.#webhook(id, token);
+        if (!webhook) return unknown('webhook');
+        const message = this.messages.get(messageId);
+        if (message?.author.id !== webhook.id) return unknown('message');
+        this.dispatch('MESSAGE_DELETE', { id: messageId, channel_id: message.channel_id });
+        this.messages.delete(messageId);
+        return noContent;
+      }],
+    ];
+  }
+
+  /** The webhook, if `token` is its token — a wrong token reads as an unknown webhook */
+  #webhook(id: string, token: string): RawWebhook | undefined {
+    const webhook = this.webhooks.get(id);
+    return webhook?.token === decodeURIComponent(token) ? webhook : undefined;
+  }
+
+  #joinThread(id: string, join: boolean): MockResponse {
+    const thread = this.channels.get(id);
+    if (!thread || !isThreadType(thread.type)) return { status: 404, body: { error: 'Unknown thread' } };
+    const members = this.#threadMembers.get(id) ?? new Set<string>();
+    if (join) members.add(this.user.id);
+    else members.delete(this.user.id);
+    this.#threadMembers.set(id, members);
+    this.channels.set(id, { ...thread, member_count: members.size });
+    return { status: 204 };
+  }
+
+  /** Add or remove one user's reaction and dispatch it, if that changed anything */
+  #react(message: RawMessage, emoji: string, userId: string, add: boolean): void {
+    const reacted = this.#reactors.get(`${message.id}:${emoji}`)?.has(userId) ?? false;
+    if (reacted === add) return;
+    this.#setReaction(message, emoji, userId, add);
+    const serverId = this.channels.get(message.channel_id)?.server_id;
+    this.dispatch(add ? 'MESSAGE_REACTION_ADD' : 'MESSAGE_REACTION_REMOVE', {
+      user_id: userId,
+      channel_id: message.channel_id,
+      message_id: message.id,
+      ...(serverId && { server_id: serverId }),
+      emoji: parseEmoji(emoji),
+    });
+  }
+
+  #setReaction(message: RawMessage, emoji: string, userId: string, add: boolean): RawMessage {
+    const key = `${message.id}:${emoji}`;
+    const reactors = this.#reactors.get(key) ?? new Set<string>();
+    if (add) reactors.add(userId);
+    else reactors.delete(userId);
+    if (reactors.size > 0) this.#reactors.set(key, reactors);
+    else this.#reactors.delete(key);
+
+    const updated = { ...message, reactions: this.#reactionsOf(message.id) };
+    this.messages.set(message.id, updated);
+    return updated;
+  }
+
+  #reactionsOf(messageId: string): RawMessage['reactions'] {
+    const prefix = `${messageId}:`;
+    return [...this.#reactors]
+      .filter(([key]) => key.startsWith(prefix))
+      .map(([key, reactors]) => ({
+        emoji: parseEmoji(key.slice(prefix.length)),
+        count: reactors.size,
+        me: reactors.has(this.user.id),
+      }));
+  }
+
+  #updateMember(member: RawMember): RawMember {
+    this.members.set(`${member.server_id}:${member.user.id}`, member);
+    this.dispatch('SERVER_MEMBER_UPDATE', member);
+    return member;
+  }
+
+  /** Newest first, like the real API, honouring limit and one of before/after/around */
+  #listMessages(channelId: string, query: URLSearchParams): RawMessage[] {
+    const all = [...this.messages.values()]
+      .filter((m) => m.channel_id === channelId)
+      .sort((a, b) => (BigInt(b.id) > BigInt(a.id) ? 1 : -1));
+    const limit = Math.min(Number(query.get('limit') ?? 50), 100);
+    const before = query.get('before');
+    const after  = query.get('after');
+    const around = query.get('around');
+
+    if (after) return all.filter((m) => BigInt(m.id) > BigInt(after)).slice(-limit);
+    if (around) {
+      const newer = all.filter((m) => BigInt(m.id) > BigInt(around)).slice(-Math.floor(limit / 2));
+      const rest  = all.filter((m) => BigInt(m.id) <= BigInt(around)).slice(0, limit - newer.length);
+      return [...newer, ...rest];
+    }
+    return (before ? all.filter((m) => BigInt(m.id) < BigInt(before)) : all).slice(0, limit);
+  }
+
+  #attachments(files: UploadedFile[]): RawAttachment[] {
+    return files.map((file) => {
+      const id = nextSnowflake();
+      return {
+        id,
+        filename: file.name,
+        content_type: file.contentType,
+        size: file.data.length,
+        url: `${this.restUrl}/attachments/${id}/${encodeURIComponent(file.name)}`,
+      };
+    });
+  }
+}
+
+/** The usual snowflake shard routing: `(id >> 22) % shardCount` */
+function shardFor(serverId: string, shardCount: number): number {
+  return Number((BigInt(serverId) >> 22n) % BigInt(shardCount));
+}
+
+/** One gateway socket, speaking the encoding and compression it asked for */
+class MockConnection {
+  readonly socket: WebSocket;
+  readonly #codec: GatewayCodec;
+  // One deflate context for the whole connection, flushed after every payload
+  readonly #deflate: zlib.Deflate | null;
+  #outbound: Promise<void> = Promise.resolve();
+
+  constructor(socket: WebSocket, codec: GatewayCodec, compress: boolean) {
+    this.socket  = socket;
+    this.#codec  = codec;
+    this.#deflate = compress ? zlib.createDeflate() : null;
+  }
+
+  send(payload: GatewayPayload): void {
+    if (this.socket.readyState !== WebSocket.OPEN) return;
+    const encoded = this.#codec.encode(payload);
+    const deflate = this.#deflate;
+    if (!deflate) {
+      this.socket.send(encoded);
+      return;
+    }
+
+    // Flushes complete asynchronously — chained so frames go out in order
+    this.#outbound = this.#outbound.then(() => new Promise<void>((resolve) => {
+      const chunks: Buffer[] = [];
+      const onData = (chunk: Buffer): void => { chunks.push(chunk); };
+      deflate.on('data', onData);
+      deflate.write(typeof encoded === 'string' ? Buffer.from(encoded) : encoded);
+      deflate.flush(zlib.constants.Z_SYNC_FLUSH, () => {
+        deflate.off('data', onData);
+        if (this.socket.readyState === WebSocket.OPEN) this.socket.send(Buffer.concat(chunks));
+        resolve();
+      });
+    }));
+  }
+
+  close(): void {
+    this.#deflate?.close();
+  }
+}
+
+function toBuffer(data: RawData): Buffer {
+  if (Buffer.isBuffer(data)) return data;
+  if (Array.isArray(data))   return Buffer.concat(data);
+  return Buffer.from(data as ArrayBuffer);
+}
+
+/** `name:id` for custom emoji, anything else is unicode */
+function parseEmoji(emoji: string): RawEmoji {
+  const custom = /^(.+):(\d+)$/.exec(emoji);
+  return custom ? { id: custom[2], name: custom[1] } : { id: null, name: emoji };
+}
+
+function pick(source: Record<string, unknown>, keys: string[]): Record<string, unknown> {
+  const picked: Record<string, unknown> = {};
+  for (const key of keys) if (source[key] !== undefined) picked[key] = source[key];
+  return picked;
+}
+
+async function readRequest(req: IncomingMessage): Promise<RecordedRequest> {
+  const url = new URL(req.url ?? '/', 'http://mock');
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  const raw = Buffer.concat(chunks);
+  const contentType = req.headers['content-type'] ?? '';
+
+  const recorded: RecordedRequest = {
+    method: req.method ?? 'GET',
+    path: url.pathname,
+    query: url.searchParams,
+    body: undefined,
+    files: [],
+  };
+
+  if (contentType.startsWith('multipart/form-data')) {
+    // Let undici's parser do the boundary work
+    const form = await new Response(raw, { headers: { 'content-type': contentType } }).formData();
+    const payload = form.get('payload_json');
+    if (typeof payload === 'string') recorded.body = JSON.parse(payload);
+    for (const [key, value] of form) {
+      if (!key.startsWith('files[') || typeof value === 'string') continue;
+      recorded.files.push({
+        name: value.name,
+        contentType: value.type || 'application/octet-stream',
+        data: Buffer.from(await value.arrayBuffer()),
+      });
+    }
+  } else if (raw.length > 0) {
+    recorded.body = JSON.parse(raw.toString('utf8'));
+  }
+  return recorded;
+}
@@ -0,0 +1,99 @@
+import type { RawUser, RawServer, RawChannel, RawMessage, RawMember, RawRole, RawWebhook } from '../types';
+
+const EPOCH = '2025-01-01T00:00:00Z';
+
+// Far above hand-written test ids like '1' or '100', and increasing like real snowflakes
+let counter = 10n ** 17n;
+
+/** Unique, increasing numeric id */
+export function nextSnowflake(): string {
+  return String(++counter);
+}
+
+export function createUser(overrides: Partial<RawUser> = {}): RawUser {
+  const id = overrides.id ?? nextSnowflake();
+  return {
+    id,
+    username: `user${id.slice(-4)}`,
+    display_name: `User ${id.slice(-4)}`,
+    avatar_url: null,
+    created_at: EPOCH,
+    ...overrides,
+  };
+}
+
+export function createServer(overrides: Partial<RawServer> = {}): RawServer {
+  return {
+    id: nextSnowflake(),
+    name: 'Test Server',
+    owner_id: nextSnowflake(),
+    member_count: 1,
+    created_at: EPOCH,
+    ...overrides,
+  };
+}
+
+export function createChannel(overrides: Partial<RawChannel> = {}): RawChannel {
+  return {
+    id: nextSnowflake(),
+    server_id: overrides.server_id ?? nextSnowflake(),
+    name: 'general',
+    type: 0,
+    topic: null,
+    position: 0,
+    parent_id: null,
+    created_at: EPOCH,
+    ...overrides,
+  };
+}
+
+export function createMember(overrides: Partial<RawMember> = {}): RawMember {
+  return {
+    user: overrides.user ?? createUser(),
+    server_id: overrides.server_id ?? nextSnowflake(),
+    nickname: null,
+    role_ids: [],
+    joined_at: EPOCH,
+    ...overrides,
+  };
+}
+
+export function createRole(overrides: Partial<RawRole> = {}): RawRole {
+  return {
+    id: nextSnowflake(),
+    server_id: overrides.server_id ?? nextSnowflake(),
+    name: 'role',
+    color: 0,
+    position: 0,
+    permissions: '0',
+    created_at: EPOCH,
+    ...overrides,
+  };
+}
+
+export function createWebhook(overrides: Partial<RawWebhook> = {}): RawWebhook {
+  return {
+    id: nextSnowflake(),
+    channel_id: overrides.channel_id ?? nextSnowflake(),
+    server_id: overrides.server_id ?? nextSnowflake(),
+    name: 'Captain Hook',
+    avatar_url: null,
+    token: `hook_${nextSnowflake()}`,
+    created_at: EPOCH,
+    ...overrides,
+  };
+}
+
+export function createMessage(overrides: Partial<RawMessage> = {}): RawMessage {
+  return {
+    id: nextSnowflake(),
+    channel_id: overrides.channel_id ?? nextSnowflake(),
+    author: overrides.author ?? createUser(),
+    content: '',
+    created_at: new Date().toISOString(),
+    edited_at: null,
+    attachments: [],
+    embeds: [],
+    ...overrides,
+  };
+}
@@ -0,0 +1,25 @@
+/**
+ * intent.js/testing - mock Intent server and fixtures for end-to-end bot tests.
+ *
+ * Kept out of the main entry point so production bundles never pull it in.
+ */
+
+export { MockIntentServer } from './MockIntentServer';
+export type {
+  MockIntentServerOptions,
+  MockIntentServerEvents,
+  ForcedFailure,
+  RecordedRequest,
+  UploadedFile,
+  DispatchOptions,
+} from './MockIntentServer';
+export {
+  createUser,
+  createServer,
+  createChannel,
+  createMessage,
+  createMember,
+  createRole,
+  createWebhook,
+  nextSnowflake,
+} from './fixtures';
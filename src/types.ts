@@ -16,6 +16,34 @@ export interface RawServer {
   description?: string | null;
   member_count: number;
   created_at: string;
+  /** True while the server is in an outage — the rest of the data may be stale */
+  unavailable?: boolean;
+  /** Sent with READY and SERVER_CREATE; absent from plain REST fetches */
+  roles?: RawRole[];
+}
+
+export interface RawRole {
+  id: string;
+  server_id: string;
+  name: string;
+  /** 24-bit RGB integer, 0 for no color */
+  color: number;
+  /** Higher sorts above lower */
+  position: number;
+  /** Permission bitfield as a decimal string — it can exceed 2^53 */
+  permissions: string;
+  /** Listed separately in the member list */
+  hoist?: boolean;
+  mentionable?: boolean;
+  created_at: string;
+}
+
+export interface RawMember {
+  user: RawUser;
+  server_id: string;
+  nickname?: string | null;
+  role_ids: string[];
+  joined_at: string;
 }
 
 export interface RawChannel {
@@ -26,9 +54,52 @@ export interface RawChannel {
   topic?: string | null;
   position: number;
   parent_id?: string | null;
+  /** Layered on top of the parent category's overwrites */
+  permission_overwrites?: RawPermissionOverwrite[];
+  /** Threads only — who started it */
+  owner_id?: string;
+  /** Threads only */
+  thread_metadata?: RawThreadMetadata;
+  /** Threads only — approximate, stops counting at 50 */
+  message_count?: number;
+  /** Threads only — approximate, stops counting at 50 */
+  member_count?: number;
   created_at: string;
 }
 
+export interface RawThreadMetadata {
+  archived: boolean;
+  /** Only members with MANAGE_THREADS can unarchive a locked thread */
+  locked?: boolean;
+  /** Minutes of inactivity before the thread archives itself */
+  auto_archive_duration: number;
+  archived_at?: string | null;
+}
+
+export interface RawWebhook {
+  id: string;
+  channel_id: string;
+  server_id: string;
+  /** Default author name for messages it posts */
+  name: string;
+  avatar_url?: string | null;
+  /** Secret half of the webhook URL — only returned to whoever can manage the webhook */
+  token?: string;
+  /** Who created it */
+  user?: RawUser;
+  created_at: string;
+}
+
+export interface RawPermissionOverwrite {
+  /** Role or user id */
+  id: string;
+  /** 0 = role, 1 = member */
+  type: 0 | 1;
+  /** Permission bitfields as decimal strings */
+  allow: string;
+  deny: string;
+}
+
 export interface RawMessage {
   id: string;
   channel_id: string;
@@ -36,6 +107,89 @@ export interface RawMessage {
   content: string;
   created_at: string;
   edited_at?: string | null;
-  attachments?: unknown[];
-  embeds?: unknown[];
+  attachments?: RawAttachment[];
+  embeds?: RawEmbed[];
+  /** The author's membership in the message's server — absent outside servers */
+  member?: RawMember;
+  reactions?: RawReaction[];
+  /** Set on replies — the message being replied to */
+  message_reference?: RawMessageReference | null;
+}
+
+export interface RawMessageReference {
+  message_id: string;
+  /** Filled in by the server on received messages; optional when replying */
+  channel_id?: string;
+  server_id?: string | null;
+}
+
+/** Only replies are modelled — mentions in content are unaffected */
+export interface RawAllowedMentions {
+  /** Whether a reply notifies the author of the message it replies to */
+  replied_user?: boolean;
+}
+
+export interface RawEmoji {
+  /** null for unicode emoji */
+  id: string | null;
+  /** The unicode character(s), or the custom emoji's name */
+  name: string;
+  animated?: boolean;
+}
+
+export interface RawReaction {
+  emoji: RawEmoji;
+  count: number;
+  /** Whether the bot is one of the reactors */
+  me: boolean;
+}
+
+export interface RawAttachment {
+  id: string;
+  filename: string;
+  content_type?: string | null;
+  /** Bytes */
+  size: number;
+  url: string;
+  /** Images and video only */
+  width?: number | null;
+  height?: number | null;
+}
+
+export interface RawEmbedField {
+  name: string;
+  value: string;
+  inline?: boolean;
+}
+
+export interface RawEmbedAuthor {
+  name: string;
+  url?: string | null;
+  icon_url?: string | null;
+}
+
+export interface RawEmbedFooter {
+  text: string;
+  icon_url?: string | null;
+}
+
+export interface RawEmbedImage {
+  url: string;
+  width?: number | null;
+  height?: number | null;
+}
+
+export interface RawEmbed {
+  title?: string | null;
+  description?: string | null;
+  url?: string | null;
+  /** 24-bit RGB integer */
+  color?: number | null;
+  /** ISO 8601 */
+  timestamp?: string | null;
+  fields?: RawEmbedField[];
+  author?: RawEmbedAuthor | null;
+  footer?: RawEmbedFooter | null;
+  image?: RawEmbedImage | null;
+  thumbnail?: RawEmbedImage | null;
 }
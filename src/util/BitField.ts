@@ -0,0 +1,87 @@
+/** A flag name, raw bits (bigint or decimal string), another bitfield, or an array of any of those */
+export type BitFieldResolvable<F extends string> =
+  | F
+  | bigint
+  | `${bigint}`
+  | BitField<F>
+  | readonly BitFieldResolvable<F>[];
+
+/**
+ * Immutable set of named bit flags backed by a bigint.
+ *
+ * Subclasses supply the flag table. `add` and `remove` return a new instance
+ * of the subclass, like edits on structures.
+ */
+export abstract class BitField<F extends string> {
+  readonly bitfield: bigint;
+
+  constructor(bits: BitFieldResolvable<F> = 0n) {
+    this.bitfield = this.resolve(bits);
+  }
+
+  /** Flag name → bit */
+  protected abstract get flags(): Readonly<Record<F, bigint>>;
+
+  /** True if every given flag is set */
+  has(bits: BitFieldResolvable<F>): boolean {
+    const resolved = this.resolve(bits);
+    return (this.bitfield & resolved) === resolved;
+  }
+
+  /** True if at least one given flag is set */
+  any(bits: BitFieldResolvable<F>): boolean {
+    return (this.bitfield & this.resolve(bits)) !== 0n;
+  }
+
+  /** The given flags that are not set */
+  missing(bits: BitFieldResolvable<F>): F[] {
+    return this.#with(this.resolve(bits)).remove(this).toArray();
+  }
+
+  equals(bits: BitFieldResolvable<F>): boolean {
+    return this.bitfield === this.resolve(bits);
+  }
+
+  add(...bits: BitFieldResolvable<F>[]): this {
+    return this.#with(this.bitfield | this.resolve(bits));
+  }
+
+  remove(...bits: BitFieldResolvable<F>[]): this {
+    return this.#with(this.bitfield & ~this.resolve(bits));
+  }
+
+  /** Names of the set flags, in table order */
+  toArray(): F[] {
+    return (Object.keys(this.flags) as F[]).filter((flag) => this.has(flag));
+  }
+
+  /** Decimal string — the wire format, since bitfields can exceed 2^53 */
+  toString(): string {
+    return this.bitfield.toString();
+  }
+
+  toJSON(): string {
+    return this.toString();
+  }
+
+  protected resolve(bits: BitFieldResolvable<F>): bigint {
+    if (typeof bits === 'bigint') {
+      if (bits < 0n) throw new RangeError(`${this.constructor.name} cannot be negative`);
+      return bits;
+    }
+    if (bits instanceof BitField) return bits.bitfield;
+    if (Array.isArray(bits)) {
+      return (bits as readonly BitFieldResolvable<F>[]).reduce<bigint>((acc, b) => acc | this.resolve(b), 0n);
+    }
+    const flags = this.flags as Readonly<Record<string, bigint>>;
+    if (typeof bits === 'string') {
+      if (Object.hasOwn(flags, bits)) return flags[bits];
+      if (/^\d+$/.test(bits)) return BigInt(bits);
+    }
+    throw new RangeError(`Unknown ${this.constructor.name} flag: ${String(bits)}`);
+  }
+
+  #with(bits: bigint): this {
+    return new (this.constructor as new (bits: bigint) => this)(bits);
+  }
+}
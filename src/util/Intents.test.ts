@@ -0,0 +1,15 @@
+import { describe, it, expect } from 'vitest';
+import { IntentsBitField } from './Intents';
+
+describe('IntentsBitField', () => {
+  it('serializes to the number sent in IDENTIFY', () => {
+    const intents = new IntentsBitField(['SERVERS', 'SERVER_MESSAGES', 'MESSAGE_CONTENT']);
+    expect(intents.toNumber()).toBe(1 + (1 << 9) + (1 << 15));
+    expect(new IntentsBitField(IntentsBitField.ALL).toArray()).toHaveLength(Object.keys(IntentsBitField.Flags).length);
+  });
+
+  it('flags privileged intents', () => {
+    expect(new IntentsBitField(['SERVERS', 'SERVER_MESSAGES']).any(IntentsBitField.PRIVILEGED)).toBe(false);
+    expect(new IntentsBitField(['SERVER_MEMBERS']).any(IntentsBitField.PRIVILEGED)).toBe(true);
+  });
+});
@@ -0,0 +1,48 @@
+import { BitField, type BitFieldResolvable } from './BitField';
+
+/**
+ * Event groups a connection subscribes to in IDENTIFY. Bit positions match the
+ * API. SERVER_MEMBERS, SERVER_PRESENCES and MESSAGE_CONTENT are privileged and
+ * must be enabled for the bot in its application settings.
+ */
+export const IntentFlags = {
+  /** Server, channel and role create/update/delete */
+  SERVERS:                  1n << 0n,
+  /** Member join/update/leave */
+  SERVER_MEMBERS:           1n << 1n,
+  SERVER_PRESENCES:         1n << 8n,
+  SERVER_MESSAGES:          1n << 9n,
+  SERVER_MESSAGE_REACTIONS: 1n << 10n,
+  SERVER_MESSAGE_TYPING:    1n << 11n,
+  DIRECT_MESSAGES:          1n << 12n,
+  DIRECT_MESSAGE_REACTIONS: 1n << 13n,
+  DIRECT_MESSAGE_TYPING:    1n << 14n,
+  /** Without it, message content, embeds and attachments arrive empty */
+  MESSAGE_CONTENT:          1n << 15n,
+} as const;
+
+export type IntentFlag = keyof typeof IntentFlags;
+export type IntentResolvable = BitFieldResolvable<IntentFlag>;
+
+/**
+ * The intents a client identifies with.
+ *
+ * @example
+ * new Client({ token, intents: ['SERVERS', 'SERVER_MESSAGES', 'MESSAGE_CONTENT'] })
+ */
+export class IntentsBitField extends BitField<IntentFlag> {
+  static readonly Flags = IntentFlags;
+  /** Every known intent */
+  static readonly ALL = Object.values(IntentFlags).reduce((all, bit) => all | bit, 0n);
+  /** Intents that need enabling in the application settings first */
+  static readonly PRIVILEGED = IntentFlags.SERVER_MEMBERS | IntentFlags.SERVER_PRESENCES | IntentFlags.MESSAGE_CONTENT;
+
+  protected get flags(): typeof IntentFlags {
+    return IntentFlags;
+  }
+
+  /** The wire value sent in IDENTIFY — every intent fits in 32 bits */
+  toNumber(): number {
+    return Number(this.bitfield);
+  }
+}
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { Permissions, PermissionFlags, computePermissions, type PermissionContext, type PermissionOverwrite } from './Permissions';
+
+function overwrite(id: string, type: 'role' | 'member', allow: Permissions | bigint = 0n, deny: Permissions | bigint = 0n): PermissionOverwrite {
+  return { id, type, allow: new Permissions(allow), deny: new Permissions(deny) };
+}
+
+describe('Permissions', () => {
+  it('resolves flag names, bigints, decimal strings and arrays', () => {
+    const perms = new Permissions(['SEND_MESSAGES', PermissionFlags.VIEW_CHANNEL, '64']);
+    expect(perms.has('SEND_MESSAGES')).toBe(true);
+    expect(perms.has(['VIEW_CHANNEL', 'ADD_REACTIONS'])).toBe(true);
+    expect(perms.has(['VIEW_CHANNEL', 'KICK_MEMBERS'])).toBe(false);
+    expect(perms.any(['VIEW_CHANNEL', 'KICK_MEMBERS'])).toBe(true);
+    expect(perms.toArray()).toEqual(['ADD_REACTIONS', 'VIEW_CHANNEL', 'SEND_MESSAGES']);
+  });
+
+  it('returns new instances from add() and remove()', () => {
+    const base = new Permissions('VIEW_CHANNEL');
+    const more = base.add('SEND_MESSAGES', 'EMBED_LINKS');
+    expect(more).toBeInstanceOf(Permissions);
+    expect(base.toArray()).toEqual(['VIEW_CHANNEL']);
+    expect(more.remove('VIEW_CHANNEL').toArray()).toEqual(['SEND_MESSAGES', 'EMBED_LINKS']);
+    expect(base.missing(['VIEW_CHANNEL', 'ATTACH_FILES'])).toEqual(['ATTACH_FILES']);
+  });
+
+  it('serializes as a decimal string, including bits past 2^53', () => {
+    const perms = new Permissions(1n << 60n | 1n);
+    expect(JSON.stringify({ allow: perms })).toBe('{"allow":"1152921504606846977"}');
+    expect(new Permissions(perms.toString()).equals(perms)).toBe(true);
+  });
+
+  it('rejects unknown flags', () => {
+    expect(() => new Permissions('FLY' as never)).toThrow('Unknown Permissions flag: FLY');
+    expect(() => new Permissions(-1n)).toThrow(RangeError);
+  });
+});
+
+describe('computePermissions()', () => {
+  const roles: Record<string, Permissions> = {
+    // @everyone shares the server id
+    1: new Permissions(['VIEW_CHANNEL', 'SEND_MESSAGES', 'READ_MESSAGE_HISTORY']),
+    10: new Permissions(['MANAGE_MESSAGES']),
+    11: new Permissions(['ADMINISTRATOR']),
+  };
+
+  function context(overrides: Partial<PermissionContext> = {}): PermissionContext {
+    return {
+      serverId: '1',
+      ownerId: '999',
+      userId: '100',
+      roleIds: ['10'],
+      rolePermissions: (id) => roles[id],
+      ...overrides,
+    };
+  }
+
+  it('ORs @everyone with the member roles', () => {
+    expect(computePermissions(context()).toArray()).toEqual(['VIEW_CHANNEL', 'SEND_MESSAGES', 'MANAGE_MESSAGES', 'READ_MESSAGE_HISTORY']);
+  });
+
+  it('grants everything to the owner and administrators, ignoring overwrites', () => {
+    const deny = [[overwrite('1', 'role', 0n, Permissions.ALL)]];
+    expect(computePermissions(context({ userId: '999', overwrites: deny })).bitfield).toBe(Permissions.ALL);
+    expect(computePermissions(context({ roleIds: ['11'], overwrites: deny })).bitfield).toBe(Permissions.ALL);
+  });
+
+  it('applies @everyone, role and member overwrites in that order', () => {
+    const perms = computePermissions(context({
+      overwrites: [[
+        overwrite('100', 'member', PermissionFlags.SEND_MESSAGES),
+        overwrite('1', 'role', PermissionFlags.ATTACH_FILES, PermissionFlags.SEND_MESSAGES | PermissionFlags.READ_MESSAGE_HISTORY),
+        overwrite('10', 'role', PermissionFlags.READ_MESSAGE_HISTORY, PermissionFlags.ATTACH_FILES),
+      ]],
+    }));
+    expect(perms.has(['SEND_MESSAGES', 'READ_MESSAGE_HISTORY'])).toBe(true);
+    expect(perms.has('ATTACH_FILES')).toBe(false);
+  });
+
+  it('layers channel overwrites over the parent category', () => {
+    const category = [overwrite('1', 'role', 0n, PermissionFlags.SEND_MESSAGES)];
+    expect(computePermissions(context({ overwrites: [category, []] })).has('SEND_MESSAGES')).toBe(false);
+    const channel = [overwrite('10', 'role', PermissionFlags.SEND_MESSAGES)];
+    expect(computePermissions(context({ overwrites: [category, channel] })).has('SEND_MESSAGES')).toBe(true);
+  });
+
+  it('leaves nothing once VIEW_CHANNEL is denied', () => {
+    const perms = computePermissions(context({ overwrites: [[overwrite('1', 'role', 0n, PermissionFlags.VIEW_CHANNEL)]] }));
+    expect(perms.bitfield).toBe(0n);
+  });
+});
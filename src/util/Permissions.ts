@@ -0,0 +1,107 @@
+import { BitField, type BitFieldResolvable } from './BitField';
+
+/** Bit positions match the API's permission integers */
+export const PermissionFlags = {
+  CREATE_INVITE:            1n << 0n,
+  KICK_MEMBERS:             1n << 1n,
+  BAN_MEMBERS:              1n << 2n,
+  /** Grants every permission and bypasses channel overwrites */
+  ADMINISTRATOR:            1n << 3n,
+  MANAGE_CHANNELS:          1n << 4n,
+  MANAGE_SERVER:            1n << 5n,
+  ADD_REACTIONS:            1n << 6n,
+  VIEW_AUDIT_LOG:           1n << 7n,
+  VIEW_CHANNEL:             1n << 10n,
+  SEND_MESSAGES:            1n << 11n,
+  MANAGE_MESSAGES:          1n << 13n,
+  EMBED_LINKS:              1n << 14n,
+  ATTACH_FILES:             1n << 15n,
+  READ_MESSAGE_HISTORY:     1n << 16n,
+  MENTION_EVERYONE:         1n << 17n,
+  CHANGE_NICKNAME:          1n << 26n,
+  MANAGE_NICKNAMES:         1n << 27n,
+  MANAGE_ROLES:             1n << 28n,
+  MANAGE_WEBHOOKS:          1n << 29n,
+  /** Archive, lock and delete other members' threads */
+  MANAGE_THREADS:           1n << 34n,
+  CREATE_PUBLIC_THREADS:    1n << 35n,
+  CREATE_PRIVATE_THREADS:   1n << 36n,
+  SEND_MESSAGES_IN_THREADS: 1n << 38n,
+} as const;
+
+export type PermissionFlag = keyof typeof PermissionFlags;
+export type PermissionResolvable = BitFieldResolvable<PermissionFlag>;
+
+/**
+ * Permission bitfield for roles, overwrites and computed member permissions.
+ *
+ * @example
+ * if (!channel.permissionsFor(member)?.has(['SEND_MESSAGES', 'EMBED_LINKS'])) return;
+ */
+export class Permissions extends BitField<PermissionFlag> {
+  static readonly Flags = PermissionFlags;
+  /** Every known permission */
+  static readonly ALL = Object.values(PermissionFlags).reduce((all, bit) => all | bit, 0n);
+
+  protected get flags(): typeof PermissionFlags {
+    return PermissionFlags;
+  }
+}
+
+/** A channel-level allow/deny pair for one role or one member */
+export interface PermissionOverwrite {
+  /** Role or user id — the @everyone role shares the server's id */
+  id: string;
+  type: 'role' | 'member';
+  allow: Permissions;
+  deny: Permissions;
+}
+
+/** Everything computePermissions needs, already looked up from the cache */
+export interface PermissionContext {
+  serverId: string;
+  ownerId: string;
+  userId: string;
+  roleIds: readonly string[];
+  /** A role's permissions, or undefined when it isn't known */
+  rolePermissions: (roleId: string) => Permissions | undefined;
+  /** Overwrite sets applied in order — a parent category's first, then the channel's own */
+  overwrites?: readonly (readonly PermissionOverwrite[])[];
+}
+
+/**
+ * Effective permissions for one member.
+ *
+ * The owner and administrators get everything. Otherwise the @everyone role
+ * and the member's roles are OR-ed together, then each overwrite set is applied
+ * in turn: @everyone, then the member's roles combined, then the member. A
+ * member who ends up without VIEW_CHANNEL has no permissions in the channel.
+ */
+export function computePermissions(ctx: PermissionContext): Permissions {
+  if (ctx.userId === ctx.ownerId) return new Permissions(Permissions.ALL);
+
+  let bits = ctx.rolePermissions(ctx.serverId)?.bitfield ?? 0n;
+  for (const id of ctx.roleIds) bits |= ctx.rolePermissions(id)?.bitfield ?? 0n;
+  if (bits & PermissionFlags.ADMINISTRATOR) return new Permissions(Permissions.ALL);
+  if (!ctx.overwrites) return new Permissions(bits);
+
+  for (const set of ctx.overwrites) {
+    const everyone = set.find((o) => o.type === 'role' && o.id === ctx.serverId);
+    if (everyone) bits = (bits & ~everyone.deny.bitfield) | everyone.allow.bitfield;
+
+    let allow = 0n;
+    let deny  = 0n;
+    for (const o of set) {
+      if (o.type === 'role' && ctx.roleIds.includes(o.id)) {
+        allow |= o.allow.bitfield;
+        deny  |= o.deny.bitfield;
+      }
+    }
+    bits = (bits & ~deny) | allow;
+
+    const member = set.find((o) => o.type === 'member' && o.id === ctx.userId);
+    if (member) bits = (bits & ~member.deny.bitfield) | member.allow.bitfield;
+  }
+
+  return new Permissions(bits & PermissionFlags.VIEW_CHANNEL ? bits : 0n);
+}
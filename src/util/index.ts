@@ -0,0 +1,11 @@
+export { BitField, type BitFieldResolvable } from './BitField';
+export {
+  Permissions,
+  PermissionFlags,
+  computePermissions,
+  type PermissionFlag,
+  type PermissionResolvable,
+  type PermissionOverwrite,
+  type PermissionContext,
+} from './Permissions';
+export { IntentsBitField, IntentFlags, type IntentFlag, type IntentResolvable } from './Intents';